@@ -0,0 +1,429 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ClipboardCheck, Pencil, Play, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { agentsApi } from "@/lib/api";
+import { useCanPerform } from "@/lib/auth";
+import { errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { AgentTestCase, AgentType, EvalAssertion, EvalCaseResult } from "@/types";
+
+const assertionOps: { value: EvalAssertion["op"]; label: string }[] = [
+  { value: "equals", label: "equals" },
+  { value: "not_equals", label: "does not equal" },
+  { value: "contains", label: "contains" },
+  { value: "matches", label: "matches regex" },
+  { value: "exists", label: "exists" },
+];
+
+// Values are typed as JSON when they parse (true, 3, ["a"]) and kept as text otherwise
+interface AssertionDraft {
+  path: string;
+  op: EvalAssertion["op"];
+  value: string;
+}
+
+function toDraft(assertion: EvalAssertion): AssertionDraft {
+  const value = assertion.value === undefined ? "" : typeof assertion.value === "string" ? assertion.value : JSON.stringify(assertion.value);
+  return { path: assertion.path, op: assertion.op, value };
+}
+
+function fromDraft(draft: AssertionDraft): EvalAssertion {
+  if (draft.op === "exists") return { path: draft.path.trim(), op: draft.op };
+  if (draft.op === "matches") return { path: draft.path.trim(), op: draft.op, value: draft.value };
+  let value: unknown = draft.value;
+  try {
+    value = JSON.parse(draft.value);
+  } catch {
+    // plain text
+  }
+  return { path: draft.path.trim(), op: draft.op, value };
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString("es-AR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatValue(value: unknown) {
+  return value === undefined ? "missing" : JSON.stringify(value);
+}
+
+function CaseResult({ result }: { result: EvalCaseResult }) {
+  const regressed = result.baselinePassed === true && !result.passed;
+  const fixed = result.baselinePassed === false && result.passed;
+
+  return (
+    <div
+      className={cn("p-3 border border-border rounded space-y-2", regressed && "bg-destructive/10")}
+      data-testid={`eval-result-${result.caseId}`}
+    >
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{result.name}</span>
+        <div className="flex items-center space-x-2">
+          {regressed && <Badge variant="destructive">Regressed</Badge>}
+          {fixed && <Badge className="bg-accent text-accent-foreground">Fixed</Badge>}
+          {result.passed ? (
+            <Badge className="bg-accent text-accent-foreground">Pass</Badge>
+          ) : (
+            <Badge variant="outline" className="text-destructive">Fail</Badge>
+          )}
+        </div>
+      </div>
+      {result.error && <p className="text-sm text-destructive">{result.error}</p>}
+      {result.assertions
+        .filter((assertion) => !assertion.passed)
+        .map((assertion, index) => (
+          <p key={index} className="text-xs font-mono text-muted-foreground">
+            {assertion.path} {assertion.op} {assertion.op !== "exists" && formatValue(assertion.value)} · got {formatValue(assertion.actual)}
+          </p>
+        ))}
+      {/* Runs recorded before output schema checks have no violations list */}
+      {(result.schemaViolations ?? []).map((violation) => (
+        <p key={violation.path} className="text-xs font-mono text-destructive">
+          schema {violation.path} {violation.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// Agents → Evals tab: saved test cases for this agent, batch runs against any
+// saved version, and pass/fail changes against the live version's last run
+export function AgentEvals({ agentType }: { agentType: AgentType }) {
+  const [editing, setEditing] = useState<AgentTestCase | "new" | null>(null);
+  const [caseName, setCaseName] = useState("");
+  const [caseInput, setCaseInput] = useState("");
+  const [assertions, setAssertions] = useState<AssertionDraft[]>([]);
+  const [version, setVersion] = useState<string>();
+  const [selectedRunId, setSelectedRunId] = useState<string>();
+
+  const canEdit = useCanPerform("edit:agents");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: testCases = [], isLoading } = useQuery({
+    queryKey: ["/api/agents", agentType, "test-cases"],
+    queryFn: () => agentsApi.getTestCases(agentType),
+  });
+
+  const { data: versions = [] } = useQuery({
+    queryKey: ["/api/agents", agentType, "versions"],
+    queryFn: () => agentsApi.getVersions(agentType),
+  });
+
+  const { data: runs = [] } = useQuery({
+    queryKey: ["/api/agents", agentType, "evals"],
+    queryFn: () => agentsApi.getEvalRuns(agentType),
+  });
+
+  // Poll while the run is in progress
+  const { data: run } = useQuery({
+    queryKey: ["/api/agents", agentType, "evals", selectedRunId],
+    queryFn: () => agentsApi.getEvalRun(agentType, selectedRunId!),
+    enabled: Boolean(selectedRunId),
+    refetchInterval: (query) => (query.state.data?.status === "running" ? 2000 : false),
+  });
+
+  useEffect(() => {
+    setVersion(versions[0]?.version);
+  }, [versions]);
+
+  useEffect(() => {
+    setSelectedRunId((current) => (runs.some((entry) => entry.id === current) ? current : runs[0]?.id));
+  }, [runs]);
+
+  // The list shows progress too, so refresh it when the selected run finishes
+  useEffect(() => {
+    if (run && run.status !== "running") {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", agentType, "evals"], exact: true });
+    }
+  }, [run?.status, agentType, queryClient]);
+
+  const openEditor = (testCase: AgentTestCase | "new") => {
+    setEditing(testCase);
+    setCaseName(testCase === "new" ? "" : testCase.name);
+    setCaseInput(testCase === "new" ? "" : testCase.input);
+    setAssertions(testCase === "new" ? [{ path: "", op: "equals", value: "" }] : testCase.assertions.map(toDraft));
+  };
+
+  const onCasesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/agents", agentType, "test-cases"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
+  const saveCaseMutation = useMutation({
+    mutationFn: () => {
+      const data = { name: caseName.trim(), input: caseInput, assertions: assertions.map(fromDraft) };
+      return editing === "new" || !editing
+        ? agentsApi.createTestCase(agentType, data)
+        : agentsApi.updateTestCase(agentType, editing.id, data);
+    },
+    onSuccess: () => {
+      onCasesChanged();
+      setEditing(null);
+      toast({ title: "Test Case Saved", description: "It will run in the next eval." });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to save test case."), variant: "destructive" });
+    },
+  });
+
+  const deleteCaseMutation = useMutation({
+    mutationFn: (id: string) => agentsApi.deleteTestCase(agentType, id),
+    onSuccess: onCasesChanged,
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to delete test case."), variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => agentsApi.runEval(agentType, version!),
+    onSuccess: (started) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", agentType, "evals"], exact: true });
+      setSelectedRunId(started.id);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to start eval run."), variant: "destructive" });
+    },
+  });
+
+  const updateAssertion = (index: number, change: Partial<AssertionDraft>) => {
+    setAssertions((current) => current.map((assertion, i) => (i === index ? { ...assertion, ...change } : assertion)));
+  };
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted animate-pulse rounded" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Test Cases ({testCases.length})</Label>
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={() => openEditor("new")} data-testid="add-test-case">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Case
+            </Button>
+          )}
+        </div>
+        {testCases.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <ClipboardCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No test cases yet</p>
+            <p className="text-sm">Save a transcript and the output fields you expect from it</p>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-[200px] overflow-auto">
+            {testCases.map((testCase) => (
+              <div
+                key={testCase.id}
+                className="flex items-center justify-between p-3 border border-border rounded"
+                data-testid={`test-case-${testCase.id}`}
+              >
+                <div>
+                  <div className="font-medium">{testCase.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {testCase.assertions.length} assertion{testCase.assertions.length === 1 ? "" : "s"}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEditor(testCase)} data-testid={`edit-test-case-${testCase.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteCaseMutation.mutate(testCase.id)}
+                      disabled={deleteCaseMutation.isPending}
+                      data-testid={`delete-test-case-${testCase.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {canEdit && testCases.length > 0 && versions.length > 0 && (
+        <div className="flex items-center space-x-2">
+          <Select value={version} onValueChange={setVersion}>
+            <SelectTrigger className="flex-1" data-testid="eval-version">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((entry, index) => (
+                <SelectItem key={entry.id} value={entry.version}>
+                  v{entry.version}{index === 0 ? " (current)" : ""}{entry.changelog ? ` · ${entry.changelog}` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => runMutation.mutate()} disabled={!version || runMutation.isPending} data-testid="run-evals">
+            <Play className="h-4 w-4 mr-2" />
+            Run Evals
+          </Button>
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div className="space-y-2 max-h-[160px] overflow-auto">
+          {runs.map((entry) => (
+            <div
+              key={entry.id}
+              className={cn(
+                "flex items-center justify-between p-2 border border-border rounded cursor-pointer text-sm",
+                entry.id === selectedRunId && "bg-accent/50",
+              )}
+              onClick={() => setSelectedRunId(entry.id)}
+              data-testid={`eval-run-${entry.id}`}
+            >
+              <div className="flex items-center space-x-2">
+                <Badge variant="outline" className="font-mono">v{entry.version}</Badge>
+                <span>{entry.passed}/{entry.total} passed</span>
+                {entry.status === "running" && <Badge variant="outline">Running</Badge>}
+                {entry.status === "failed" && <Badge variant="outline" className="text-destructive">Failed</Badge>}
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {entry.createdByName || "System"} · {formatDate(entry.startedAt)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {run && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Run · v{run.version}</Label>
+            {run.baseline ? (
+              <span className={cn("text-sm", run.regressions > 0 ? "text-destructive font-medium" : "text-muted-foreground")}>
+                {run.regressions} regression{run.regressions === 1 ? "" : "s"} vs v{run.baseline.version}
+              </span>
+            ) : (
+              <span className="text-xs text-muted-foreground">Run the current version to get a baseline</span>
+            )}
+          </div>
+          {run.status === "running" && (
+            <Progress value={run.total ? ((run.passed + run.failed) / run.total) * 100 : 0} />
+          )}
+          {run.error && <p className="text-sm text-destructive">{run.error}</p>}
+          <div className="space-y-2 max-h-[300px] overflow-auto">
+            {run.results.map((result) => (
+              <CaseResult key={result.caseId} result={result} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Test Case" : "Edit Test Case"}</DialogTitle>
+            <DialogDescription>
+              Paths point into the agent's JSON output, e.g. <span className="font-mono">lead.is_qualified</span>.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="case-name">Name</Label>
+              <Input
+                id="case-name"
+                value={caseName}
+                onChange={(e) => setCaseName(e.target.value)}
+                maxLength={200}
+                data-testid="test-case-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="case-input">Input Transcript</Label>
+              <Textarea
+                id="case-input"
+                value={caseInput}
+                onChange={(e) => setCaseInput(e.target.value)}
+                className="min-h-[120px] font-mono text-sm"
+                data-testid="test-case-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Assertions</Label>
+              {assertions.map((assertion, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <Input
+                    placeholder="path"
+                    value={assertion.path}
+                    onChange={(e) => updateAssertion(index, { path: e.target.value })}
+                    className="font-mono"
+                    data-testid={`assertion-path-${index}`}
+                  />
+                  <Select value={assertion.op} onValueChange={(op) => updateAssertion(index, { op: op as EvalAssertion["op"] })}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assertionOps.map((op) => (
+                        <SelectItem key={op.value} value={op.value}>{op.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder={assertion.op === "exists" ? "" : "value"}
+                    value={assertion.value}
+                    onChange={(e) => updateAssertion(index, { value: e.target.value })}
+                    disabled={assertion.op === "exists"}
+                    className="font-mono"
+                    data-testid={`assertion-value-${index}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setAssertions(assertions.filter((_, i) => i !== index))}
+                    disabled={assertions.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setAssertions([...assertions, { path: "", op: "equals", value: "" }])}
+                data-testid="add-assertion"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Assertion
+              </Button>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveCaseMutation.mutate()}
+              disabled={!caseName.trim() || !caseInput.trim() || saveCaseMutation.isPending}
+              data-testid="save-test-case"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { FlaskConical, Plus, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { agentsApi } from "@/lib/api";
+import { useCanPerform } from "@/lib/auth";
+import { errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { AgentType, ExperimentVariant, RateComparison } from "@/types";
+
+const variantKeys = ["A", "B", "C", "D"];
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString("es-AR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatRate(rate: number) {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function Lift({ comparison }: { comparison: RateComparison | undefined }) {
+  if (!comparison || comparison.lift === null) return null;
+  const lift = comparison.lift * 100;
+  return (
+    <span
+      className={cn(
+        "ml-2 text-xs",
+        comparison.significant ? (lift >= 0 ? "text-accent font-medium" : "text-destructive font-medium") : "text-muted-foreground",
+      )}
+      title={comparison.significant ? "Significant at 95%" : "Not significant yet"}
+    >
+      {lift >= 0 ? "+" : ""}{lift.toFixed(1)}%
+    </span>
+  );
+}
+
+// Agents → Experiments tab: split live traffic between saved versions and
+// compare qualification/scheduling rates per variant
+export function AgentExperiments({ agentType }: { agentType: AgentType }) {
+  const [selectedId, setSelectedId] = useState<string>();
+  const [name, setName] = useState("");
+  const [variants, setVariants] = useState<ExperimentVariant[]>([]);
+
+  const canEdit = useCanPerform("edit:agents");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: experiments = [], isLoading } = useQuery({
+    queryKey: ["/api/agents", agentType, "experiments"],
+    queryFn: () => agentsApi.getExperiments(agentType),
+  });
+
+  const { data: allVersions = [] } = useQuery({
+    queryKey: ["/api/agents", agentType, "versions"],
+    queryFn: () => agentsApi.getVersions(agentType),
+  });
+
+  // Variants are served to n8n, so only published versions qualify
+  const versions = useMemo(() => allVersions.filter((version) => version.status === "published"), [allVersions]);
+
+  const { data: results } = useQuery({
+    queryKey: ["/api/agents", agentType, "experiments", selectedId, "results"],
+    queryFn: () => agentsApi.getExperimentResults(agentType, selectedId!),
+    enabled: Boolean(selectedId),
+  });
+
+  const running = experiments.find((experiment) => experiment.status === "running");
+
+  // Show the running (or latest) experiment's results by default
+  useEffect(() => {
+    setSelectedId((current) =>
+      experiments.some((experiment) => experiment.id === current) ? current : (running ?? experiments[0])?.id,
+    );
+  }, [experiments, running]);
+
+  // New experiments default to the latest published version vs the one before, 50/50
+  useEffect(() => {
+    setVariants(versions.slice(0, 2).map((version, index) => ({ key: variantKeys[index], version: version.version, weight: 50 })));
+  }, [versions]);
+
+  const onExperimentsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/agents", agentType, "experiments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => agentsApi.createExperiment(agentType, { name: name.trim(), variants }),
+    onSuccess: (experiment) => {
+      onExperimentsChanged();
+      setName("");
+      setSelectedId(experiment.id);
+      toast({ title: "Experiment Started", description: `${experiment.name} is now splitting ${agentType} traffic.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to start experiment."), variant: "destructive" });
+    },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: (id: string) => agentsApi.stopExperiment(agentType, id),
+    onSuccess: () => {
+      onExperimentsChanged();
+      toast({ title: "Experiment Stopped", description: `All ${agentType} traffic uses the current version again.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to stop experiment."), variant: "destructive" });
+    },
+  });
+
+  const updateVariant = (index: number, change: Partial<ExperimentVariant>) => {
+    setVariants((current) => current.map((variant, i) => (i === index ? { ...variant, ...change } : variant)));
+  };
+
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted animate-pulse rounded" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {canEdit && !running && (
+        <div className="space-y-3 p-3 border border-border rounded">
+          {versions.length < 2 ? (
+            <p className="text-sm text-muted-foreground">Publish at least two versions of this agent to run an experiment.</p>
+          ) : (
+            <>
+              <div>
+                <Label htmlFor="experiment-name">New Experiment</Label>
+                <Input
+                  id="experiment-name"
+                  placeholder="e.g. Shorter qualifier opener"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={100}
+                  data-testid="experiment-name"
+                />
+              </div>
+              {variants.map((variant, index) => (
+                <div key={variant.key} className="flex items-center space-x-2">
+                  <Badge variant="outline" className="font-mono w-8 justify-center">{variant.key}</Badge>
+                  <Select value={variant.version} onValueChange={(version) => updateVariant(index, { version })}>
+                    <SelectTrigger className="flex-1" data-testid={`variant-version-${variant.key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem key={version.id} value={version.version}>
+                          v{version.version}{version.changelog ? ` · ${version.changelog}` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={variant.weight}
+                    onChange={(e) => updateVariant(index, { weight: Number(e.target.value) })}
+                    className="w-20"
+                    data-testid={`variant-weight-${variant.key}`}
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setVariants([...variants, { key: variantKeys[variants.length], version: versions[0].version, weight: 0 }])}
+                  disabled={variants.length >= variantKeys.length}
+                  data-testid="add-variant"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Variant
+                </Button>
+                <span className={cn("text-xs", totalWeight === 100 ? "text-muted-foreground" : "text-destructive")}>
+                  Split: {totalWeight}% of 100%
+                </span>
+              </div>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!name.trim() || totalWeight !== 100 || createMutation.isPending}
+                className="w-full"
+                data-testid="start-experiment"
+              >
+                <FlaskConical className="h-4 w-4 mr-2" />
+                Start Experiment
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {experiments.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <FlaskConical className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No experiments yet</p>
+          <p className="text-sm">Each conversation keeps the variant it was first assigned</p>
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-[200px] overflow-auto">
+          {experiments.map((experiment) => (
+            <div
+              key={experiment.id}
+              className={cn(
+                "flex items-center justify-between p-3 border border-border rounded cursor-pointer",
+                experiment.id === selectedId && "bg-accent/50",
+              )}
+              onClick={() => setSelectedId(experiment.id)}
+              data-testid={`experiment-${experiment.id}`}
+            >
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">{experiment.name}</span>
+                  {experiment.status === "running" ? (
+                    <Badge className="bg-accent text-accent-foreground">Running</Badge>
+                  ) : (
+                    <Badge variant="outline">Stopped</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {experiment.variants.map((variant) => `${variant.key} v${variant.version} ${variant.weight}%`).join(" · ")}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {experiment.createdByName || "System"} · {formatDate(experiment.startedAt)}
+                  {experiment.endedAt && ` → ${formatDate(experiment.endedAt)}`}
+                </p>
+              </div>
+              {canEdit && experiment.status === "running" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    stopMutation.mutate(experiment.id);
+                  }}
+                  disabled={stopMutation.isPending}
+                  data-testid={`stop-experiment-${experiment.id}`}
+                >
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {results && (
+        <div className="space-y-2">
+          <Label>Results · {results.experiment.name}</Label>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead>Conversations</TableHead>
+                <TableHead>Qualified</TableHead>
+                <TableHead>Scheduled</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.variants.map((variant, index) => (
+                <TableRow key={variant.key} data-testid={`experiment-result-${variant.key}`}>
+                  <TableCell>
+                    <span className="font-mono">{variant.key}</span>
+                    <span className="text-xs text-muted-foreground ml-2">
+                      v{variant.version} · {variant.weight}%{index === 0 && " · control"}
+                    </span>
+                  </TableCell>
+                  <TableCell>{variant.conversations}</TableCell>
+                  <TableCell>
+                    {formatRate(variant.qualificationRate)}
+                    <Lift comparison={variant.vsControl?.qualification} />
+                  </TableCell>
+                  <TableCell>
+                    {formatRate(variant.schedulingRate)}
+                    <Lift comparison={variant.vsControl?.scheduling} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            Outcomes come from the jobs of each assigned conversation. Lifts are highlighted once significant at 95%
+            (at least 30 conversations per variant).
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
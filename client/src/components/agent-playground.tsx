@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowRight, CheckCircle, MessagesSquare, RotateCcw, Send, User } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { agentsApi } from "@/lib/api";
+import { errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { ConversationStage, PlaygroundTurn } from "@/types";
+
+// Same order as production (conversationPipeline in shared/contracts.ts)
+const stages: ConversationStage[] = ["qualifier", "objections", "closer", "scheduler"];
+
+type Entry = { role: "lead"; content: string } | { role: "agent"; turn: PlaygroundTurn };
+
+function Handoff({ turn }: { turn: PlaygroundTurn }) {
+  if (!turn.success) return null;
+  if (!turn.handoff.complete) {
+    return <p className="text-xs text-muted-foreground">Stays with {turn.stage}</p>;
+  }
+  return (
+    <p className="flex items-center text-xs text-accent font-medium">
+      {turn.handoff.next ? (
+        <>
+          Task complete <ArrowRight className="h-3 w-3 mx-1" /> hands off to {turn.handoff.next}
+        </>
+      ) : (
+        <>
+          <CheckCircle className="h-3 w-3 mr-1" /> Meeting scheduled, conversation complete
+        </>
+      )}
+    </p>
+  );
+}
+
+function AgentTurn({ turn }: { turn: PlaygroundTurn }) {
+  return (
+    <div className="mr-8 p-3 border border-border rounded space-y-2" data-testid={`playground-turn-${turn.stage}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Badge variant="outline" className="capitalize">{turn.stage}</Badge>
+          <span className="text-xs font-mono text-muted-foreground">v{turn.version}</span>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {turn.tokensUsed} tokens · ${turn.estimatedCost.toFixed(4)}
+          {turn.latency && ` · ${turn.latency}ms`}
+        </span>
+      </div>
+      {turn.success ? (
+        <>
+          {turn.reply && <p className="text-sm whitespace-pre-wrap">{turn.reply}</p>}
+          <details>
+            <summary className="text-xs text-muted-foreground cursor-pointer">Structured output</summary>
+            <pre className="mt-1 bg-muted p-2 rounded font-mono text-xs overflow-auto">
+              {JSON.stringify(turn.output, null, 2)}
+            </pre>
+          </details>
+          {turn.schemaViolations && turn.schemaViolations.length > 0 && (
+            <div className="bg-destructive/10 p-2 rounded text-xs space-y-1">
+              {turn.schemaViolations.map((violation) => (
+                <p key={violation.path}>
+                  <span className="font-mono">{violation.path}</span> {violation.message}
+                </p>
+              ))}
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-destructive">Agent failed: {turn.error}</p>
+      )}
+      <Handoff turn={turn} />
+    </div>
+  );
+}
+
+// Simulated LinkedIn conversation: the operator writes as the lead and each
+// message goes to the published agent of the current stage, which hands off
+// to the next stage once it reports its task complete
+export function AgentPlayground() {
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [stage, setStage] = useState<ConversationStage | null>("qualifier");
+  const [message, setMessage] = useState("");
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const turnMutation = useMutation({
+    mutationFn: (content: string) =>
+      agentsApi.playground({
+        stage: stage!,
+        message: content,
+        history: entries.map((entry) =>
+          entry.role === "lead"
+            ? { role: "lead", content: entry.content }
+            : { role: "agent", agentType: entry.turn.stage, content: entry.turn.reply ?? JSON.stringify(entry.turn.output ?? null) },
+        ),
+      }),
+    onSuccess: (turn, content) => {
+      setEntries((current) => [...current, { role: "lead", content }, { role: "agent", turn }]);
+      setStage(turn.handoff.next);
+      setMessage("");
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", turn.stage, "usage"] });
+    },
+    onError: (error) => {
+      toast({ title: "Turn Failed", description: errorMessage(error, "The agent could not answer."), variant: "destructive" });
+    },
+  });
+
+  const reset = () => {
+    setEntries([]);
+    setStage("qualifier");
+    setMessage("");
+  };
+
+  const tokens = entries.reduce((sum, entry) => sum + (entry.role === "agent" ? entry.turn.tokensUsed : 0), 0);
+
+  return (
+    <Card data-testid="agent-playground">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <MessagesSquare className="h-5 w-5" />
+            <span>Conversation Playground</span>
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={reset} disabled={entries.length === 0 || turnMutation.isPending}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Restart
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Play the lead; messages route through the published agents like production
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center flex-wrap gap-1 text-sm">
+          {stages.map((entry, index) => (
+            <div key={entry} className="flex items-center">
+              {index > 0 && <ArrowRight className="h-3 w-3 mx-1 text-muted-foreground" />}
+              <Badge
+                variant={entry === stage ? "default" : "outline"}
+                className={cn("capitalize", stage !== null && stages.indexOf(entry) < stages.indexOf(stage) && "text-muted-foreground")}
+              >
+                {entry}
+              </Badge>
+            </div>
+          ))}
+          {tokens > 0 && <span className="ml-auto text-xs text-muted-foreground">{tokens} tokens so far</span>}
+        </div>
+
+        <div className="space-y-3 max-h-[500px] overflow-auto">
+          {entries.length === 0 && (
+            <p className="text-center py-6 text-sm text-muted-foreground">Write the lead's first message to start</p>
+          )}
+          {entries.map((entry, index) =>
+            entry.role === "lead" ? (
+              <div key={index} className="ml-8 p-3 rounded bg-muted text-sm flex items-start space-x-2">
+                <User className="h-4 w-4 mt-0.5 shrink-0" />
+                <p className="whitespace-pre-wrap">{entry.content}</p>
+              </div>
+            ) : (
+              <AgentTurn key={index} turn={entry.turn} />
+            ),
+          )}
+        </div>
+
+        {stage ? (
+          <div className="flex items-end space-x-2">
+            <Textarea
+              placeholder={`Message from the lead (goes to the ${stage})...`}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={4000}
+              className="min-h-[80px]"
+              data-testid="playground-message"
+            />
+            <Button
+              onClick={() => turnMutation.mutate(message.trim())}
+              disabled={!message.trim() || turnMutation.isPending}
+              data-testid="playground-send"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {turnMutation.isPending ? "Waiting..." : "Send"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">The conversation reached the end of the pipeline. Restart to try another.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { History, Play, User } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { agentsApi, jobsApi } from "@/lib/api";
+import { errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AgentType, JobReplay } from "@/types";
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString("es-AR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+type ReplayMessage = JobReplay["messages"][number];
+
+function Message({ message }: { message: ReplayMessage }) {
+  if (message.role === "lead") {
+    return (
+      <div className="p-3 rounded bg-muted text-sm flex items-start space-x-2">
+        <User className="h-4 w-4 mt-0.5 shrink-0" />
+        <p className="whitespace-pre-wrap">{message.content}</p>
+      </div>
+    );
+  }
+  return (
+    <div className="p-3 border border-border rounded text-sm space-y-1">
+      <Badge variant="outline" className="capitalize">{message.agentType ?? "human"}</Badge>
+      <p className="whitespace-pre-wrap">{message.content}</p>
+    </div>
+  );
+}
+
+function Replayed({ replay }: { replay: NonNullable<ReplayMessage["replay"]> }) {
+  if (!replay.success) {
+    return <p className="p-3 border border-border rounded text-sm text-destructive">Agent failed: {replay.error}</p>;
+  }
+  return (
+    <div className="p-3 border border-border rounded text-sm space-y-2 bg-accent/50">
+      <p className="whitespace-pre-wrap">{replay.reply ?? <span className="text-muted-foreground">No reply text</span>}</p>
+      <details>
+        <summary className="text-xs text-muted-foreground cursor-pointer">Structured output · {replay.tokensUsed} tokens</summary>
+        <pre className="mt-1 bg-muted p-2 rounded font-mono text-xs overflow-auto">{JSON.stringify(replay.output, null, 2)}</pre>
+      </details>
+      {replay.schemaViolations?.map((violation) => (
+        <p key={violation.path} className="text-xs text-destructive">
+          <span className="font-mono">{violation.path}</span> {violation.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// Re-runs a past job's conversation against a saved version of the selected
+// agent and shows each of its original replies next to the new one
+export function AgentReplay({ agentType }: { agentType: AgentType }) {
+  const [jobId, setJobId] = useState<string>();
+  const [version, setVersion] = useState<string>();
+  const [replay, setReplay] = useState<JobReplay | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Any job may have passed through this agent, whichever one holds it now
+  const jobsQuery = { limit: 100 };
+  const { data: jobs = [] } = useQuery({
+    queryKey: ["/api/jobs", jobsQuery],
+    queryFn: () => jobsApi.list(jobsQuery).then((page) => page.jobs),
+  });
+
+  const { data: versions = [] } = useQuery({
+    queryKey: ["/api/agents", agentType, "versions"],
+    queryFn: () => agentsApi.getVersions(agentType),
+  });
+
+  // A replay belongs to one agent; start over when switching agents
+  useEffect(() => {
+    setReplay(null);
+  }, [agentType]);
+
+  useEffect(() => {
+    setVersion((current) => (versions.some((entry) => entry.version === current) ? current : versions[0]?.version));
+  }, [versions]);
+
+  const replayMutation = useMutation({
+    mutationFn: () => agentsApi.replay(agentType, jobId!, version!),
+    onSuccess: (result) => {
+      setReplay(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", agentType, "usage"] });
+    },
+    onError: (error) => {
+      toast({ title: "Replay Failed", description: errorMessage(error, "Failed to replay the conversation."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="agent-replay">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Conversation Replay</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Re-run a past conversation against a version of the <span className="capitalize">{agentType}</span> agent
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label>Job</Label>
+            <Select value={jobId} onValueChange={setJobId}>
+              <SelectTrigger data-testid="replay-job">
+                <SelectValue placeholder="Pick a past job" />
+              </SelectTrigger>
+              <SelectContent>
+                {jobs.map((job) => (
+                  <SelectItem key={job.id} value={job.id}>
+                    #{job.id} · {job.user_name} · {job.status}
+                    {job.created_at && ` · ${formatDate(job.created_at)}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Version</Label>
+            <Select value={version} onValueChange={setVersion}>
+              <SelectTrigger data-testid="replay-version">
+                <SelectValue placeholder="Pick a version" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((entry) => (
+                  <SelectItem key={entry.id} value={entry.version}>
+                    v{entry.version}{entry.changelog ? ` · ${entry.changelog}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={() => replayMutation.mutate()}
+            disabled={!jobId || !version || replayMutation.isPending}
+            data-testid="run-replay"
+          >
+            <Play className="h-4 w-4 mr-2" />
+            {replayMutation.isPending ? "Replaying..." : "Replay"}
+          </Button>
+        </div>
+
+        {replay && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                Job #{replay.job.id} · {replay.job.status ?? "unknown status"} · {formatDate(replay.job.createdAt)}
+              </span>
+              <span>{replay.tokensUsed} tokens</span>
+            </div>
+            {replay.originalOutput != null && (
+              <details>
+                <summary className="text-xs text-muted-foreground cursor-pointer">Output stored on the job</summary>
+                <pre className="mt-1 bg-muted p-2 rounded font-mono text-xs overflow-auto">
+                  {JSON.stringify(replay.originalOutput, null, 2)}
+                </pre>
+              </details>
+            )}
+            <div className="grid grid-cols-2 gap-3 max-h-[600px] overflow-auto">
+              <Label>Original</Label>
+              <Label>v{replay.version}</Label>
+              {replay.messages.map((message, index) =>
+                message.replay ? (
+                  <div key={index} className="contents" data-testid={`replay-turn-${index}`}>
+                    <Message message={message} />
+                    <Replayed replay={message.replay} />
+                  </div>
+                ) : (
+                  <div key={index} className="col-span-2">
+                    <Message message={message} />
+                  </div>
+                ),
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,399 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, GitBranch, MessageSquare, Pencil, RotateCcw, Send, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { agentsApi } from "@/lib/api";
+import { useCanPerform } from "@/lib/auth";
+import { diffLines } from "@/lib/diff";
+import { errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { AgentType, AgentVersion } from "@/types";
+
+const rowStyles = {
+  same: "",
+  added: "bg-accent/50",
+  removed: "bg-destructive/10",
+  changed: "bg-warning/10",
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString("es-AR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function StatusBadge({ version, live }: { version: AgentVersion; live: boolean }) {
+  if (live) return <Badge className="bg-accent text-accent-foreground">Live</Badge>;
+  switch (version.status) {
+    case "draft":
+      return <Badge variant="outline">Draft</Badge>;
+    case "in_review":
+      return <Badge variant="secondary">In Review</Badge>;
+    case "rejected":
+      return <Badge variant="outline" className="text-destructive">Rejected</Badge>;
+    case "published":
+      return <Badge variant="outline" className="text-muted-foreground">Published</Badge>;
+  }
+}
+
+function toText(value: unknown) {
+  return value == null ? "" : JSON.stringify(value, null, 2);
+}
+
+function DiffView({ title, before, after }: { title: string; before: string; after: string }) {
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  const changed = rows.some((row) => row.type !== "same");
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{title}</Label>
+        {!changed && <span className="text-xs text-muted-foreground">No changes</span>}
+      </div>
+      <div className="grid grid-cols-2 border border-border rounded font-mono text-xs max-h-[300px] overflow-auto">
+        {rows.map((row, index) => (
+          <div key={index} className="contents">
+            <pre className={cn("px-2 whitespace-pre-wrap border-r border-border", row.left !== null && rowStyles[row.type])}>
+              {row.left ?? ""}
+            </pre>
+            <pre className={cn("px-2 whitespace-pre-wrap", row.right !== null && rowStyles[row.type])}>
+              {row.right ?? ""}
+            </pre>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Comments on one version and, for admins, the approve/reject decision
+function VersionReview({ agentType, version }: { agentType: AgentType; version: AgentVersion }) {
+  const [comment, setComment] = useState("");
+
+  const canEdit = useCanPerform("edit:agents");
+  const canPublish = useCanPerform("publish:agents");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const commentsKey = ["/api/agents", agentType, "versions", version.version, "comments"];
+  const { data: comments = [] } = useQuery({
+    queryKey: commentsKey,
+    queryFn: () => agentsApi.getVersionComments(agentType, version.version),
+  });
+
+  const onReviewed = () => {
+    setComment("");
+    queryClient.invalidateQueries({ queryKey: ["/api/agents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
+  const commentMutation = useMutation({
+    mutationFn: () => agentsApi.addVersionComment(agentType, version.version, comment.trim()),
+    onSuccess: () => {
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to add comment."), variant: "destructive" });
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: () => agentsApi.approveVersion(agentType, version.version, comment.trim() || undefined),
+    onSuccess: () => {
+      onReviewed();
+      toast({ title: "Version Published", description: `v${version.version} is now live for ${agentType}.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to publish version."), variant: "destructive" });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: () => agentsApi.rejectVersion(agentType, version.version, comment.trim()),
+    onSuccess: () => {
+      onReviewed();
+      toast({ title: "Version Rejected", description: `v${version.version} was sent back to its author.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to reject version."), variant: "destructive" });
+    },
+  });
+
+  const reviewing = version.status === "in_review" && canPublish;
+  const busy = commentMutation.isPending || approveMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="space-y-3 p-3 border border-border rounded" data-testid={`version-review-${version.version}`}>
+      <div className="flex items-center justify-between">
+        <Label>Review · v{version.version}</Label>
+        {version.reviewedAt && (
+          <span className="text-xs text-muted-foreground">
+            {version.status === "rejected" ? "Rejected" : "Approved"} by {version.reviewedByName || "an admin"} · {formatDate(version.reviewedAt)}
+          </span>
+        )}
+      </div>
+
+      {comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet</p>
+      ) : (
+        <div className="space-y-2 max-h-[200px] overflow-auto">
+          {comments.map((entry) => (
+            <div key={entry.id} className="text-sm">
+              <p className="text-xs text-muted-foreground">
+                {entry.createdByName || "System"} · {formatDate(entry.createdAt)}
+              </p>
+              <p className="whitespace-pre-wrap">{entry.body}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(canEdit || reviewing) && (
+        <>
+          <Textarea
+            placeholder={reviewing ? "Comment, or the reason for rejecting..." : "Add a comment..."}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={2000}
+            className="min-h-[80px]"
+            data-testid="version-comment"
+          />
+          <div className="flex items-center justify-end space-x-2">
+            {canEdit && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => commentMutation.mutate()}
+                disabled={!comment.trim() || busy}
+                data-testid="add-version-comment"
+              >
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Comment
+              </Button>
+            )}
+            {reviewing && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => rejectMutation.mutate()}
+                  disabled={!comment.trim() || busy}
+                  title={comment.trim() ? undefined : "Say why in a comment first"}
+                  data-testid="reject-version"
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+                <Button size="sm" onClick={() => approveMutation.mutate()} disabled={busy} data-testid="approve-version">
+                  <Check className="h-4 w-4 mr-2" />
+                  Approve & Publish
+                </Button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Agents → Version tab: history of saved configs with their review status,
+// review requests and comments, side-by-side diff of any two versions and
+// one-click rollback to a previously published version
+export function AgentVersions({
+  agentType,
+  liveVersion,
+  onLoad,
+}: {
+  agentType: AgentType;
+  liveVersion: string | undefined;
+  onLoad: (version: AgentVersion) => void;
+}) {
+  const [fromVersion, setFromVersion] = useState<string>();
+  const [toVersion, setToVersion] = useState<string>();
+  const [selectedVersion, setSelectedVersion] = useState<string>();
+
+  const canEdit = useCanPerform("edit:agents");
+  const canPublish = useCanPerform("publish:agents");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ["/api/agents", agentType, "versions"],
+    queryFn: () => agentsApi.getVersions(agentType),
+  });
+
+  // Review the oldest pending request (or the latest version) by default
+  useEffect(() => {
+    setSelectedVersion((current) =>
+      versions.some((version) => version.version === current)
+        ? current
+        : ([...versions].reverse().find((version) => version.status === "in_review") ?? versions[0])?.version,
+    );
+  }, [versions]);
+
+  // Compare the selected version with what is live
+  useEffect(() => {
+    setToVersion(selectedVersion);
+    setFromVersion(selectedVersion === liveVersion ? versions[1]?.version ?? selectedVersion : liveVersion ?? selectedVersion);
+  }, [selectedVersion, liveVersion, versions]);
+
+  const rollbackMutation = useMutation({
+    mutationFn: (version: AgentVersion) => agentsApi.rollback(agentType, version.version),
+    onSuccess: (result, version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+      onLoad(version);
+      toast({
+        title: "Agent Rolled Back",
+        description: `v${version.version} is live again as v${result.version}.`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to roll back agent."), variant: "destructive" });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: (version: AgentVersion) => agentsApi.requestReview(agentType, version.version),
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", agentType, "versions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+      setSelectedVersion(version.version);
+      toast({ title: "Review Requested", description: `An admin has to approve v${version.version} before it goes live.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to request review."), variant: "destructive" });
+    },
+  });
+
+  const selected = versions.find((v) => v.version === selectedVersion);
+
+  const from = versions.find((v) => v.version === fromVersion);
+  const to = versions.find((v) => v.version === toVersion);
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted animate-pulse rounded" />;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <GitBranch className="h-12 w-12 mx-auto mb-4 opacity-50" />
+        <p>No versions yet</p>
+        <p className="text-sm">Every saved configuration is kept here, and goes live once an admin approves it</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2 max-h-[240px] overflow-auto">
+        {versions.map((version) => (
+          <div
+            key={version.id}
+            className={cn(
+              "flex items-start justify-between p-3 border border-border rounded cursor-pointer",
+              version.version === selectedVersion && "bg-accent/50",
+            )}
+            onClick={() => setSelectedVersion(version.version)}
+            data-testid={`agent-version-${version.version}`}
+          >
+            <div className="space-y-1">
+              <div className="flex items-center space-x-2">
+                <Badge variant="outline" className="font-mono">v{version.version}</Badge>
+                <StatusBadge version={version} live={version.version === liveVersion} />
+              </div>
+              <p className="text-sm">{version.changelog || <span className="text-muted-foreground">No change note</span>}</p>
+              <p className="text-xs text-muted-foreground">
+                {version.createdByName || "System"} · {formatDate(version.createdAt)}
+              </p>
+            </div>
+            {canEdit && (
+              <div className="flex items-center space-x-2" onClick={(e) => e.stopPropagation()}>
+                {(version.status === "draft" || version.status === "rejected") && (
+                  <Button variant="ghost" size="sm" onClick={() => onLoad(version)} data-testid={`edit-${version.version}`}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                )}
+                {version.status === "draft" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => reviewMutation.mutate(version)}
+                    disabled={reviewMutation.isPending}
+                    data-testid={`request-review-${version.version}`}
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    Request Review
+                  </Button>
+                )}
+                {canPublish && version.status === "published" && version.version !== liveVersion && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => rollbackMutation.mutate(version)}
+                    disabled={rollbackMutation.isPending}
+                    data-testid={`rollback-${version.version}`}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Roll Back
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {selected && <VersionReview key={selected.id} agentType={agentType} version={selected} />}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>From</Label>
+          <Select value={fromVersion} onValueChange={setFromVersion}>
+            <SelectTrigger data-testid="diff-from">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={version.version}>v{version.version}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>To</Label>
+          <Select value={toVersion} onValueChange={setToVersion}>
+            <SelectTrigger data-testid="diff-to">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={version.version}>v{version.version}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {from && to && (
+        <div className="space-y-4">
+          <DiffView title="System Prompt" before={from.system} after={to.system} />
+          <DiffView title="Output Schema" before={toText(from.outputSchema)} after={toText(to.outputSchema)} />
+          <DiffView title="Params" before={toText(from.paramsJson)} after={toText(to.paramsJson)} />
+        </div>
+      )}
+    </div>
+  );
+}
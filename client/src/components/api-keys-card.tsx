@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { KeyRound, Plus, Copy } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiKeysApi } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { apiKeyScopes, type ApiKeyScope } from "@shared/permissions";
+
+const expiryOptions = [
+  { value: "never", label: "Never" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+];
+
+function formatDate(value: string | null) {
+  return value
+    ? new Date(value).toLocaleString("es-AR", {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "—";
+}
+
+// Settings → Security: API keys for scripts and n8n, scoped to a subset of permissions
+export function ApiKeysCard() {
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["view:reports"]);
+  const [expiry, setExpiry] = useState("90");
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: apiKeys = [], isLoading } = useQuery({
+    queryKey: ["/api/api-keys"],
+    queryFn: apiKeysApi.getAll,
+  });
+
+  const onKeysChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: apiKeysApi.create,
+    onSuccess: (created) => {
+      onKeysChanged();
+      setCreateOpen(false);
+      setName("");
+      setScopes(["view:reports"]);
+      setExpiry("90");
+      setIssuedKey(created.key);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to create API key.", variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: apiKeysApi.revoke,
+    onSuccess: () => {
+      onKeysChanged();
+      toast({ title: "API Key Revoked", description: "Requests using it are now rejected." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke API key.", variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  const handleCreate = () => {
+    createMutation.mutate({
+      name: name.trim(),
+      scopes,
+      expiresInDays: expiry === "never" ? undefined : Number(expiry),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <KeyRound className="h-5 w-5" />
+            <span>API Keys</span>
+          </CardTitle>
+          <Button onClick={() => setCreateOpen(true)} data-testid="create-api-key">
+            <Plus className="h-4 w-4 mr-2" />
+            Create Key
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead>Last Used</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={6}>
+                  <div className="h-8 bg-muted animate-pulse rounded" />
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading && apiKeys.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No API keys yet
+                </TableCell>
+              </TableRow>
+            )}
+            {apiKeys.map((apiKey) => (
+              <TableRow key={apiKey.id} data-testid={`api-key-${apiKey.id}`}>
+                <TableCell>
+                  <div className="font-medium">{apiKey.name}</div>
+                  {apiKey.created_by_email && (
+                    <div className="text-sm text-muted-foreground">{apiKey.created_by_email}</div>
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-sm">{apiKey.display_prefix}…</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline">{scope}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {formatDate(apiKey.last_used_at)}
+                  {apiKey.last_used_ip && <div className="font-mono">{apiKey.last_used_ip}</div>}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {apiKey.expires_at ? formatDate(apiKey.expires_at) : "Never"}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(apiKey.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`revoke-api-key-${apiKey.id}`}
+                  >
+                    Revoke
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create API Key</DialogTitle>
+            <DialogDescription>
+              Send it as <code>Authorization: Bearer &lt;key&gt;</code>. It can only do what its scopes allow.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                placeholder="n8n reporting"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-api-key-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {apiKeyScopes.map((scope) => (
+                  <label key={scope} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      data-testid={`scope-${scope}`}
+                    />
+                    <span className="font-mono">{scope}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger data-testid="select-api-key-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+              data-testid="submit-api-key"
+            >
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={issuedKey !== null} onOpenChange={(open) => !open && setIssuedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy Your API Key</DialogTitle>
+            <DialogDescription>This is the only time the key is shown.</DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center space-x-2">
+            <Input readOnly value={issuedKey ?? ""} className="font-mono" data-testid="issued-api-key" />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => issuedKey && navigator.clipboard.writeText(issuedKey)}
+              title="Copy"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
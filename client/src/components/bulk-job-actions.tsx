@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Eye, Play } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { jobsApi, TramiaWebSocket } from "@/lib/api";
+import { errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AgentType, BulkJobActionInput, BulkJobPreview, BulkJobProgress, JobFilterInput, WebSocketMessage } from "@/types";
+
+type BulkAction = BulkJobActionInput["action"];
+
+const actionLabels: Record<BulkAction, { verb: string; past: string }> = {
+  retry: { verb: "Retry", past: "retried" },
+  cancel: { verb: "Cancel", past: "cancelled" },
+  reassign: { verb: "Reassign", past: "reassigned" },
+};
+
+// Retry, cancel or reassign every job the page's filters match. The preview
+// counts the jobs the action applies to; running it confirms that count, and
+// progress comes back over /ws.
+export function BulkJobActions({ filter, agentTypes }: { filter: JobFilterInput; agentTypes: AgentType[] }) {
+  const [action, setAction] = useState<BulkAction>("retry");
+  const [agentType, setAgentType] = useState<AgentType | "">("");
+  const [preview, setPreview] = useState<BulkJobPreview | null>(null);
+  const [run, setRun] = useState<BulkJobProgress | null>(null);
+  // Progress by run id; the last message can beat the response that starts the run
+  const progressRef = useRef(new Map<string, BulkJobProgress>());
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const input: BulkJobActionInput = { action, filter, agent_type: action === "reassign" && agentType ? agentType : undefined };
+  const inputKey = JSON.stringify(input);
+
+  // The preview only holds for the filters and action it was made with
+  useEffect(() => setPreview(null), [inputKey]);
+
+  useEffect(() => {
+    const socket = new TramiaWebSocket();
+    socket.connect((message: WebSocketMessage) => {
+      if (message.type !== "bulk_job_progress") return;
+      const progress = message.data as BulkJobProgress;
+      progressRef.current.set(progress.id, progress);
+      setRun((current) => (current?.id === progress.id ? progress : current));
+    });
+    return () => socket.disconnect();
+  }, []);
+
+  const finished = run && run.status !== "running" ? run : null;
+  useEffect(() => {
+    if (!finished) return;
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+    if (finished.status === "failed") {
+      toast({ title: "Bulk Action Failed", description: finished.error || "The bulk action stopped early.", variant: "destructive" });
+    } else {
+      const skipped = finished.skipped ? `; ${finished.skipped} had moved on and were skipped` : "";
+      toast({ title: "Bulk Action Complete", description: `${finished.updated} jobs ${actionLabels[finished.action].past}${skipped}.` });
+    }
+  }, [finished?.id, finished?.status]);
+
+  const previewMutation = useMutation({
+    mutationFn: () => jobsApi.previewBulk(input),
+    onSuccess: setPreview,
+    onError: (error) => {
+      toast({ title: "Preview Failed", description: errorMessage(error, "Failed to count the jobs."), variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: (expectedCount: number) => jobsApi.runBulk(input, expectedCount),
+    onSuccess: (progress) => {
+      setPreview(null);
+      setRun(progressRef.current.get(progress.id) ?? progress);
+    },
+    onError: (error) => {
+      // More jobs match than previewed, or another run holds the queue
+      setPreview(null);
+      toast({ title: "Bulk Action Not Started", description: errorMessage(error, "Failed to start the bulk action."), variant: "destructive" });
+    },
+  });
+
+  const running = run?.status === "running";
+  const ready = action !== "reassign" || agentType !== "";
+
+  return (
+    <Card data-testid="bulk-job-actions">
+      <CardHeader>
+        <CardTitle className="text-base">Bulk Actions</CardTitle>
+        <p className="text-sm text-muted-foreground">Applies to every job matching the current filters, tab and search</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <Label>Action</Label>
+            <Select value={action} onValueChange={(value) => setAction(value as BulkAction)}>
+              <SelectTrigger data-testid="bulk-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="retry">Retry failed and cancelled</SelectItem>
+                <SelectItem value="cancel">Cancel pending and processing</SelectItem>
+                <SelectItem value="reassign">Reassign unfinished</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {action === "reassign" && (
+            <div>
+              <Label>To Agent</Label>
+              <Select value={agentType} onValueChange={(value) => setAgentType(value as AgentType)}>
+                <SelectTrigger data-testid="bulk-agent-type">
+                  <SelectValue placeholder="Pick an agent" />
+                </SelectTrigger>
+                <SelectContent>
+                  {agentTypes.map((type) => (
+                    <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => previewMutation.mutate()}
+            disabled={!ready || running || previewMutation.isPending}
+            data-testid="bulk-preview"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {previewMutation.isPending ? "Counting..." : "Preview"}
+          </Button>
+          {preview && (
+            <Button
+              variant="destructive"
+              onClick={() => runMutation.mutate(preview.count)}
+              disabled={preview.count === 0 || running || runMutation.isPending}
+              data-testid="bulk-run"
+            >
+              <Play className="h-4 w-4 mr-2" />
+              {actionLabels[action].verb} {preview.count} jobs
+            </Button>
+          )}
+        </div>
+
+        {preview && (
+          <div className="space-y-2" data-testid="bulk-preview-result">
+            <p className="text-sm">
+              {preview.count === 0
+                ? "No matching jobs can take this action."
+                : `${preview.count} jobs would be ${actionLabels[action].past}${preview.count > preview.sample.length ? `, including:` : ":"}`}
+            </p>
+            {preview.sample.length > 0 && (
+              <div className="bg-muted p-2 rounded text-xs space-y-1">
+                {preview.sample.map((job) => (
+                  <div key={job.id} className="flex items-center justify-between">
+                    <span>{job.user_name}</span>
+                    <span className="space-x-2">
+                      <Badge variant="outline">{job.status}</Badge>
+                      <span className="font-mono">{job.agent_type ?? "-"}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {run && (
+          <div className="space-y-1" data-testid="bulk-progress">
+            <Progress value={run.total ? (run.processed / run.total) * 100 : 100} />
+            <p className="text-xs text-muted-foreground">
+              {run.processed} of {run.total} processed · {run.updated} {actionLabels[run.action].past}
+              {run.skipped > 0 && ` · ${run.skipped} skipped`}
+              {run.status !== "running" && ` · ${run.status}`}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
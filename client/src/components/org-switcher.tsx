@@ -0,0 +1,145 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Building2, Check, ChevronDown, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { authApi } from "@/lib/api";
+import { formatRole } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+
+export function OrgSwitcher() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: orgs = [] } = useQuery({
+    queryKey: ["/api/orgs"],
+    queryFn: authApi.getOrganizations,
+  });
+
+  // Other orgs asking to add this account; it only joins once accepted
+  const { data: invitations = [] } = useQuery({
+    queryKey: ["/api/orgs/invitations"],
+    queryFn: authApi.getInvitations,
+  });
+
+  const invitationMutation = useMutation({
+    mutationFn: ({ orgId, accept }: { orgId: string; accept: boolean }) =>
+      accept ? authApi.acceptInvitation(orgId) : authApi.declineInvitation(orgId),
+    onSuccess: (_, { accept }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orgs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orgs/invitations"] });
+      if (accept) {
+        toast({ title: "Invitation Accepted", description: "Switch to the organization from this menu." });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to answer the invitation.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: (id: string) => authApi.switchOrganization(id),
+    onSuccess: () => {
+      // Every cached query belongs to the previous organization
+      queryClient.invalidateQueries();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to switch organization.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Only worth showing to users with more than one workspace or an invitation
+  if (orgs.length < 2 && invitations.length === 0) {
+    return null;
+  }
+
+  const active = orgs.find((org) => org.active);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="space-x-2"
+          disabled={switchMutation.isPending}
+          data-testid="topbar-org-switcher"
+        >
+          <Building2 className="h-4 w-4" />
+          <span className="max-w-[160px] truncate">{active?.name || "Select organization"}</span>
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Organizations</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {orgs.map((org) => (
+          <DropdownMenuItem
+            key={org.id}
+            onSelect={() => !org.active && switchMutation.mutate(org.id)}
+            data-testid={`org-option-${org.slug}`}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium truncate">{org.name}</div>
+              <div className="text-xs text-muted-foreground font-mono truncate">
+                {org.slug} · {formatRole(org.role)}
+              </div>
+            </div>
+            {org.active && <Check className="h-4 w-4 text-primary" />}
+          </DropdownMenuItem>
+        ))}
+        {invitations.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Invitations</DropdownMenuLabel>
+            {invitations.map((invitation) => (
+              <div key={invitation.org_id} className="flex items-center px-2 py-1.5 space-x-2" data-testid={`invitation-${invitation.org_slug}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{invitation.org_name}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {formatRole(invitation.role)}
+                    {invitation.invited_by && ` · from ${invitation.invited_by}`}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Accept"
+                  onClick={() => invitationMutation.mutate({ orgId: invitation.org_id, accept: true })}
+                  disabled={invitationMutation.isPending}
+                  data-testid={`accept-invitation-${invitation.org_slug}`}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Decline"
+                  onClick={() => invitationMutation.mutate({ orgId: invitation.org_id, accept: false })}
+                  disabled={invitationMutation.isPending}
+                  data-testid={`decline-invitation-${invitation.org_slug}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
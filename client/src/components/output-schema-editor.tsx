@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { AlertCircle, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { checkOutputSchema } from "@shared/outputSchema";
+import { cn } from "@/lib/utils";
+import type { SchemaIssue } from "@/types";
+
+const fieldTypes = ["string", "number", "integer", "boolean", "array", "object"];
+
+type JsonSchema = {
+  type?: unknown;
+  properties?: Record<string, Record<string, unknown>>;
+  required?: string[];
+  [key: string]: unknown;
+};
+
+// Problems with the editor text as an output schema; an empty editor means
+// the agent has no schema. Mirrors the check the BFF runs on save.
+export function outputSchemaIssues(text: string): SchemaIssue[] {
+  if (!text.trim()) return [];
+  try {
+    return checkOutputSchema(JSON.parse(text));
+  } catch (e: any) {
+    return [{ path: "/", message: `Invalid JSON: ${e.message}` }];
+  }
+}
+
+function parseSchema(text: string): JsonSchema | null {
+  if (!text.trim()) return { type: "object", properties: {}, required: [] };
+  try {
+    const schema = JSON.parse(text);
+    return schema && typeof schema === "object" && !Array.isArray(schema) && schema.type === "object" ? schema : null;
+  } catch {
+    return null;
+  }
+}
+
+function IssueList({ issues }: { issues: SchemaIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      {issues.map((issue) => (
+        <p key={`${issue.path}:${issue.message}`} className="flex items-center text-xs text-destructive">
+          <AlertCircle className="h-3 w-3 mr-1 shrink-0" />
+          <span className="font-mono mr-1">{issue.path}</span> {issue.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// Schema tab: a field list for the common case (top-level properties with a
+// type, description and required flag) and the raw JSON for everything else.
+// Both edit the same text; keys the field list doesn't know are preserved.
+export function OutputSchemaEditor({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const [mode, setMode] = useState<"fields" | "json">("fields");
+  const issues = outputSchemaIssues(value);
+  const schema = parseSchema(value);
+
+  const fieldIssues = (name: string) => issues.filter((issue) => issue.path.startsWith(`/properties/${name}`));
+  const otherIssues = issues.filter((issue) => !Object.keys(schema?.properties ?? {}).some((name) => issue.path.startsWith(`/properties/${name}`)));
+
+  const update = (change: (draft: JsonSchema) => void) => {
+    const draft: JsonSchema = JSON.parse(JSON.stringify(schema));
+    draft.properties ??= {};
+    draft.required ??= [];
+    change(draft);
+    if (draft.required.length === 0) delete draft.required;
+    // Removing the last field of a bare schema clears it rather than saving `{"type":"object"}`
+    const bare = Object.keys(draft.properties).length === 0 && Object.keys(draft).every((key) => key === "type" || key === "properties");
+    onChange(bare ? "" : JSON.stringify(draft, null, 2));
+  };
+
+  const renameField = (from: string, to: string) =>
+    update((draft) => {
+      if (to in draft.properties!) return;
+      draft.properties = Object.fromEntries(Object.entries(draft.properties!).map(([name, field]) => [name === from ? to : name, field]));
+      draft.required = draft.required!.map((name) => (name === from ? to : name));
+    });
+
+  const addField = () =>
+    update((draft) => {
+      let name = "field";
+      for (let n = 2; name in draft.properties!; n++) name = `field_${n}`;
+      draft.properties![name] = { type: "string" };
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Output Schema</Label>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant={mode === "fields" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setMode("fields")}
+            disabled={!schema}
+            title={schema ? undefined : "Fix the JSON to edit fields"}
+            data-testid="schema-mode-fields"
+          >
+            Fields
+          </Button>
+          <Button
+            variant={mode === "json" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setMode("json")}
+            data-testid="schema-mode-json"
+          >
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {mode === "fields" && schema ? (
+        <div className="space-y-2">
+          {Object.entries(schema.properties ?? {}).length === 0 && (
+            <p className="text-sm text-muted-foreground">No output schema: the agent's output is not checked.</p>
+          )}
+          {Object.entries(schema.properties ?? {}).map(([name, field], index) => (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center space-x-2">
+                <Input
+                  value={name}
+                  onChange={(e) => renameField(name, e.target.value)}
+                  placeholder="name"
+                  className={cn("font-mono w-40", fieldIssues(name).length > 0 && "border-destructive")}
+                  data-testid={`schema-field-name-${index}`}
+                />
+                <Select
+                  value={typeof field.type === "string" ? field.type : undefined}
+                  onValueChange={(type) => update((draft) => { draft.properties![name] = { ...field, type }; })}
+                >
+                  <SelectTrigger className="w-32" data-testid={`schema-field-type-${index}`}>
+                    <SelectValue placeholder="custom" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fieldTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={typeof field.description === "string" ? field.description : ""}
+                  onChange={(e) => update((draft) => { draft.properties![name] = { ...field, description: e.target.value || undefined }; })}
+                  placeholder="description"
+                  className="flex-1"
+                />
+                <div className="flex items-center space-x-1">
+                  <Checkbox
+                    id={`schema-field-required-${index}`}
+                    checked={schema.required?.includes(name) ?? false}
+                    onCheckedChange={(checked) =>
+                      update((draft) => {
+                        draft.required = checked
+                          ? [...draft.required!, name]
+                          : draft.required!.filter((entry) => entry !== name);
+                      })
+                    }
+                  />
+                  <Label htmlFor={`schema-field-required-${index}`} className="text-xs">Required</Label>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    update((draft) => {
+                      delete draft.properties![name];
+                      draft.required = draft.required!.filter((entry) => entry !== name);
+                    })
+                  }
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <IssueList issues={fieldIssues(name)} />
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addField} data-testid="schema-add-field">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Field
+          </Button>
+        </div>
+      ) : (
+        <Textarea
+          id="output-schema"
+          placeholder="Enter the JSON schema for agent output..."
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={cn("min-h-[300px] font-mono text-sm", issues.length > 0 && "border-destructive")}
+          data-testid="output-schema-input"
+        />
+      )}
+
+      <IssueList issues={mode === "fields" && schema ? otherIssues : issues} />
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { agentsApi } from "@/lib/api";
+import { errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AgentType, RenderedPrompt } from "@/types";
+
+// The system prompt being edited, rendered for a sample lead with the org's
+// snippets, timezone and business hours, as the LLM would receive it
+export function PromptPreview({ agentType, system }: { agentType: AgentType; system: string }) {
+  const [leadName, setLeadName] = useState("María González");
+  const [campaign, setCampaign] = useState("Sample campaign");
+  const [rendered, setRendered] = useState<RenderedPrompt | null>(null);
+
+  const { toast } = useToast();
+
+  const previewMutation = useMutation({
+    mutationFn: () => agentsApi.preview(agentType, system, { lead_name: leadName.trim(), campaign: campaign.trim() }),
+    onSuccess: setRendered,
+    onError: (error) => {
+      toast({ title: "Preview Failed", description: errorMessage(error, "Failed to render the prompt."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3 border-t border-border pt-4" data-testid="prompt-preview">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+        <div>
+          <Label htmlFor="preview-lead-name">Sample Lead</Label>
+          <Input id="preview-lead-name" value={leadName} onChange={(e) => setLeadName(e.target.value)} maxLength={200} />
+        </div>
+        <div>
+          <Label htmlFor="preview-campaign">Campaign</Label>
+          <Input id="preview-campaign" value={campaign} onChange={(e) => setCampaign(e.target.value)} maxLength={200} />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => previewMutation.mutate()}
+          disabled={!system.trim() || previewMutation.isPending}
+          data-testid="render-preview"
+        >
+          <Eye className="h-4 w-4 mr-2" />
+          {previewMutation.isPending ? "Rendering..." : "Preview"}
+        </Button>
+      </div>
+
+      {rendered && (
+        <div className="space-y-2">
+          {rendered.issues.length > 0 && (
+            <div className="bg-destructive/10 p-2 rounded text-xs space-y-1">
+              {rendered.issues.map((issue) => (
+                <p key={issue.tag}>
+                  <span className="font-mono">{issue.tag}</span> {issue.message}
+                </p>
+              ))}
+            </div>
+          )}
+          {rendered.missing.length > 0 && (
+            <p className="bg-warning/10 p-2 rounded text-xs">
+              No value for <span className="font-mono">{rendered.missing.join(", ")}</span>; the tag is left in the prompt
+            </p>
+          )}
+          <pre className="bg-muted p-3 rounded font-mono text-xs whitespace-pre-wrap max-h-[400px] overflow-auto" data-testid="rendered-prompt">
+            {rendered.text}
+          </pre>
+          <p className="text-xs text-muted-foreground">
+            Timezone {rendered.variables.org_timezone ?? "unknown"} · business hours {rendered.variables.business_hours ?? "unknown"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
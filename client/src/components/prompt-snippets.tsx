@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Pencil, Plus, Puzzle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { promptSnippetsApi } from "@/lib/api";
+import { useCanPerform } from "@/lib/auth";
+import { errorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { checkTemplate, promptVariables, snippetNamePattern } from "@shared/promptTemplate";
+import type { PromptSnippet } from "@/types";
+
+// Variables and snippets a system prompt can use, each inserted at the
+// cursor on click. Admins manage the snippets here too: a change reaches
+// every agent that includes the snippet, without a review.
+export function PromptSnippets({ onInsert }: { onInsert: (tag: string) => void }) {
+  const [editing, setEditing] = useState<PromptSnippet | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [body, setBody] = useState("");
+
+  const canManage = useCanPerform("publish:agents");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: snippets = [] } = useQuery({
+    queryKey: ["/api/prompt-snippets"],
+    queryFn: promptSnippetsApi.getAll,
+  });
+
+  const openEditor = (snippet: PromptSnippet | "new") => {
+    setEditing(snippet);
+    setName(snippet === "new" ? "" : snippet.name);
+    setDescription(snippet === "new" ? "" : snippet.description ?? "");
+    setBody(snippet === "new" ? "" : snippet.body);
+  };
+
+  const onSnippetsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/prompt-snippets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = { description: description.trim() || undefined, body };
+      return editing === "new" || !editing
+        ? promptSnippetsApi.create({ name: name.trim(), ...data })
+        : promptSnippetsApi.update(editing.id, data);
+    },
+    onSuccess: () => {
+      onSnippetsChanged();
+      setEditing(null);
+      toast({ title: "Snippet Saved", description: "Agents that include it use the new text right away." });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to save snippet."), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => promptSnippetsApi.delete(id),
+    onSuccess: onSnippetsChanged,
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to delete snippet."), variant: "destructive" });
+    },
+  });
+
+  const nameInvalid = editing === "new" && name.trim() !== "" && !snippetNamePattern.test(name.trim());
+  const bodyIssues = checkTemplate(body, [], { inSnippet: true });
+
+  return (
+    <div className="space-y-3" data-testid="prompt-snippets">
+      <div>
+        <Label>Variables</Label>
+        <div className="flex flex-wrap gap-2 mt-1">
+          {Object.entries(promptVariables).map(([variable, label]) => (
+            <Button
+              key={variable}
+              variant="outline"
+              size="sm"
+              className="font-mono text-xs"
+              title={label}
+              onClick={() => onInsert(`{{${variable}}}`)}
+              data-testid={`insert-variable-${variable}`}
+            >
+              {`{{${variable}}}`}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <Label className="flex items-center space-x-1">
+            <Puzzle className="h-4 w-4" />
+            <span>Snippets</span>
+          </Label>
+          {canManage && (
+            <Button variant="ghost" size="sm" onClick={() => openEditor("new")} data-testid="new-snippet">
+              <Plus className="h-4 w-4 mr-1" />
+              New Snippet
+            </Button>
+          )}
+        </div>
+        {snippets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No snippets yet. Shared text like the company pitch goes here.</p>
+        ) : (
+          <div className="space-y-1 mt-1">
+            {snippets.map((snippet) => (
+              <div key={snippet.id} className="flex items-center justify-between p-2 border border-border rounded">
+                <button
+                  type="button"
+                  className="text-left min-w-0"
+                  onClick={() => onInsert(`{{> ${snippet.name}}}`)}
+                  title="Insert into the prompt"
+                  data-testid={`insert-snippet-${snippet.name}`}
+                >
+                  <Badge variant="outline" className="font-mono">{snippet.name}</Badge>
+                  {snippet.description && <span className="ml-2 text-xs text-muted-foreground">{snippet.description}</span>}
+                </button>
+                {canManage && (
+                  <div className="flex items-center shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => openEditor(snippet)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(snippet.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Snippet" : `Edit ${editing?.name}`}</DialogTitle>
+            <DialogDescription>
+              Prompts include it with <span className="font-mono">{`{{> ${name.trim() || "name"}}}`}</span>. It may use
+              variables but not other snippets.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {editing === "new" && (
+              <div>
+                <Label htmlFor="snippet-name">Name</Label>
+                <Input
+                  id="snippet-name"
+                  placeholder="company_pitch"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={50}
+                  className="font-mono"
+                  data-testid="snippet-name"
+                />
+                {nameInvalid && (
+                  <p className="text-xs text-destructive mt-1">Use lowercase letters, digits, - and _</p>
+                )}
+              </div>
+            )}
+            <div>
+              <Label htmlFor="snippet-description">Description</Label>
+              <Input
+                id="snippet-description"
+                placeholder="What it's for (optional)"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={200}
+              />
+            </div>
+            <div>
+              <Label htmlFor="snippet-body">Text</Label>
+              <Textarea
+                id="snippet-body"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                className="min-h-[200px] font-mono text-sm"
+                data-testid="snippet-body"
+              />
+              {bodyIssues.map((issue) => (
+                <p key={issue.tag} className="text-xs text-destructive mt-1">
+                  <span className="font-mono">{issue.tag}</span> {issue.message}
+                </p>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!name.trim() || nameInvalid || !body.trim() || bodyIssues.length > 0 || saveMutation.isPending}
+              data-testid="save-snippet"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
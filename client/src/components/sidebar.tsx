@@ -1,6 +1,7 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { useAuth, getInitials, formatRole } from "@/lib/auth";
+import { authApi } from "@/lib/api";
 import {
   BarChart3,
   MessageSquare,
@@ -72,6 +73,12 @@ const settingsItems = [
 
 export function Sidebar() {
   const [location] = useLocation();
+
+  const handleLogout = async () => {
+    // Revokes the server-side session; leave regardless so the UI never sticks
+    await authApi.logout().catch(() => undefined);
+    window.location.href = "/login";
+  };
   const { data: auth, isLoading } = useAuth();
 
   if (isLoading || !auth) {
@@ -201,6 +208,7 @@ export function Sidebar() {
             variant="ghost"
             size="sm"
             className="p-1 hover:bg-sidebar-accent"
+            onClick={handleLogout}
             data-testid="logout-button"
           >
             <ExternalLink className="h-4 w-4 text-muted-foreground hover:text-sidebar-foreground" />
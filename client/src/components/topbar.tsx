@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { useTheme } from "./theme-provider";
+import { OrgSwitcher } from "./org-switcher";
 
 export function Topbar() {
   const { theme, setTheme } = useTheme();
@@ -42,6 +43,9 @@ export function Topbar() {
         </div>
 
         <div className="flex items-center space-x-4">
+          {/* Organization Switcher */}
+          <OrgSwitcher />
+
           {/* Global Search */}
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
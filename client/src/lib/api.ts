@@ -1,4 +1,67 @@
 import { apiRequest } from "./queryClient";
+import type {
+  AuthState,
+  OrganizationMembership,
+  OrganizationMember,
+  InvitedUser,
+  PendingInvite,
+  OrganizationInvitation,
+  UserRole,
+  AuthSession,
+  TwoFactorEnrollment,
+  ApiKey,
+  CreatedApiKey,
+  LoginEvent,
+  AgentVersion,
+  AgentVersionStatus,
+  AgentVersionComment,
+  AgentUsage,
+  AgentExperiment,
+  ExperimentResults,
+  CreateExperiment,
+  AgentTestCase,
+  TestCaseInput,
+  EvalRunSummary,
+  EvalRun,
+  AgentsReport,
+  FunnelReport,
+  CostsReport,
+  OpsReport,
+  ConversationAction,
+  ConversationDetail,
+  AgentConfigResponse,
+  UpdateAgent,
+  AgentTestResponse,
+  PlaygroundTurn,
+  PlaygroundTurnInput,
+  JobReplay,
+  JobsPage,
+  JobsQueryInput,
+  QueueJob,
+  BulkJobActionInput,
+  BulkJobPreview,
+  BulkJobProgress,
+  AgentType,
+  LeadVariables,
+  RenderedPrompt,
+  PromptSnippet,
+  PromptSnippetInput,
+  UpdatePromptSnippet,
+  KnowledgeItemResponse,
+  KnowledgeStatus,
+  CreateKnowledge,
+  UpdateKnowledge,
+  KnowledgeSearchResult,
+  IntegrationStatus,
+  N8NStatus,
+  ChatwootTestResult,
+  HeyReachTestResult,
+  GatingSettings,
+  FollowupSettings,
+  WebhookLogEntry,
+  AuditLogEntry,
+} from "@/types";
+import type { ApiKeyScope } from "@shared/permissions";
 
 // Helper function for making API requests
 export async function api<T>(
@@ -21,72 +84,173 @@ export async function api<T>(
 
 // Auth & User API
 export const authApi = {
-  getMe: () => api("GET", "/auth/me"),
-  getOrganizations: () => api("GET", "/api/orgs"),
+  getMe: () => api<AuthState>("GET", "/auth/me"),
+  logout: () => api("POST", "/auth/logout"),
+  getOrganizations: () => api<OrganizationMembership[]>("GET", "/api/orgs"),
   createOrganization: (data: any) => api("POST", "/api/orgs", data),
+  updateOrganization: (id: string, data: any) => api("PUT", `/api/orgs/${id}`, data),
+  deleteOrganization: (id: string) => api("DELETE", `/api/orgs/${id}`),
+  getMembers: (id: string) => api<OrganizationMember[]>("GET", `/api/orgs/${id}/members`),
+  switchOrganization: (id: string) => api("POST", `/api/orgs/${id}/switch`),
+  getInvitations: () => api<OrganizationInvitation[]>("GET", "/api/orgs/invitations"),
+  acceptInvitation: (orgId: string) => api("POST", `/api/orgs/invitations/${orgId}/accept`),
+  declineInvitation: (orgId: string) => api("POST", `/api/orgs/invitations/${orgId}/decline`),
+};
+
+// Users API (members of the active organization)
+export const usersApi = {
+  getAll: () => api<OrganizationMember[]>("GET", "/api/users"),
+  invite: (data: { email: string; name?: string; role: UserRole }) => api<InvitedUser | PendingInvite>("POST", "/api/users/invite", data),
+  updateRole: (id: string, role: UserRole) => api<OrganizationMember>("PATCH", `/api/users/${id}`, { role }),
+  deactivate: (id: string) => api<OrganizationMember>("POST", `/api/users/${id}/deactivate`),
+  activate: (id: string) => api<OrganizationMember>("POST", `/api/users/${id}/activate`),
+  resetPassword: (id: string) => api<{ ok: boolean; temporaryPassword: string }>("POST", `/api/users/${id}/reset-password`),
+  resetTwoFactor: (id: string) => api("POST", `/api/users/${id}/reset-2fa`),
+  unlock: (id: string) => api<OrganizationMember>("POST", `/api/users/${id}/unlock`),
+  getLogins: (id: string) => api<LoginEvent[]>("GET", `/api/users/${id}/logins`),
+};
+
+// Two-factor API (the current user's TOTP enrollment)
+export const twoFactorApi = {
+  enroll: () => api<TwoFactorEnrollment>("POST", "/api/2fa/enroll"),
+  confirm: (code: string) => api<{ ok: boolean; recoveryCodes: string[] }>("POST", "/api/2fa/confirm", { code }),
+  disable: (code: string) => api("POST", "/api/2fa/disable", { code }),
+};
+
+// Sessions API (the current user's signed-in devices)
+export const sessionsApi = {
+  getAll: () => api<AuthSession[]>("GET", "/api/sessions"),
+  revoke: (id: string) => api("DELETE", `/api/sessions/${id}`),
+  revokeAll: () => api<{ ok: boolean; revoked: number }>("POST", "/api/sessions/revoke-all"),
+};
+
+// API keys API (machine access, admins only)
+export const apiKeysApi = {
+  getAll: () => api<ApiKey[]>("GET", "/api/api-keys"),
+  create: (data: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number }) =>
+    api<CreatedApiKey>("POST", "/api/api-keys", data),
+  revoke: (id: string) => api("DELETE", `/api/api-keys/${id}`),
 };
 
 // Integrations API
 export const integrationsApi = {
-  getStatus: () => api("GET", "/api/integrations/status"),
-  testChatwoot: () => api("POST", "/api/integrations/chatwoot/test"),
-  testHeyReach: () => api("POST", "/api/integrations/heyreach/test"),
-  getN8nStatus: () => api("GET", "/api/integrations/n8n/status"),
+  getStatus: () => api<IntegrationStatus>("GET", "/api/integrations/status"),
+  testChatwoot: () => api<ChatwootTestResult>("POST", "/api/integrations/chatwoot/test"),
+  testHeyReach: () => api<HeyReachTestResult>("POST", "/api/integrations/heyreach/test"),
+  getN8nStatus: () => api<N8NStatus>("GET", "/api/integrations/n8n/status"),
 };
 
 // Agents API
 export const agentsApi = {
-  getAll: () => api("GET", "/api/agents"),
-  update: (agentType: string, data: any) => api("PUT", `/api/agents/${agentType}`, data),
-  test: (agentType: string, input: any) => api("POST", `/api/agents/${agentType}/test`, { input }),
+  getAll: () => api<AgentConfigResponse[]>("GET", "/api/agents"),
+  getModels: () => api<{ models: string[] }>("GET", "/api/agents/models"),
+  getUsage: (agentType: string) => api<AgentUsage>("GET", `/api/agents/${agentType}/usage`),
+  update: (agentType: string, data: UpdateAgent) =>
+    api<{ ok: boolean; version: string; status: AgentVersionStatus }>("PUT", `/api/agents/${agentType}`, data),
+  test: (agentType: string, input: string) => api<AgentTestResponse>("POST", `/api/agents/${agentType}/test`, { input }),
+  playground: (data: PlaygroundTurnInput) => api<PlaygroundTurn>("POST", "/api/agents/playground", data),
+  replay: (agentType: string, jobId: string, version: string) =>
+    api<JobReplay>("POST", `/api/agents/${agentType}/replay`, { jobId, version }),
+  preview: (agentType: string, system: string, variables: LeadVariables) =>
+    api<RenderedPrompt>("POST", `/api/agents/${agentType}/preview`, { system, variables }),
+  getVersions: (agentType: string) => api<AgentVersion[]>("GET", `/api/agents/${agentType}/versions`),
+  rollback: (agentType: string, version: string) =>
+    api<{ ok: boolean; version: string }>("POST", `/api/agents/${agentType}/versions/${version}/rollback`),
+  requestReview: (agentType: string, version: string) =>
+    api<AgentVersion>("POST", `/api/agents/${agentType}/versions/${version}/review`),
+  approveVersion: (agentType: string, version: string, comment?: string) =>
+    api<{ ok: boolean; version: string }>("POST", `/api/agents/${agentType}/versions/${version}/approve`, { comment }),
+  rejectVersion: (agentType: string, version: string, comment: string) =>
+    api<AgentVersion>("POST", `/api/agents/${agentType}/versions/${version}/reject`, { comment }),
+  getVersionComments: (agentType: string, version: string) =>
+    api<AgentVersionComment[]>("GET", `/api/agents/${agentType}/versions/${version}/comments`),
+  addVersionComment: (agentType: string, version: string, body: string) =>
+    api<AgentVersionComment>("POST", `/api/agents/${agentType}/versions/${version}/comments`, { body }),
+  getExperiments: (agentType: string) => api<AgentExperiment[]>("GET", `/api/agents/${agentType}/experiments`),
+  createExperiment: (agentType: string, data: CreateExperiment) =>
+    api<AgentExperiment>("POST", `/api/agents/${agentType}/experiments`, data),
+  stopExperiment: (agentType: string, id: string) =>
+    api<AgentExperiment>("POST", `/api/agents/${agentType}/experiments/${id}/stop`),
+  getExperimentResults: (agentType: string, id: string) =>
+    api<ExperimentResults>("GET", `/api/agents/${agentType}/experiments/${id}/results`),
+  getTestCases: (agentType: string) => api<AgentTestCase[]>("GET", `/api/agents/${agentType}/test-cases`),
+  createTestCase: (agentType: string, data: TestCaseInput) =>
+    api<AgentTestCase>("POST", `/api/agents/${agentType}/test-cases`, data),
+  updateTestCase: (agentType: string, id: string, data: TestCaseInput) =>
+    api<AgentTestCase>("PUT", `/api/agents/${agentType}/test-cases/${id}`, data),
+  deleteTestCase: (agentType: string, id: string) =>
+    api<{ ok: boolean }>("DELETE", `/api/agents/${agentType}/test-cases/${id}`),
+  getEvalRuns: (agentType: string) => api<EvalRunSummary[]>("GET", `/api/agents/${agentType}/evals`),
+  runEval: (agentType: string, version: string) =>
+    api<EvalRunSummary>("POST", `/api/agents/${agentType}/evals`, { version }),
+  getEvalRun: (agentType: string, id: string) => api<EvalRun>("GET", `/api/agents/${agentType}/evals/${id}`),
+};
+
+// Prompt snippets API
+export const promptSnippetsApi = {
+  getAll: () => api<PromptSnippet[]>("GET", "/api/prompt-snippets"),
+  create: (data: PromptSnippetInput) => api<PromptSnippet>("POST", "/api/prompt-snippets", data),
+  update: (id: string, data: UpdatePromptSnippet) => api<PromptSnippet>("PUT", `/api/prompt-snippets/${id}`, data),
+  delete: (id: string) => api<{ ok: boolean }>("DELETE", `/api/prompt-snippets/${id}`),
 };
 
 // Knowledge API
 export const knowledgeApi = {
-  getAll: () => api("GET", "/api/knowledge"),
-  create: (data: any) => api("POST", "/api/knowledge", data),
-  update: (id: string, data: any) => api("PUT", `/api/knowledge/${id}`, data),
-  delete: (id: string) => api("DELETE", `/api/knowledge/${id}`),
-  reindex: (id: string) => api("POST", `/api/knowledge/${id}/reindex`),
-  search: (query: string, topK = 5) => api("POST", "/api/knowledge/search", { query, topK }),
+  getAll: () => api<KnowledgeItemResponse[]>("GET", "/api/knowledge"),
+  create: (data: CreateKnowledge) => api<{ id: string; status: KnowledgeStatus }>("POST", "/api/knowledge", data),
+  update: (id: string, data: UpdateKnowledge) => api<{ ok: boolean }>("PUT", `/api/knowledge/${id}`, data),
+  delete: (id: string) => api<{ ok: boolean }>("DELETE", `/api/knowledge/${id}`),
+  reindex: (id: string) => api<{ success: boolean; message?: string }>("POST", `/api/knowledge/${id}/reindex`),
+  search: (query: string, topK = 5) => api<KnowledgeSearchResult[]>("POST", "/api/knowledge/search", { query, topK }),
 };
 
 // Conversations API
 export const conversationsApi = {
   getAll: () => api("GET", "/api/conversations"),
-  getById: (id: string) => api("GET", `/api/conversations/${id}`),
-  performAction: (id: string, action: any) => api("POST", `/api/conversations/${id}/actions`, action),
+  getById: (id: string) => api<ConversationDetail>("GET", `/api/conversations/${id}`),
+  performAction: (id: string, action: ConversationAction) => api<{ ok: boolean }>("POST", `/api/conversations/${id}/actions`, action),
 };
 
 // Jobs API
 export const jobsApi = {
-  getAll: () => api("GET", "/api/jobs"),
-  retry: (id: string) => api("POST", `/api/jobs/${id}/retry`),
-  cancel: (id: string) => api("POST", `/api/jobs/${id}/cancel`),
-  reassign: (id: string, agentType: string) => api("POST", `/api/jobs/${id}/reassign`, { agent_type: agentType }),
+  list: (query: JobsQueryInput = {}) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== "") params.set(key, value instanceof Date ? value.toISOString() : String(value));
+    }
+    return api<JobsPage>("GET", `/api/jobs?${params}`);
+  },
+  retry: (job: QueueJob) => api<QueueJob>("POST", `/api/jobs/${job.id}/retry`, { row_version: job.row_version }),
+  cancel: (job: QueueJob) => api<QueueJob>("POST", `/api/jobs/${job.id}/cancel`, { row_version: job.row_version }),
+  reassign: (job: QueueJob, agentType: AgentType) =>
+    api<QueueJob>("POST", `/api/jobs/${job.id}/reassign`, { agent_type: agentType, row_version: job.row_version }),
+  previewBulk: (input: BulkJobActionInput) => api<BulkJobPreview>("POST", "/api/jobs/bulk", { ...input, dry_run: true }),
+  // Starts the run; progress arrives over /ws
+  runBulk: (input: BulkJobActionInput, expectedCount: number) =>
+    api<BulkJobProgress>("POST", "/api/jobs/bulk", { ...input, dry_run: false, expected_count: expectedCount }),
 };
 
 // Reports API
 export const reportsApi = {
   getOverview: (from?: string, to?: string) => api("GET", `/api/reports/overview?from=${from || ""}&to=${to || ""}`),
-  getAgents: (from?: string, to?: string) => api("GET", `/api/reports/agents?from=${from || ""}&to=${to || ""}`),
-  getFunnel: (from?: string, to?: string) => api("GET", `/api/reports/funnel?from=${from || ""}&to=${to || ""}`),
-  getOps: (from?: string, to?: string) => api("GET", `/api/reports/ops?from=${from || ""}&to=${to || ""}`),
-  getCosts: (from?: string, to?: string) => api("GET", `/api/reports/costs?from=${from || ""}&to=${to || ""}`),
+  getAgents: (from?: string, to?: string) => api<AgentsReport>("GET", `/api/reports/agents?from=${from || ""}&to=${to || ""}`),
+  getFunnel: (from?: string, to?: string) => api<FunnelReport>("GET", `/api/reports/funnel?from=${from || ""}&to=${to || ""}`),
+  getOps: (from?: string, to?: string) => api<OpsReport>("GET", `/api/reports/ops?from=${from || ""}&to=${to || ""}`),
+  getCosts: (from?: string, to?: string) => api<CostsReport>("GET", `/api/reports/costs?from=${from || ""}&to=${to || ""}`),
 };
 
 // Webhooks API
 export const webhooksApi = {
-  getLogs: (source?: string, limit = 50) => api("GET", `/api/webhooks/logs?source=${source || ""}&limit=${limit}`),
+  getLogs: (source?: string, limit = 50) => api<WebhookLogEntry[]>("GET", `/api/webhooks/logs?source=${source || ""}&limit=${limit}`),
 };
 
 // Settings API
 export const settingsApi = {
-  getGating: () => api("GET", "/api/settings/gating"),
-  updateGating: (data: any) => api("PUT", "/api/settings/gating", data),
-  getFollowups: () => api("GET", "/api/settings/followups"),
-  updateFollowups: (data: any) => api("PUT", "/api/settings/followups", data),
-  getAuditLogs: () => api("GET", "/api/audit"),
+  getGating: () => api<GatingSettings>("GET", "/api/settings/gating"),
+  updateGating: (data: GatingSettings) => api<{ ok: boolean }>("PUT", "/api/settings/gating", data),
+  getFollowups: () => api<FollowupSettings>("GET", "/api/settings/followups"),
+  updateFollowups: (data: FollowupSettings) => api<{ ok: boolean }>("PUT", "/api/settings/followups", data),
+  getAuditLogs: () => api<AuditLogEntry[]>("GET", "/api/audit"),
 };
 
 // WebSocket connection for real-time updates
@@ -138,6 +302,8 @@ export class TramiaWebSocket {
 
   disconnect() {
     if (this.ws) {
+      // Closing on purpose; don't let onclose reconnect
+      this.ws.onclose = null;
       this.ws.close();
       this.ws = null;
     }
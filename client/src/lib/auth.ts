@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { authApi } from "./api";
+import { can, type Permission } from "@shared/permissions";
 
 // Hook to get current user and organization
 export function useAuth() {
@@ -18,22 +19,10 @@ export function useHasRole(requiredRole: string) {
   return role === requiredRole || role === "admin" || false;
 }
 
-// Hook to check if user can perform action
-export function useCanPerform(action: string) {
+// Hook to check if user can perform action (same table the server enforces)
+export function useCanPerform(action: Permission) {
   const { data: auth } = useAuth();
-  const role = auth?.user?.role;
-  
-  // Simple permission mapping - in production this would be more sophisticated
-  const permissions = {
-    "view:conversations": ["viewer", "operator", "admin"],
-    "edit:agents": ["operator", "admin"],
-    "manage:integrations": ["admin"],
-    "view:reports": ["viewer", "operator", "admin"],
-    "manage:settings": ["admin"],
-  };
-
-  const allowedRoles = permissions[action as keyof typeof permissions] || [];
-  return allowedRoles.includes(role) || false;
+  return can(auth?.user?.role, action);
 }
 
 // Utility function to get display name initials
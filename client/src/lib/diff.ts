@@ -0,0 +1,62 @@
+// Line diff for side-by-side views (agent version history)
+
+export interface DiffRow {
+  type: "same" | "added" | "removed" | "changed";
+  left: string | null;
+  right: string | null;
+}
+
+type Op = { type: "same" | "added" | "removed"; line: string };
+
+// Longest-common-subsequence walk; prompts are a few hundred lines at most
+function diffOps(a: string[], b: string[]): Op[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "same", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "removed", line: a[i++] });
+    } else {
+      ops.push({ type: "added", line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: "removed", line: a[i++] });
+  while (j < b.length) ops.push({ type: "added", line: b[j++] });
+  return ops;
+}
+
+// Pairs each run of removed lines with the added lines that follow it, so
+// edited lines sit next to each other
+export function diffLines(before: string, after: string): DiffRow[] {
+  const ops = diffOps(before.split("\n"), after.split("\n"));
+  const rows: DiffRow[] = [];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === "same") {
+      rows.push({ type: "same", left: ops[k].line, right: ops[k].line });
+      k++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type === "removed") removed.push(ops[k++].line);
+    while (k < ops.length && ops[k].type === "added") added.push(ops[k++].line);
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = removed[n] ?? null;
+      const right = added[n] ?? null;
+      rows.push({ type: left !== null && right !== null ? "changed" : left !== null ? "removed" : "added", left, right });
+    }
+  }
+  return rows;
+}
@@ -7,16 +7,51 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The server's { message } from an error thrown above, for toasts
+export function errorMessage(error: unknown, fallback: string) {
+  const match = error instanceof Error ? /^\d{3}: ([\s\S]*)$/.exec(error.message) : null;
+  if (!match) return fallback;
+  try {
+    return JSON.parse(match[1]).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Access tokens are short-lived; a single shared refresh serves every request
+// that hit a 401 at the same time.
+let refreshing: Promise<boolean> | null = null;
+
+function refreshSession(): Promise<boolean> {
+  if (!refreshing) {
+    refreshing = fetch("/auth/refresh", { method: "POST", credentials: "include" })
+      .then((res) => res.ok)
+      .catch(() => false)
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+// fetch that retries once after refreshing an expired access token
+async function fetchWithRefresh(url: string, init: RequestInit): Promise<Response> {
+  const res = await fetch(url, { ...init, credentials: "include" });
+  if (res.status !== 401 || url.startsWith("/auth/login") || url.startsWith("/auth/refresh")) {
+    return res;
+  }
+  return (await refreshSession()) ? fetch(url, { ...init, credentials: "include" }) : res;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const res = await fetchWithRefresh(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -29,9 +64,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
-      credentials: "include",
-    });
+    const res = await fetchWithRefresh(queryKey.join("/") as string, {});
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
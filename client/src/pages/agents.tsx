@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Bot, Play, Save, RotateCcw, GitBranch, TestTube, Settings, Code } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,9 +10,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { agentsApi } from "@/lib/api";
+import { AgentVersions } from "@/components/agent-versions";
+import { AgentExperiments } from "@/components/agent-experiments";
+import { AgentEvals } from "@/components/agent-evals";
+import { AgentPlayground } from "@/components/agent-playground";
+import { AgentReplay } from "@/components/agent-replay";
+import { OutputSchemaEditor, outputSchemaIssues } from "@/components/output-schema-editor";
+import { PromptSnippets } from "@/components/prompt-snippets";
+import { PromptPreview } from "@/components/prompt-preview";
+import { agentsApi, promptSnippetsApi } from "@/lib/api";
+import { errorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { AgentType, AgentTestResult } from "@/types";
+import { checkTemplate } from "@shared/promptTemplate";
+import { AgentType, AgentTestResponse, AgentVersion, AgentParams } from "@/types";
 
 const agentTypes: AgentType[] = ["qualifier", "closer", "scheduler", "objections", "pooling", "followups"];
 
@@ -30,8 +40,14 @@ export default function Agents() {
   const [systemPrompt, setSystemPrompt] = useState("");
   const [outputSchema, setOutputSchema] = useState("");
   const [testInput, setTestInput] = useState("");
-  const [testResult, setTestResult] = useState<AgentTestResult | null>(null);
+  const [testResult, setTestResult] = useState<AgentTestResponse | null>(null);
   const [mcpEnabled, setMcpEnabled] = useState(false);
+  const [model, setModel] = useState("gpt-4");
+  const [temperature, setTemperature] = useState("0.7");
+  const [maxTokens, setMaxTokens] = useState("500");
+  const [tokenBudget, setTokenBudget] = useState("");
+  const [changelog, setChangelog] = useState("");
+  const systemPromptRef = useRef<HTMLTextAreaElement>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -41,20 +57,60 @@ export default function Agents() {
     queryFn: agentsApi.getAll,
   });
 
+  const { data: allowedModels } = useQuery({
+    queryKey: ["/api/agents/models"],
+    queryFn: agentsApi.getModels,
+  });
+
+  const { data: versions = [] } = useQuery({
+    queryKey: ["/api/agents", selectedAgent, "versions"],
+    queryFn: () => agentsApi.getVersions(selectedAgent),
+  });
+
+  const { data: snippets = [] } = useQuery({
+    queryKey: ["/api/prompt-snippets"],
+    queryFn: promptSnippetsApi.getAll,
+  });
+
+  const { data: usage } = useQuery({
+    queryKey: ["/api/agents", selectedAgent, "usage"],
+    queryFn: () => agentsApi.getUsage(selectedAgent),
+  });
+
   const updateAgentMutation = useMutation({
     mutationFn: ({ agentType, data }: { agentType: string; data: any }) =>
       agentsApi.update(agentType, data),
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/agents"] });
+      setChangelog("");
+      toast({
+        title: "Draft Saved",
+        description: `Saved as v${result.version}. Request a review to get it published.`,
+      });
+    },
+    onError: (error) => {
       toast({
-        title: "Agent Updated",
-        description: "Agent configuration saved successfully.",
+        title: "Error",
+        description: errorMessage(error, "Failed to update agent configuration."),
+        variant: "destructive",
       });
     },
-    onError: () => {
+  });
+
+  const requestReviewMutation = useMutation({
+    mutationFn: (version: string) => agentsApi.requestReview(selectedAgent, version),
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", selectedAgent, "versions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+      toast({
+        title: "Review Requested",
+        description: `An admin has to approve v${version.version} before it goes live.`,
+      });
+    },
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update agent configuration.",
+        description: errorMessage(error, "Failed to request review."),
         variant: "destructive",
       });
     },
@@ -65,21 +121,45 @@ export default function Agents() {
       agentsApi.test(agentType, input),
     onSuccess: (result) => {
       setTestResult(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/agents", selectedAgent, "usage"] });
       toast({
         title: "Test Completed",
         description: `Agent test completed. Used ${result.tokensUsed} tokens.`,
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Test Failed",
-        description: "Agent test failed. Check configuration and try again.",
+        description: errorMessage(error, "Agent test failed. Check configuration and try again."),
         variant: "destructive",
       });
     },
   });
 
   const currentAgent = agents.find((agent: any) => agent.agentType === selectedAgent);
+  const latestDraft = versions[0]?.status === "draft" ? versions[0] : undefined;
+  const schemaIssues = outputSchemaIssues(outputSchema);
+  const templateIssues = checkTemplate(systemPrompt, snippets.map((snippet) => snippet.name));
+
+  // Replaces the selection in the System Prompt box with the tag
+  const insertIntoPrompt = (tag: string) => {
+    const textarea = systemPromptRef.current;
+    const start = textarea?.selectionStart ?? systemPrompt.length;
+    const end = textarea?.selectionEnd ?? systemPrompt.length;
+    setSystemPrompt(systemPrompt.slice(0, start) + tag + systemPrompt.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + tag.length, start + tag.length);
+    });
+  };
+
+  const loadParams = (params: AgentParams | null | undefined) => {
+    setModel(params?.model ?? "gpt-4");
+    setTemperature(String(params?.temperature ?? 0.7));
+    setMaxTokens(String(params?.maxTokens ?? 500));
+    setTokenBudget(params?.monthlyTokenBudget ? String(params.monthlyTokenBudget) : "");
+    setMcpEnabled(params?.mcpEnabled === true);
+  };
 
   const handleSave = () => {
     updateAgentMutation.mutate({
@@ -87,16 +167,28 @@ export default function Agents() {
       data: {
         system: systemPrompt,
         outputSchema: outputSchema ? JSON.parse(outputSchema) : null,
+        // Keep keys this page doesn't edit; an empty budget means no cap
         paramsJson: {
-          model: "gpt-4",
-          temperature: 0.7,
-          maxTokens: 500,
+          ...currentAgent?.paramsJson,
+          model,
+          temperature: Number(temperature),
+          maxTokens: Number(maxTokens),
+          monthlyTokenBudget: tokenBudget ? Number(tokenBudget) : undefined,
           mcpEnabled
-        }
+        },
+        changelog: changelog.trim() || undefined,
       }
     });
   };
 
+  // Loads a version into the editors: rolled-back content that is live now,
+  // or a draft to keep working on
+  const handleLoad = (version: AgentVersion) => {
+    setSystemPrompt(version.system);
+    setOutputSchema(version.outputSchema ? JSON.stringify(version.outputSchema, null, 2) : "");
+    loadParams(version.paramsJson as AgentParams | null);
+  };
+
   const handleTest = () => {
     if (!testInput.trim()) {
       toast({
@@ -158,7 +250,7 @@ export default function Agents() {
                     setSelectedAgent(agentType);
                     setSystemPrompt(agent?.system || "");
                     setOutputSchema(agent?.outputSchema ? JSON.stringify(agent.outputSchema, null, 2) : "");
-                    setMcpEnabled(agent?.paramsJson?.mcpEnabled || false);
+                    loadParams(agent?.paramsJson);
                   }}
                   data-testid={`select-agent-${agentType}`}
                 >
@@ -194,11 +286,13 @@ export default function Agents() {
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="system" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-6">
                 <TabsTrigger value="system">System</TabsTrigger>
                 <TabsTrigger value="schema">Schema</TabsTrigger>
                 <TabsTrigger value="params">Params</TabsTrigger>
                 <TabsTrigger value="version">Version</TabsTrigger>
+                <TabsTrigger value="evals">Evals</TabsTrigger>
+                <TabsTrigger value="experiments">Experiments</TabsTrigger>
               </TabsList>
 
               <TabsContent value="system" className="space-y-4">
@@ -206,41 +300,40 @@ export default function Agents() {
                   <Label htmlFor="system-prompt">System Prompt</Label>
                   <Textarea
                     id="system-prompt"
+                    ref={systemPromptRef}
                     placeholder="Enter the system prompt for this agent..."
                     value={systemPrompt}
                     onChange={(e) => setSystemPrompt(e.target.value)}
                     className="min-h-[300px] font-mono text-sm"
                     data-testid="system-prompt-input"
                   />
+                  {templateIssues.map((issue) => (
+                    <p key={issue.tag} className="text-xs text-destructive mt-1">
+                      <span className="font-mono">{issue.tag}</span> {issue.message}
+                    </p>
+                  ))}
                 </div>
+                <PromptSnippets onInsert={insertIntoPrompt} />
+                <PromptPreview agentType={selectedAgent} system={systemPrompt} />
               </TabsContent>
 
               <TabsContent value="schema" className="space-y-4">
-                <div>
-                  <Label htmlFor="output-schema">Output Schema (JSON)</Label>
-                  <Textarea
-                    id="output-schema"
-                    placeholder="Enter the JSON schema for agent output..."
-                    value={outputSchema}
-                    onChange={(e) => setOutputSchema(e.target.value)}
-                    className="min-h-[300px] font-mono text-sm"
-                    data-testid="output-schema-input"
-                  />
-                </div>
+                <OutputSchemaEditor value={outputSchema} onChange={setOutputSchema} />
               </TabsContent>
 
               <TabsContent value="params" className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <Label htmlFor="model">Model</Label>
-                    <Select defaultValue="gpt-4">
-                      <SelectTrigger>
+                    <Select value={model} onValueChange={setModel}>
+                      <SelectTrigger id="model" data-testid="model-select">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="gpt-4">GPT-4</SelectItem>
-                        <SelectItem value="gpt-4-turbo">GPT-4 Turbo</SelectItem>
-                        <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo</SelectItem>
+                        {/* A saved model the org no longer allows stays visible so it can be replaced */}
+                        {Array.from(new Set([...(allowedModels?.models ?? []), model])).map((name) => (
+                          <SelectItem key={name} value={name}>{name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -252,7 +345,9 @@ export default function Agents() {
                       min="0"
                       max="2"
                       step="0.1"
-                      defaultValue="0.7"
+                      value={temperature}
+                      onChange={(e) => setTemperature(e.target.value)}
+                      data-testid="temperature-input"
                     />
                   </div>
                   <div>
@@ -261,8 +356,10 @@ export default function Agents() {
                       id="max-tokens"
                       type="number"
                       min="1"
-                      max="4000"
-                      defaultValue="500"
+                      max="8192"
+                      value={maxTokens}
+                      onChange={(e) => setMaxTokens(e.target.value)}
+                      data-testid="max-tokens-input"
                     />
                   </div>
                   <div>
@@ -270,9 +367,19 @@ export default function Agents() {
                     <Input
                       id="budget"
                       type="number"
-                      min="0"
-                      defaultValue="100000"
+                      min="1000"
+                      step="1000"
+                      placeholder="No limit"
+                      value={tokenBudget}
+                      onChange={(e) => setTokenBudget(e.target.value)}
+                      data-testid="budget-input"
                     />
+                    {usage && (
+                      <p className="text-xs text-muted-foreground mt-1" data-testid="budget-usage">
+                        {usage.tokens.toLocaleString()}
+                        {usage.budget !== null && ` / ${usage.budget.toLocaleString()}`} tokens used this month
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
@@ -287,26 +394,55 @@ export default function Agents() {
               </TabsContent>
 
               <TabsContent value="version" className="space-y-4">
-                <div className="text-center py-8 text-muted-foreground">
-                  <GitBranch className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>Version management coming soon</p>
-                  <p className="text-sm">Track changes, diff versions, and rollback</p>
-                </div>
+                <AgentVersions agentType={selectedAgent} liveVersion={currentAgent?.version} onLoad={handleLoad} />
+              </TabsContent>
+
+              <TabsContent value="evals" className="space-y-4">
+                <AgentEvals agentType={selectedAgent} />
+              </TabsContent>
+
+              <TabsContent value="experiments" className="space-y-4">
+                <AgentExperiments agentType={selectedAgent} />
               </TabsContent>
             </Tabs>
 
-            <div className="flex items-center space-x-2 mt-6">
+            <div className="mt-6">
+              <Label htmlFor="changelog">Change Note</Label>
+              <Input
+                id="changelog"
+                placeholder="What changed and why (optional)"
+                value={changelog}
+                onChange={(e) => setChangelog(e.target.value)}
+                maxLength={500}
+                data-testid="changelog-input"
+              />
+            </div>
+
+            <div className="flex items-center space-x-2 mt-4">
               <Button
                 onClick={handleSave}
-                disabled={updateAgentMutation.isPending}
+                disabled={updateAgentMutation.isPending || schemaIssues.length > 0 || templateIssues.length > 0}
+                title={
+                  templateIssues.length > 0
+                    ? "Fix the system prompt's variables and snippets first"
+                    : schemaIssues.length > 0
+                      ? "Fix the output schema first"
+                      : undefined
+                }
                 data-testid="save-agent"
               >
                 <Save className="h-4 w-4 mr-2" />
-                Save Configuration
+                Save Draft
               </Button>
-              <Button variant="outline" disabled>
+              <Button
+                variant="outline"
+                onClick={() => latestDraft && requestReviewMutation.mutate(latestDraft.version)}
+                disabled={!latestDraft || requestReviewMutation.isPending}
+                title={latestDraft ? `Ask an admin to publish v${latestDraft.version}` : "Save a draft first"}
+                data-testid="request-review"
+              >
                 <GitBranch className="h-4 w-4 mr-2" />
-                Publish
+                Request Review
               </Button>
             </div>
           </CardContent>
@@ -355,6 +491,20 @@ export default function Agents() {
                       <div className="bg-muted p-3 rounded font-mono text-sm">
                         <pre>{JSON.stringify(testResult.output, null, 2)}</pre>
                       </div>
+                      {testResult.schemaViolations && (
+                        testResult.schemaViolations.length === 0 ? (
+                          <Badge variant="outline" data-testid="schema-valid">Matches output schema</Badge>
+                        ) : (
+                          <div className="bg-destructive/10 p-3 rounded text-sm space-y-1" data-testid="schema-violations">
+                            <p className="font-medium text-destructive">Output doesn't match the schema</p>
+                            {testResult.schemaViolations.map((violation) => (
+                              <p key={violation.path} className="text-xs">
+                                <span className="font-mono">{violation.path}</span> {violation.message}
+                              </p>
+                            ))}
+                          </div>
+                        )
+                      )}
                       <div className="flex items-center justify-between text-sm text-muted-foreground">
                         <span>Tokens: {testResult.tokensUsed}</span>
                         <span>Cost: ${testResult.estimatedCost.toFixed(4)}</span>
@@ -375,6 +525,12 @@ export default function Agents() {
         </Card>
       </div>
 
+      {/* Multi-turn simulation across the production pipeline */}
+      <AgentPlayground />
+
+      {/* Past conversations against another version of the selected agent */}
+      <AgentReplay agentType={selectedAgent} />
+
       {/* Agent Performance Overview */}
       <Card>
         <CardHeader>
@@ -1,133 +1,138 @@
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Play, Square, RotateCcw, User, Filter, Search } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { RotateCcw, Square, Search, X } from "lucide-react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { jobsApi } from "@/lib/api";
+import { useCanPerform } from "@/lib/auth";
+import { errorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { BulkJobActions } from "@/components/bulk-job-actions";
+import type { AgentType, JobFilterInput, QueueJob } from "@/types";
+
+const agentTypes: AgentType[] = ["qualifier", "closer", "scheduler", "objections", "pooling", "followups"];
+
+const statuses = ["pending", "processing", "completed", "failed", "cancelled"] as const;
+
+const statusColors: Record<string, string> = {
+  pending: "bg-warning text-warning-foreground",
+  processing: "bg-accent text-accent-foreground live-indicator",
+  completed: "bg-accent text-accent-foreground",
+  failed: "bg-destructive text-destructive-foreground",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+const statusTextColors: Record<string, string> = {
+  pending: "text-warning",
+  processing: "text-accent live-indicator",
+  completed: "text-accent",
+  failed: "text-destructive",
+  cancelled: "text-muted-foreground",
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString("es-AR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+interface Filters {
+  agentType: string;
+  finishStatus: string;
+  from: string;
+  to: string;
+  minRetries: string;
+}
+
+const noFilters: Filters = { agentType: "all", finishStatus: "", from: "", to: "", minRetries: "" };
 
 export default function Jobs() {
   const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState("");
   const [activeTab, setActiveTab] = useState("pending");
+  const [filters, setFilters] = useState<Filters>(noFilters);
+
+  const canManage = useCanPerform("manage:jobs");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: jobs = [], isLoading } = useQuery({
-    queryKey: ["/api/jobs"],
-    queryFn: jobsApi.getAll,
+  // Search as the operator types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Also what bulk actions apply to
+  const query: JobFilterInput = {
+    status: activeTab === "all" ? undefined : activeTab,
+    agent_type: filters.agentType === "all" ? undefined : filters.agentType,
+    finish_status: filters.finishStatus.trim() || undefined,
+    // Date inputs are local days; the range includes the whole "to" day
+    from: filters.from ? new Date(`${filters.from}T00:00:00`) : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`) : undefined,
+    retry_count_min: filters.minRetries ? Number(filters.minRetries) : undefined,
+    q: search || undefined,
+  };
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/jobs", query],
+    queryFn: ({ pageParam }) => jobsApi.list({ ...query, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (page) => page.nextCursor ?? undefined,
   });
 
+  const jobs = data?.pages.flatMap((page) => page.jobs) ?? [];
+  const counts = data?.pages[0]?.counts ?? {};
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  const onJobChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
+  // A 409 means the job moved on (n8n or another operator); the refetch shows where it is now
+  const onJobError = (fallback: string) => (error: unknown) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    toast({ title: "Error", description: errorMessage(error, fallback), variant: "destructive" });
+  };
+
   const retryJobMutation = useMutation({
     mutationFn: jobsApi.retry,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
-      toast({
-        title: "Job Retried",
-        description: "The job has been queued for retry.",
-      });
-    },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to retry job.",
-        variant: "destructive",
-      });
+      onJobChanged();
+      toast({ title: "Job Retried", description: "The job has been queued for retry." });
     },
+    onError: onJobError("Failed to retry job."),
   });
 
   const cancelJobMutation = useMutation({
     mutationFn: jobsApi.cancel,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
-      toast({
-        title: "Job Cancelled",
-        description: "The job has been cancelled.",
-      });
-    },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to cancel job.",
-        variant: "destructive",
-      });
+      onJobChanged();
+      toast({ title: "Job Cancelled", description: "The job has been cancelled." });
     },
+    onError: onJobError("Failed to cancel job."),
   });
 
   const reassignJobMutation = useMutation({
-    mutationFn: ({ id, agentType }: { id: string; agentType: string }) => 
-      jobsApi.reassign(id, agentType),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
-      toast({
-        title: "Job Reassigned",
-        description: "The job has been reassigned to a different agent.",
-      });
-    },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to reassign job.",
-        variant: "destructive",
-      });
+    mutationFn: ({ job, agentType }: { job: QueueJob; agentType: AgentType }) => jobsApi.reassign(job, agentType),
+    onSuccess: (job) => {
+      onJobChanged();
+      toast({ title: "Job Reassigned", description: `The job is now with the ${job.agent_type} agent.` });
     },
+    onError: onJobError("Failed to reassign job."),
   });
 
-  const filteredJobs = jobs.filter((job: any) => {
-    const matchesSearch = !searchTerm || 
-      job.id?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      job.type?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      job.chatwootConversationId?.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesTab = activeTab === "all" || job.status === activeTab;
-    
-    return matchesSearch && matchesTab;
-  });
-
-  const getStatusBadge = (status: string) => {
-    const statusColors = {
-      pending: "bg-warning text-warning-foreground",
-      processing: "bg-accent text-accent-foreground live-indicator",
-      completed: "bg-accent text-accent-foreground",
-      failed: "bg-destructive text-destructive-foreground",
-      cancelled: "bg-muted text-muted-foreground"
-    };
-
-    return (
-      <Badge className={statusColors[status as keyof typeof statusColors] || "bg-muted"}>
-        {status}
-      </Badge>
-    );
-  };
-
-  const getJobTypeIcon = (type: string) => {
-    // Return appropriate icon based on job type
-    return <div className="w-6 h-6 bg-primary text-primary-foreground rounded text-xs flex items-center justify-center font-mono">
-      {type?.charAt(0).toUpperCase() || "J"}
-    </div>;
-  };
-
-  if (isLoading) {
-    return (
-      <div className="p-6">
-        <div className="space-y-4">
-          <div className="h-8 bg-muted animate-pulse rounded" />
-          <div className="h-64 bg-muted animate-pulse rounded" />
-        </div>
-      </div>
-    );
-  }
-
-  const jobCounts = {
-    pending: jobs.filter((j: any) => j.status === "pending").length,
-    processing: jobs.filter((j: any) => j.status === "processing").length,
-    completed: jobs.filter((j: any) => j.status === "completed").length,
-    failed: jobs.filter((j: any) => j.status === "failed").length,
-    cancelled: jobs.filter((j: any) => j.status === "cancelled").length,
-  };
+  const filtered = JSON.stringify(filters) !== JSON.stringify(noFilters);
 
   return (
     <div className="p-6 space-y-6 fade-in" data-testid="jobs-page">
@@ -143,205 +148,223 @@ export default function Jobs() {
         </div>
       </div>
 
-      {/* Stats Cards */}
+      {/* Stats Cards: totals for the current filters */}
       <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-        <Card>
-          <CardContent className="p-4">
-            <div className="text-center">
-              <div className="text-2xl font-bold text-warning">{jobCounts.pending}</div>
-              <div className="text-xs text-muted-foreground">Pending</div>
-            </div>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4">
-            <div className="text-center">
-              <div className="text-2xl font-bold text-accent live-indicator">{jobCounts.processing}</div>
-              <div className="text-xs text-muted-foreground">Processing</div>
-            </div>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4">
-            <div className="text-center">
-              <div className="text-2xl font-bold text-accent">{jobCounts.completed}</div>
-              <div className="text-xs text-muted-foreground">Completed</div>
-            </div>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4">
-            <div className="text-center">
-              <div className="text-2xl font-bold text-destructive">{jobCounts.failed}</div>
-              <div className="text-xs text-muted-foreground">Failed</div>
-            </div>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent className="p-4">
-            <div className="text-center">
-              <div className="text-2xl font-bold text-muted-foreground">{jobCounts.cancelled}</div>
-              <div className="text-xs text-muted-foreground">Cancelled</div>
-            </div>
-          </CardContent>
-        </Card>
+        {statuses.map((status) => (
+          <Card key={status}>
+            <CardContent className="p-4">
+              <div className="text-center">
+                <div className={`text-2xl font-bold ${statusTextColors[status]}`}>{counts[status] ?? 0}</div>
+                <div className="text-xs text-muted-foreground capitalize">{status}</div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
       </div>
 
       {/* Filters */}
       <Card>
-        <CardContent className="p-4">
-          <div className="flex items-center space-x-4">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <CardContent className="p-4 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by lead name or user id..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+              maxLength={200}
+              data-testid="search-jobs"
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <div>
+              <Label>Agent</Label>
+              <Select value={filters.agentType} onValueChange={(agentType) => setFilters({ ...filters, agentType })}>
+                <SelectTrigger data-testid="filter-agent-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All agents</SelectItem>
+                  {agentTypes.map((agentType) => (
+                    <SelectItem key={agentType} value={agentType} className="capitalize">{agentType}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="filter-finish-status">Finish Status</Label>
               <Input
-                placeholder="Search by job ID, type, or conversation..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-                data-testid="search-jobs"
+                id="filter-finish-status"
+                placeholder="Any"
+                value={filters.finishStatus}
+                onChange={(e) => setFilters({ ...filters, finishStatus: e.target.value })}
               />
             </div>
-            <Button variant="outline" size="sm" data-testid="filter-button">
-              <Filter className="h-4 w-4 mr-2" />
-              Filters
+            <div>
+              <Label htmlFor="filter-from">From</Label>
+              <Input id="filter-from" type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="filter-to">To</Label>
+              <Input id="filter-to" type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="filter-retries">Min. Retries</Label>
+              <Input
+                id="filter-retries"
+                type="number"
+                min={0}
+                placeholder="0"
+                value={filters.minRetries}
+                onChange={(e) => setFilters({ ...filters, minRetries: e.target.value })}
+              />
+            </div>
+            <Button variant="outline" onClick={() => setFilters(noFilters)} disabled={!filtered} data-testid="clear-filters">
+              <X className="h-4 w-4 mr-2" />
+              Clear
             </Button>
           </div>
         </CardContent>
       </Card>
 
+      {canManage && <BulkJobActions filter={query} agentTypes={agentTypes} />}
+
       {/* Jobs Table with Tabs */}
       <Card>
         <CardHeader>
           <Tabs value={activeTab} onValueChange={setActiveTab}>
             <TabsList className="grid w-full grid-cols-6">
-              <TabsTrigger value="all">All</TabsTrigger>
-              <TabsTrigger value="pending">Pending ({jobCounts.pending})</TabsTrigger>
-              <TabsTrigger value="processing">Processing ({jobCounts.processing})</TabsTrigger>
-              <TabsTrigger value="completed">Completed</TabsTrigger>
-              <TabsTrigger value="failed">Failed ({jobCounts.failed})</TabsTrigger>
-              <TabsTrigger value="cancelled">Cancelled</TabsTrigger>
+              <TabsTrigger value="all">All ({total})</TabsTrigger>
+              {statuses.map((status) => (
+                <TabsTrigger key={status} value={status} className="capitalize">
+                  {status} ({counts[status] ?? 0})
+                </TabsTrigger>
+              ))}
             </TabsList>
           </Tabs>
         </CardHeader>
-        <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Job</TableHead>
-                <TableHead>Type</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Agent</TableHead>
-                <TableHead>Conversation</TableHead>
-                <TableHead>Created</TableHead>
-                <TableHead className="text-right">Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredJobs.length === 0 ? (
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="h-64 bg-muted animate-pulse rounded" />
+          ) : (
+            <Table>
+              <TableHeader>
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
-                    No jobs found
-                  </TableCell>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Lead</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Agent</TableHead>
+                  <TableHead>Retries</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
-              ) : (
-                filteredJobs.map((job: any) => (
-                  <TableRow key={job.id} data-testid={`job-${job.id}`}>
-                    <TableCell>
-                      <div className="flex items-center space-x-3">
-                        {getJobTypeIcon(job.type)}
-                        <div>
-                          <code className="text-xs bg-muted px-2 py-1 rounded font-mono">
-                            {job.id.slice(0, 8)}...
-                          </code>
-                          {job.priority > 0 && (
-                            <Badge variant="outline" className="ml-2 text-xs">
-                              Priority: {job.priority}
-                            </Badge>
-                          )}
-                        </div>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="outline">
-                        {job.type || "Unknown"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      {getStatusBadge(job.status)}
+              </TableHeader>
+              <TableBody>
+                {jobs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                      No jobs found
                     </TableCell>
-                    <TableCell>
-                      {job.agentType ? (
-                        <Badge variant="outline" className="font-mono">
-                          {job.agentType}
-                        </Badge>
-                      ) : (
-                        <span className="text-muted-foreground text-sm">-</span>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      {job.chatwootConversationId ? (
+                  </TableRow>
+                ) : (
+                  jobs.map((job) => (
+                    <TableRow key={job.id} data-testid={`job-${job.id}`}>
+                      <TableCell>
                         <code className="text-xs bg-muted px-2 py-1 rounded font-mono">
-                          {job.chatwootConversationId}
+                          {job.id.length > 8 ? `${job.id.slice(0, 8)}...` : job.id}
                         </code>
-                      ) : (
-                        <span className="text-muted-foreground text-sm">-</span>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      <div className="text-sm text-muted-foreground">
-                        {new Date(job.createdAt).toLocaleString("es-AR", {
-                          month: "short",
-                          day: "numeric",
-                          hour: "2-digit",
-                          minute: "2-digit",
-                        })}
-                      </div>
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <div className="flex items-center justify-end space-x-2">
-                        {(job.status === "failed" || job.status === "cancelled") && (
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => retryJobMutation.mutate(job.id)}
-                            disabled={retryJobMutation.isPending}
-                            data-testid={`retry-job-${job.id}`}
-                          >
-                            <RotateCcw className="h-4 w-4 mr-2" />
-                            Retry
-                          </Button>
+                        {job.priority != null && job.priority > 0 && (
+                          <Badge variant="outline" className="ml-2 text-xs">
+                            Priority: {job.priority}
+                          </Badge>
                         )}
-                        
-                        {(job.status === "pending" || job.status === "processing") && (
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => cancelJobMutation.mutate(job.id)}
-                            disabled={cancelJobMutation.isPending}
-                            data-testid={`cancel-job-${job.id}`}
-                          >
-                            <Square className="h-4 w-4 mr-2" />
-                            Cancel
-                          </Button>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{job.user_name}</div>
+                        {job.chatwoot_conversation_id && (
+                          <div className="text-xs text-muted-foreground font-mono">#{job.chatwoot_conversation_id}</div>
                         )}
-                        
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => reassignJobMutation.mutate({ id: job.id, agentType: "qualifier" })}
-                          disabled={reassignJobMutation.isPending || job.status === "completed"}
-                          data-testid={`reassign-job-${job.id}`}
-                        >
-                          <User className="h-4 w-4 mr-2" />
-                          Reassign
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))
-              )}
-            </TableBody>
-          </Table>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={statusColors[job.status] || "bg-muted"}>{job.status}</Badge>
+                        {job.finish_status && <div className="text-xs text-muted-foreground mt-1">{job.finish_status}</div>}
+                      </TableCell>
+                      <TableCell>
+                        {job.agent_type ? (
+                          <Badge variant="outline" className="font-mono">
+                            {job.agent_type}
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground text-sm">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{job.retry_count}</TableCell>
+                      <TableCell>
+                        <div className="text-sm text-muted-foreground">{formatDate(job.created_at)}</div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canManage && (
+                          <div className="flex items-center justify-end space-x-2">
+                            {(job.status === "failed" || job.status === "cancelled") && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => retryJobMutation.mutate(job)}
+                                disabled={retryJobMutation.isPending}
+                                data-testid={`retry-job-${job.id}`}
+                              >
+                                <RotateCcw className="h-4 w-4 mr-2" />
+                                Retry
+                              </Button>
+                            )}
+
+                            {(job.status === "pending" || job.status === "processing") && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => cancelJobMutation.mutate(job)}
+                                disabled={cancelJobMutation.isPending}
+                                data-testid={`cancel-job-${job.id}`}
+                              >
+                                <Square className="h-4 w-4 mr-2" />
+                                Cancel
+                              </Button>
+                            )}
+
+                            {job.status !== "completed" && (
+                              <Select
+                                value=""
+                                onValueChange={(agentType) => reassignJobMutation.mutate({ job, agentType: agentType as AgentType })}
+                                disabled={reassignJobMutation.isPending}
+                              >
+                                <SelectTrigger className="w-32 h-9" data-testid={`reassign-job-${job.id}`}>
+                                  <SelectValue placeholder="Reassign" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {agentTypes
+                                    .filter((agentType) => agentType !== job.agent_type)
+                                    .map((agentType) => (
+                                      <SelectItem key={agentType} value={agentType} className="capitalize">{agentType}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+          {hasNextPage && (
+            <div className="text-center">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage} data-testid="load-more-jobs">
+                {isFetchingNextPage ? "Loading..." : "Load More"}
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
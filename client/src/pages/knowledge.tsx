@@ -119,13 +119,11 @@ export default function Knowledge() {
     }
 
     createKnowledgeMutation.mutate({
-      orgId: "org-1", // Mock org ID
       title: uploadTitle,
       sourceType: "url",
       url: uploadUrl,
       tags: uploadTags.split(",").map(t => t.trim()).filter(Boolean),
       lang: uploadLang,
-      status: "queued"
     });
   };
 
@@ -4,12 +4,106 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import type { TwoFactorEnrollment } from "@/types";
+
+// Errors the OIDC callback reports back through /login?error=
+const ssoErrors: Record<string, string> = {
+  sso_failed: 'No se pudo completar el inicio de sesión con SSO.',
+  account_disabled: 'Tu cuenta está desactivada. Contacta a un administrador.',
+  account_locked: 'Tu cuenta está bloqueada temporalmente por intentos fallidos. Intenta más tarde.',
+  sso_email_unverified: 'Tu proveedor de identidad no confirmó tu email.',
+  sso_not_member: 'Tu cuenta no pertenece a esta organización. Pide que te inviten.',
+};
+
+const mfaErrors: Record<string, string> = {
+  invalid_code: 'Código inválido. Intenta de nuevo.',
+  mfa_expired: 'La verificación expiró. Vuelve a iniciar sesión.',
+};
+
+// Shown when the account is locked out after too many failed attempts
+function lockedMessage(retryAfter: number) {
+  const minutes = Math.max(1, Math.ceil(retryAfter / 60));
+  return `Demasiados intentos fallidos. Intenta de nuevo en ${minutes} ${minutes === 1 ? 'minuto' : 'minutos'}.`;
+}
+
+// password -> (verify | enroll -> recovery) -> dashboard
+type Step = 'password' | 'verify' | 'enroll' | 'recovery';
+
+async function postJson(url: string, body?: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: 'include'
+  });
+  return { ok: response.ok, data: await response.json() };
+}
 
 export default function Login() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [error, setError] = useState<string | null>(null);
+  const [workspace, setWorkspace] = useState("");
+  const [error, setError] = useState<string | null>(() => {
+    const code = new URLSearchParams(window.location.search).get('error');
+    return code ? ssoErrors[code] || code : null;
+  });
   const [loading, setLoading] = useState(false);
+  const [step, setStep] = useState<Step>('password');
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+  const failMfa = (data: any) => {
+    setCode("");
+    setError(data.error === 'locked'
+      ? lockedMessage(data.retryAfter)
+      : mfaErrors[data.error] || data.error || 'No se pudo verificar el código');
+    if (data.error === 'mfa_expired') {
+      setStep('password');
+    }
+  };
+
+  const startEnrollment = async () => {
+    const { ok, data } = await postJson('/auth/2fa/enroll');
+    if (ok) {
+      setEnrollment(data);
+      setStep('enroll');
+    } else {
+      failMfa(data);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      const url = step === 'enroll' ? '/auth/2fa/enroll/confirm' : '/auth/2fa/verify';
+      const { ok, data } = await postJson(url, { code });
+      if (!ok) {
+        failMfa(data);
+      } else if (data.recoveryCodes) {
+        // Shown once; the session is already open
+        setRecoveryCodes(data.recoveryCodes);
+        setStep('recovery');
+      } else {
+        window.location.href = '/';
+      }
+    } catch (err) {
+      setError('Error de conexión. Por favor intenta de nuevo.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSso = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Full-page navigation: the server redirects to the organization's IdP
+    window.location.href = `/auth/oidc/${encodeURIComponent(workspace.trim())}/login`;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,7 +122,12 @@ export default function Login() {
 
       const data = await response.json();
 
-      if (response.ok) {
+      if (response.ok && data.mfa === 'verify') {
+        setCode("");
+        setStep('verify');
+      } else if (response.ok && data.mfa === 'enroll') {
+        await startEnrollment();
+      } else if (response.ok) {
         // Redirect to dashboard after successful login
         window.location.href = '/';
       } else {
@@ -49,50 +148,176 @@ export default function Login() {
           <CardDescription>Iniciar sesión en tu cuenta</CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="partners@letsaitomate.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                disabled={loading}
-                data-testid="input-email"
-              />
+          {step === 'recovery' ? (
+            <div className="space-y-4" data-testid="recovery-codes">
+              <p className="text-sm text-muted-foreground">
+                Guarda estos códigos de recuperación en un lugar seguro. Cada uno sirve una sola vez
+                si pierdes acceso a tu app de autenticación.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted rounded p-3">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <Button className="w-full" onClick={() => { window.location.href = '/'; }} data-testid="button-continue">
+                Ya los guardé, continuar
+              </Button>
             </div>
+          ) : step !== 'password' ? (
+            <form onSubmit={handleVerify} className="space-y-4">
+              {step === 'enroll' && enrollment && (
+                <div className="space-y-2 text-sm">
+                  <p className="text-muted-foreground">
+                    Tu organización requiere verificación en dos pasos. Agrega esta cuenta a tu app de
+                    autenticación y escribe el código que muestra.
+                  </p>
+                  <a href={enrollment.otpauthUrl} className="text-primary underline">
+                    Abrir en la app de autenticación
+                  </a>
+                  <div className="font-mono break-all bg-muted rounded p-2" data-testid="totp-secret">
+                    {enrollment.secret}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="code">
+                  {useRecoveryCode ? 'Código de recuperación' : 'Código de verificación'}
+                </Label>
+                {useRecoveryCode ? (
+                  <Input
+                    id="code"
+                    placeholder="xxxxx-xxxxx"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    required
+                    disabled={loading}
+                    data-testid="input-recovery-code"
+                  />
+                ) : (
+                  <InputOTP
+                    id="code"
+                    maxLength={6}
+                    value={code}
+                    onChange={setCode}
+                    disabled={loading}
+                    autoFocus
+                    data-testid="input-otp"
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                )}
+              </div>
+
+              {error && (
+                <Alert variant="destructive" data-testid="alert-error">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loading || (!useRecoveryCode && code.length < 6)}
+                data-testid="button-verify"
+              >
+                {loading ? 'Verificando...' : 'Verificar'}
+              </Button>
+
+              {step === 'verify' && (
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full"
+                  onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(""); }}
+                  data-testid="button-toggle-recovery"
+                >
+                  {useRecoveryCode ? 'Usar código de la app' : 'Usar un código de recuperación'}
+                </Button>
+              )}
+            </form>
+          ) : (
+            <>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="partners@letsaitomate.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    disabled={loading}
+                    data-testid="input-email"
+                  />
+                </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="password">Contraseña</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Ingresa tu contraseña"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                disabled={loading}
-                data-testid="input-password"
-              />
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Contraseña</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Ingresa tu contraseña"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    disabled={loading}
+                    data-testid="input-password"
+                  />
+                </div>
+
+                {error && (
+                  <Alert variant="destructive" data-testid="alert-error">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button 
+                  type="submit" 
+                  className="w-full" 
+                  disabled={loading}
+                  data-testid="button-login"
+                >
+                  {loading ? 'Iniciando sesión...' : 'Entrar'}
+                </Button>
+              </form>
+
+              <div className="flex items-center gap-3 my-6">
+                <Separator className="flex-1" />
+                <span className="text-xs text-muted-foreground">o</span>
+                <Separator className="flex-1" />
+              </div>
 
-            {error && (
-              <Alert variant="destructive" data-testid="alert-error">
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
-            )}
-
-            <Button 
-              type="submit" 
-              className="w-full" 
-              disabled={loading}
-              data-testid="button-login"
-            >
-              {loading ? 'Iniciando sesión...' : 'Entrar'}
-            </Button>
-          </form>
+              <form onSubmit={handleSso} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="workspace">Workspace</Label>
+                  <Input
+                    id="workspace"
+                    placeholder="mi-empresa"
+                    value={workspace}
+                    onChange={(e) => setWorkspace(e.target.value)}
+                    required
+                    disabled={loading}
+                    data-testid="input-workspace"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  variant="outline"
+                  className="w-full"
+                  disabled={loading || !workspace.trim()}
+                  data-testid="button-sso"
+                >
+                  Continuar con SSO
+                </Button>
+              </form>
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
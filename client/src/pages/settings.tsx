@@ -2,7 +2,8 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { 
   Settings as SettingsIcon, Users, Shield, Flag, Clock, 
-  Save, Plus, Trash2, Eye, Edit 
+  Save, Plus, Eye, KeyRound, UserX, UserCheck, MonitorSmartphone, LogOut, ShieldCheck, ShieldOff,
+  History, LockOpen, Bot, X 
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -13,10 +14,13 @@ import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Textarea } from "@/components/ui/textarea";
-import { settingsApi } from "@/lib/api";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ApiKeysCard } from "@/components/api-keys-card";
+import { authApi, agentsApi, settingsApi, usersApi, sessionsApi, twoFactorApi } from "@/lib/api";
+import { useAuth, useCanPerform } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
-import { UserRole } from "@/types";
+import { UserRole, TwoFactorEnrollment } from "@/types";
 
 export default function Settings() {
   const [aiGatingEnabled, setAiGatingEnabled] = useState(true);
@@ -24,9 +28,24 @@ export default function Settings() {
   const [muteWindow, setMuteWindow] = useState(60);
   const [followupsEnabled, setFollowupsEnabled] = useState(true);
   const [maxFollowups, setMaxFollowups] = useState(3);
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteName, setInviteName] = useState("");
+  const [inviteRole, setInviteRole] = useState<UserRole>("viewer");
+  const [issuedPassword, setIssuedPassword] = useState<{ email: string; password: string } | null>(null);
+  const [tfaEnrollment, setTfaEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [tfaCode, setTfaCode] = useState("");
+  const [tfaRecoveryCodes, setTfaRecoveryCodes] = useState<string[] | null>(null);
+  const [tfaDisableOpen, setTfaDisableOpen] = useState(false);
+  const [historyUser, setHistoryUser] = useState<{ id: string; email: string } | null>(null);
+  const [newModel, setNewModel] = useState("");
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { data: auth } = useAuth();
+  const canManageUsers = useCanPerform("manage:users");
+  const canManageOrganization = useCanPerform("manage:organization");
+  const canManageApiKeys = useCanPerform("manage:api-keys");
 
   const { data: gatingSettings } = useQuery({
     queryKey: ["/api/settings/gating"],
@@ -43,6 +62,207 @@ export default function Settings() {
     queryFn: settingsApi.getAuditLogs,
   });
 
+  const { data: allowedModels } = useQuery({
+    queryKey: ["/api/agents/models"],
+    queryFn: agentsApi.getModels,
+  });
+
+  const { data: users = [], isLoading: usersLoading } = useQuery({
+    queryKey: ["/api/users"],
+    queryFn: usersApi.getAll,
+    enabled: canManageUsers,
+  });
+
+  // Every user change is audited server-side, so refresh both lists
+  const onUsersChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
+  const onUserActionError = (description: string) => () => {
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  // 2FA state lives on /auth/me; audit picks up enable/disable/enforce
+  const onTwoFactorChanged = () => {
+    setTfaCode("");
+    queryClient.invalidateQueries({ queryKey: ["/auth/me"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
+  const enrollTwoFactorMutation = useMutation({
+    mutationFn: twoFactorApi.enroll,
+    onSuccess: (enrollment) => {
+      setTfaCode("");
+      setTfaEnrollment(enrollment);
+    },
+    onError: onUserActionError("Failed to start two-factor setup."),
+  });
+
+  const confirmTwoFactorMutation = useMutation({
+    mutationFn: twoFactorApi.confirm,
+    onSuccess: (result) => {
+      onTwoFactorChanged();
+      setTfaEnrollment(null);
+      setTfaRecoveryCodes(result.recoveryCodes);
+    },
+    onError: onUserActionError("Invalid code. Check your authenticator app and try again."),
+  });
+
+  const disableTwoFactorMutation = useMutation({
+    mutationFn: twoFactorApi.disable,
+    onSuccess: () => {
+      onTwoFactorChanged();
+      setTfaDisableOpen(false);
+      toast({ title: "Two-Factor Disabled", description: "Your account no longer asks for a code." });
+    },
+    onError: onUserActionError("Invalid code, or your organization requires two-factor authentication."),
+  });
+
+  const requireTwoFactorMutation = useMutation({
+    mutationFn: (required: boolean) =>
+      authApi.updateOrganization(auth!.organization!.id, { requireTwoFactor: required }),
+    onSuccess: (_, required) => {
+      onTwoFactorChanged();
+      toast({
+        title: "Settings Saved",
+        description: required
+          ? "Members without two-factor will enroll on their next sign-in."
+          : "Two-factor authentication is now optional.",
+      });
+    },
+    onError: onUserActionError("Failed to update two-factor policy."),
+  });
+
+  const { data: sessions = [], isLoading: sessionsLoading } = useQuery({
+    queryKey: ["/api/sessions"],
+    queryFn: sessionsApi.getAll,
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: sessionsApi.revoke,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: "Session Revoked", description: "That device has been signed out." });
+    },
+    onError: onUserActionError("Failed to revoke session."),
+  });
+
+  // Agents can only be saved with a model from this list
+  const allowedModelsMutation = useMutation({
+    mutationFn: (models: string[]) =>
+      authApi.updateOrganization(auth!.organization!.id, { allowedModels: models }),
+    onSuccess: () => {
+      setNewModel("");
+      queryClient.invalidateQueries({ queryKey: ["/api/agents/models"] });
+      toast({ title: "Settings Saved", description: "Allowed models updated." });
+    },
+    onError: onUserActionError("Failed to update allowed models."),
+  });
+
+  const revokeAllSessionsMutation = useMutation({
+    mutationFn: sessionsApi.revokeAll,
+    onSuccess: () => {
+      // This browser's session is gone too
+      window.location.href = "/login";
+    },
+    onError: onUserActionError("Failed to sign out everywhere."),
+  });
+
+  const inviteUserMutation = useMutation({
+    mutationFn: usersApi.invite,
+    onSuccess: (user) => {
+      onUsersChanged();
+      setInviteOpen(false);
+      setInviteEmail("");
+      setInviteName("");
+      setInviteRole("viewer");
+      if (user.pending) {
+        toast({
+          title: "Invitation Sent",
+          description: `${user.email} already has an account and joins once they accept the invitation.`,
+        });
+      } else if (user.temporaryPassword) {
+        setIssuedPassword({ email: user.email, password: user.temporaryPassword });
+      } else {
+        toast({
+          title: "User Added",
+          description: `${user.email} now has access to this organization.`,
+        });
+      }
+    },
+    onError: onUserActionError("Failed to invite user. They may already be a member."),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: UserRole }) => usersApi.updateRole(id, role),
+    onSuccess: () => {
+      onUsersChanged();
+      toast({
+        title: "Role Updated",
+        description: "The new role applies to the user's next action.",
+      });
+    },
+    onError: onUserActionError("Failed to change role. An organization needs at least one admin."),
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) =>
+      active ? usersApi.activate(id) : usersApi.deactivate(id),
+    onSuccess: (user) => {
+      onUsersChanged();
+      toast({
+        title: user.is_active ? "User Reactivated" : "User Deactivated",
+        description: user.email,
+      });
+    },
+    onError: onUserActionError("Failed to update user status."),
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: ({ id }: { id: string; email: string }) => usersApi.resetPassword(id),
+    onSuccess: (result, { email }) => {
+      onUsersChanged();
+      setIssuedPassword({ email, password: result.temporaryPassword });
+    },
+    onError: onUserActionError("Failed to reset password."),
+  });
+
+  const { data: loginEvents = [], isLoading: loginEventsLoading } = useQuery({
+    queryKey: ["/api/users", historyUser?.id, "logins"],
+    queryFn: () => usersApi.getLogins(historyUser!.id),
+    enabled: historyUser !== null,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: usersApi.unlock,
+    onSuccess: (user) => {
+      onUsersChanged();
+      toast({ title: "User Unlocked", description: `${user.email} can sign in again.` });
+    },
+    onError: onUserActionError("Failed to unlock user."),
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: ({ id }: { id: string; email: string }) => usersApi.resetTwoFactor(id),
+    onSuccess: (_, { email }) => {
+      onUsersChanged();
+      toast({
+        title: "Two-Factor Reset",
+        description: `${email} was signed out and can enroll again on next sign-in.`,
+      });
+    },
+    onError: onUserActionError("Failed to reset two-factor authentication."),
+  });
+
+  const handleInvite = () => {
+    inviteUserMutation.mutate({
+      email: inviteEmail.trim(),
+      name: inviteName.trim() || undefined,
+      role: inviteRole,
+    });
+  };
+
   const updateGatingMutation = useMutation({
     mutationFn: settingsApi.updateGating,
     onSuccess: () => {
@@ -82,13 +302,6 @@ export default function Settings() {
     });
   };
 
-  // Mock data for users
-  const mockUsers = [
-    { id: "1", name: "Juan Díaz", email: "juan@incubadoragrowth.com", role: "admin" as UserRole, lastActive: "2024-01-15T16:45:00Z" },
-    { id: "2", name: "María García", email: "maria@incubadoragrowth.com", role: "operator" as UserRole, lastActive: "2024-01-15T15:30:00Z" },
-    { id: "3", name: "Carlos Rodriguez", email: "carlos@incubadoragrowth.com", role: "viewer" as UserRole, lastActive: "2024-01-15T14:20:00Z" }
-  ];
-
   const mockFeatureFlags = [
     { id: "ai_gating", name: "AI Gating", description: "Enable/disable AI responses", enabled: true },
     { id: "mcp_integration", name: "MCP Integration", description: "Model Context Protocol support", enabled: false },
@@ -96,21 +309,6 @@ export default function Settings() {
     { id: "webhook_retries", name: "Webhook Retries", description: "Automatic webhook retry mechanism", enabled: true }
   ];
 
-  const getRoleBadge = (role: UserRole) => {
-    const roleConfig = {
-      admin: { variant: "default", className: "bg-destructive text-destructive-foreground" },
-      operator: { variant: "secondary", className: "bg-primary text-primary-foreground" },
-      viewer: { variant: "outline", className: "" }
-    };
-
-    const config = roleConfig[role];
-    return (
-      <Badge variant={config.variant as any} className={config.className}>
-        {role}
-      </Badge>
-    );
-  };
-
   return (
     <div className="p-6 space-y-6 fade-in" data-testid="settings-page">
       {/* Header */}
@@ -122,10 +320,11 @@ export default function Settings() {
       </div>
 
       <Tabs defaultValue="gating" className="w-full">
-        <TabsList className="grid w-full grid-cols-6">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="gating">AI Gating</TabsTrigger>
           <TabsTrigger value="followups">Follow-ups</TabsTrigger>
           <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="security">Security</TabsTrigger>
           <TabsTrigger value="flags">Feature Flags</TabsTrigger>
           <TabsTrigger value="audit">Audit Log</TabsTrigger>
           <TabsTrigger value="billing">Billing</TabsTrigger>
@@ -356,7 +555,7 @@ export default function Settings() {
                   <Users className="h-5 w-5" />
                   <span>User Management</span>
                 </CardTitle>
-                <Button data-testid="invite-user">
+                <Button onClick={() => setInviteOpen(true)} disabled={!canManageUsers} data-testid="invite-user">
                   <Plus className="h-4 w-4 mr-2" />
                   Invite User
                 </Button>
@@ -368,41 +567,398 @@ export default function Settings() {
                   <TableRow>
                     <TableHead>User</TableHead>
                     <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead>Last Active</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {mockUsers.map((user) => (
-                    <TableRow key={user.id} data-testid={`user-${user.id}`}>
-                      <TableCell>
-                        <div>
-                          <div className="font-medium">{user.name}</div>
-                          <div className="text-sm text-muted-foreground">{user.email}</div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        {getRoleBadge(user.role)}
+                  {usersLoading && (
+                    <TableRow>
+                      <TableCell colSpan={5}>
+                        <div className="h-8 bg-muted animate-pulse rounded" />
                       </TableCell>
-                      <TableCell>
-                        <div className="text-sm text-muted-foreground">
-                          {new Date(user.lastActive).toLocaleString("es-AR", {
+                    </TableRow>
+                  )}
+                  {users.map((user) => {
+                    const isSelf = user.id === auth?.user?.id;
+                    return (
+                      <TableRow key={user.id} data-testid={`user-${user.id}`}>
+                        <TableCell>
+                          <div>
+                            <div className="font-medium">{user.name}</div>
+                            <div className="text-sm text-muted-foreground">{user.email}</div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={user.role}
+                            onValueChange={(role) => updateRoleMutation.mutate({ id: user.id, role: role as UserRole })}
+                            disabled={updateRoleMutation.isPending}
+                          >
+                            <SelectTrigger className="w-32" data-testid={`role-user-${user.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="admin">admin</SelectItem>
+                              <SelectItem value="operator">operator</SelectItem>
+                              <SelectItem value="viewer">viewer</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <Badge variant={user.is_active ? "outline" : "secondary"}>
+                              {user.is_active ? "Active" : "Deactivated"}
+                            </Badge>
+                            {user.two_factor_enabled && <Badge variant="outline">2FA</Badge>}
+                            {user.locked_until && <Badge variant="destructive">Locked</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm text-muted-foreground">
+                            {user.last_login_at
+                              ? new Date(user.last_login_at).toLocaleString("es-AR", {
+                                  month: "short",
+                                  day: "numeric",
+                                  hour: "2-digit",
+                                  minute: "2-digit",
+                                })
+                              : "Never"}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end space-x-2">
+                            {user.locked_until && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Unlock"
+                                onClick={() => unlockMutation.mutate(user.id)}
+                                disabled={!user.manages_account || unlockMutation.isPending}
+                                data-testid={`unlock-user-${user.id}`}
+                              >
+                                <LockOpen className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Sign-in history"
+                              onClick={() => setHistoryUser({ id: user.id, email: user.email })}
+                              data-testid={`history-user-${user.id}`}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                            {user.two_factor_enabled && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Reset two-factor"
+                                onClick={() => resetTwoFactorMutation.mutate({ id: user.id, email: user.email })}
+                                disabled={isSelf || !user.manages_account || resetTwoFactorMutation.isPending}
+                                data-testid={`reset-2fa-user-${user.id}`}
+                              >
+                                <ShieldOff className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Reset password"
+                              onClick={() => resetPasswordMutation.mutate({ id: user.id, email: user.email })}
+                              disabled={!user.manages_account || resetPasswordMutation.isPending}
+                              data-testid={`reset-password-user-${user.id}`}
+                            >
+                              <KeyRound className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title={user.is_active ? "Deactivate" : "Reactivate"}
+                              onClick={() => toggleActiveMutation.mutate({ id: user.id, active: !user.is_active })}
+                              disabled={isSelf || !user.manages_account || toggleActiveMutation.isPending}
+                              data-testid={`toggle-user-${user.id}`}
+                            >
+                              {user.is_active ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Invite User</DialogTitle>
+                <DialogDescription>
+                  New accounts get a temporary password you can share with them.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    data-testid="invite-email"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="invite-name">Name</Label>
+                  <Input
+                    id="invite-name"
+                    value={inviteName}
+                    onChange={(e) => setInviteName(e.target.value)}
+                    data-testid="invite-name"
+                  />
+                </div>
+                <div>
+                  <Label>Role</Label>
+                  <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as UserRole)}>
+                    <SelectTrigger data-testid="invite-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="admin">admin</SelectItem>
+                      <SelectItem value="operator">operator</SelectItem>
+                      <SelectItem value="viewer">viewer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={handleInvite}
+                  disabled={!inviteEmail.trim() || inviteUserMutation.isPending}
+                  data-testid="send-invite"
+                >
+                  {inviteUserMutation.isPending ? "Inviting..." : "Invite"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={!!issuedPassword} onOpenChange={(open) => !open && setIssuedPassword(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Temporary Password</DialogTitle>
+                <DialogDescription>
+                  Share it with {issuedPassword?.email}. It will not be shown again.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="bg-muted p-3 rounded font-mono text-sm break-all" data-testid="temporary-password">
+                {issuedPassword?.password}
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={historyUser !== null} onOpenChange={(open) => !open && setHistoryUser(null)}>
+            <DialogContent className="max-w-3xl">
+              <DialogHeader>
+                <DialogTitle>Sign-in History</DialogTitle>
+                <DialogDescription>Last 50 sign-in attempts for {historyUser?.email}</DialogDescription>
+              </DialogHeader>
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>IP Address</TableHead>
+                      <TableHead>Device</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loginEventsLoading && (
+                      <TableRow>
+                        <TableCell colSpan={5}>
+                          <div className="h-8 bg-muted animate-pulse rounded" />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {!loginEventsLoading && loginEvents.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          No sign-in attempts recorded
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {loginEvents.map((event) => (
+                      <TableRow key={event.id} data-testid={`login-event-${event.id}`}>
+                        <TableCell className="text-sm">
+                          {new Date(event.created_at).toLocaleString("es-AR", {
                             month: "short",
                             day: "numeric",
                             hour: "2-digit",
                             minute: "2-digit",
                           })}
+                        </TableCell>
+                        <TableCell className="text-sm">{event.method}</TableCell>
+                        <TableCell>
+                          <Badge variant={event.result === "success" ? "outline" : "destructive"}>
+                            {event.result.replace(/_/g, " ")}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{event.ip || "—"}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground truncate max-w-xs" title={event.user_agent ?? undefined}>
+                          {event.user_agent || "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </TabsContent>
+
+        <TabsContent value="security" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <ShieldCheck className="h-5 w-5" />
+                <span>Two-Factor Authentication</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Label>Authenticator app</Label>
+                    <Badge variant={auth?.user?.twoFactorEnabled ? "outline" : "secondary"}>
+                      {auth?.user?.twoFactorEnabled ? "Enabled" : "Disabled"}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Ask for a 6-digit code from an authenticator app after your password
+                  </p>
+                </div>
+                {auth?.user?.twoFactorEnabled ? (
+                  <Button
+                    variant="outline"
+                    onClick={() => { setTfaCode(""); setTfaDisableOpen(true); }}
+                    disabled={auth?.organization?.requireTwoFactor}
+                    data-testid="disable-2fa"
+                  >
+                    Disable
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => enrollTwoFactorMutation.mutate()}
+                    disabled={enrollTwoFactorMutation.isPending}
+                    data-testid="enable-2fa"
+                  >
+                    Enable
+                  </Button>
+                )}
+              </div>
+
+              {canManageOrganization && auth?.organization && (
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <Label>Require for all members</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {auth.user?.twoFactorEnabled
+                        ? `Password sign-ins to ${auth.organization.name} must pass a second factor`
+                        : "Enable two-factor on your own account before enforcing it"}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={auth.organization.requireTwoFactor}
+                    onCheckedChange={(checked) => requireTwoFactorMutation.mutate(checked)}
+                    disabled={!auth.user?.twoFactorEnabled || requireTwoFactorMutation.isPending}
+                    data-testid="require-2fa"
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center space-x-2">
+                  <MonitorSmartphone className="h-5 w-5" />
+                  <span>Active Sessions</span>
+                </CardTitle>
+                <Button
+                  variant="outline"
+                  onClick={() => revokeAllSessionsMutation.mutate()}
+                  disabled={revokeAllSessionsMutation.isPending}
+                  data-testid="revoke-all-sessions"
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign Out Everywhere
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Device</TableHead>
+                    <TableHead>IP Address</TableHead>
+                    <TableHead>Signed In</TableHead>
+                    <TableHead>Last Active</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessionsLoading && (
+                    <TableRow>
+                      <TableCell colSpan={5}>
+                        <div className="h-8 bg-muted animate-pulse rounded" />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {sessions.map((session) => (
+                    <TableRow key={session.id} data-testid={`session-${session.id}`}>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm truncate max-w-xs" title={session.user_agent ?? undefined}>
+                            {session.user_agent || "Unknown device"}
+                          </span>
+                          {session.current && <Badge variant="outline">This device</Badge>}
                         </div>
                       </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{session.ip || "—"}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(session.created_at).toLocaleString("es-AR", {
+                          month: "short",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {session.last_used_at
+                          ? new Date(session.last_used_at).toLocaleString("es-AR", {
+                              month: "short",
+                              day: "numeric",
+                              hour: "2-digit",
+                              minute: "2-digit",
+                            })
+                          : "—"}
+                      </TableCell>
                       <TableCell className="text-right">
-                        <div className="flex items-center justify-end space-x-2">
-                          <Button variant="outline" size="sm" data-testid={`edit-user-${user.id}`}>
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button variant="outline" size="sm" data-testid={`delete-user-${user.id}`}>
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => revokeSessionMutation.mutate(session.id)}
+                          disabled={session.current || revokeSessionMutation.isPending}
+                          data-testid={`revoke-session-${session.id}`}
+                        >
+                          Revoke
+                        </Button>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -410,8 +966,98 @@ export default function Settings() {
               </Table>
             </CardContent>
           </Card>
+
+          {canManageApiKeys && <ApiKeysCard />}
         </TabsContent>
 
+        <Dialog open={tfaEnrollment !== null} onOpenChange={(open) => !open && setTfaEnrollment(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Set Up Two-Factor</DialogTitle>
+              <DialogDescription>
+                Add this account to your authenticator app, then enter the code it shows.
+              </DialogDescription>
+            </DialogHeader>
+            {tfaEnrollment && (
+              <div className="space-y-4">
+                <a href={tfaEnrollment.otpauthUrl} className="text-sm text-primary underline">
+                  Open in authenticator app
+                </a>
+                <div className="font-mono text-sm break-all bg-muted rounded p-2" data-testid="totp-secret">
+                  {tfaEnrollment.secret}
+                </div>
+                <InputOTP maxLength={6} value={tfaCode} onChange={setTfaCode} data-testid="input-otp">
+                  <InputOTPGroup>
+                    {Array.from({ length: 6 }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setTfaEnrollment(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => confirmTwoFactorMutation.mutate(tfaCode)}
+                disabled={tfaCode.length < 6 || confirmTwoFactorMutation.isPending}
+                data-testid="confirm-2fa"
+              >
+                Verify & Enable
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={tfaRecoveryCodes !== null} onOpenChange={(open) => !open && setTfaRecoveryCodes(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Recovery Codes</DialogTitle>
+              <DialogDescription>
+                Each code works once if you lose your authenticator. They will not be shown again.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted rounded p-3" data-testid="recovery-codes">
+              {tfaRecoveryCodes?.map((code) => (
+                <span key={code}>{code}</span>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button onClick={() => setTfaRecoveryCodes(null)}>I saved them</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={tfaDisableOpen} onOpenChange={setTfaDisableOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Disable Two-Factor</DialogTitle>
+              <DialogDescription>
+                Enter a code from your authenticator app or a recovery code to confirm.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              placeholder="123456"
+              value={tfaCode}
+              onChange={(e) => setTfaCode(e.target.value)}
+              data-testid="input-disable-2fa"
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setTfaDisableOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => disableTwoFactorMutation.mutate(tfaCode.trim())}
+                disabled={!tfaCode.trim() || disableTwoFactorMutation.isPending}
+              >
+                Disable
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         <TabsContent value="flags" className="space-y-6">
           <Card>
             <CardHeader>
@@ -519,6 +1165,58 @@ export default function Settings() {
         </TabsContent>
 
         <TabsContent value="billing" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Bot className="h-5 w-5" />
+                <span>Allowed Models</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Models agents may be configured with. Budgets are set per agent in Agents → Params.
+              </p>
+              <div className="flex flex-wrap gap-2" data-testid="allowed-models">
+                {allowedModels?.models.map((model) => (
+                  <Badge key={model} variant="outline" className="font-mono">
+                    {model}
+                    {canManageOrganization && allowedModels.models.length > 1 && (
+                      <button
+                        className="ml-1"
+                        onClick={() => allowedModelsMutation.mutate(allowedModels.models.filter((m) => m !== model))}
+                        disabled={allowedModelsMutation.isPending}
+                        aria-label={`Remove ${model}`}
+                        data-testid={`remove-model-${model}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </Badge>
+                ))}
+              </div>
+              {canManageOrganization && auth?.organization && (
+                <div className="flex items-center space-x-2">
+                  <Input
+                    placeholder="e.g. gpt-4o-mini"
+                    value={newModel}
+                    onChange={(e) => setNewModel(e.target.value)}
+                    className="w-64 font-mono"
+                    data-testid="new-model-input"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => allowedModelsMutation.mutate([...(allowedModels?.models ?? []), newModel.trim()])}
+                    disabled={!newModel.trim() || allowedModels?.models.includes(newModel.trim()) || allowedModelsMutation.isPending}
+                    data-testid="add-model"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Model
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
@@ -23,41 +23,167 @@ export type {
   LinkedinJob,
 } from "@shared/schema";
 
+// Shapes of the n8n-backed endpoints, validated by the BFF (shared/contracts.ts)
+export type {
+  FunnelStage,
+  AgentPerformance,
+  AgentsReport,
+  FunnelReport,
+  CostsReport,
+  OpsReport,
+  ConversationAction,
+  ConversationDetail,
+  AgentParams,
+  AgentConfigResponse,
+  UpdateAgent,
+  ExperimentVariant,
+  CreateExperiment,
+  AgentTestResult,
+  EvalAssertion,
+  TestCaseInput,
+  ConversationStage,
+  ConversationMessage,
+  PlaygroundTurnInput,
+  JobsQueryInput,
+  JobFilterInput,
+  BulkJobActionInput,
+  LeadVariables,
+  PromptSnippetInput,
+  UpdatePromptSnippet,
+  KnowledgeItemResponse,
+  CreateKnowledge,
+  UpdateKnowledge,
+  KnowledgeSearchResult,
+  IntegrationStatus,
+  N8NStatus,
+  ChatwootTestResult,
+  HeyReachTestResult,
+  GatingSettings,
+  FollowupSettings,
+  WebhookLogEntry,
+  AuditLogEntry,
+} from "@shared/contracts";
+
+import type { ApiKeyScope } from "@shared/permissions";
+import type { AgentTestResult, ConversationMessage, ConversationStage, EvalAssertion, ExperimentVariant } from "@shared/contracts";
+import type { SchemaIssue } from "@shared/outputSchema";
+import type { PromptVariables, TemplateIssue } from "@shared/promptTemplate";
+
+export type { SchemaIssue, TemplateIssue };
+
 // Auth state
 export interface AuthState {
   user?: {
+    id: string;
+    name: string;
     email: string;
     role: string;
+    roles: string[];
+    twoFactorEnabled: boolean;
   };
   organization?: {
     id: string;
     name: string;
     slug: string;
-  };
+    timezone: string;
+    requireTwoFactor: boolean;
+  } | null;
   isAuthenticated?: boolean;
 }
 
-// Settings types
-export interface GatingSettings {
-  hrLeadsAiEnabled: boolean;
-  externalLeadsAiEnabled: boolean;
-  muteWindow: number;
+// Organization the current user belongs to (GET /api/orgs)
+export interface OrganizationMembership {
+  id: string;
+  name: string;
+  slug: string;
+  timezone: string;
+  role: UserRole;
+  active: boolean;
+  created_at: string;
+}
+
+export interface OrganizationMember {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  is_active: boolean;
+  last_login_at: string | null;
+  two_factor_enabled: boolean;
+  // Set while the account is locked out after repeated failed sign-ins
+  locked_until: string | null;
+  joined_at: string;
+  // Whether this is the user's home organization, the only one that can reset
+  // their password, lock state or 2FA and (de)activate them
+  manages_account: boolean;
+}
+
+// One sign-in attempt (GET /api/users/:id/logins)
+export interface LoginEvent {
+  id: string;
+  email: string;
+  method: "password" | "totp" | "sso";
+  result: "success" | "invalid_password" | "unknown_user" | "locked" | "invalid_code" | "disabled" | "unverified_email" | "not_member";
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+// Returned once when an account is created or its password is reset
+export interface InvitedUser extends OrganizationMember {
+  temporaryPassword?: string;
+  pending?: false;
+}
+
+// An existing account was invited and joins once its owner accepts
+export interface PendingInvite {
+  email: string;
+  role: UserRole;
+  pending: true;
 }
 
-export interface FollowupSettings {
-  enabled: boolean;
-  maxFollowups: number;
-  delayHours: number;
+// Invitation to the current user from another organization (GET /api/orgs/invitations)
+export interface OrganizationInvitation {
+  org_id: string;
+  org_name: string;
+  org_slug: string;
+  role: UserRole;
+  invited_by: string | null;
+  created_at: string;
 }
 
-// Reports data structure
-export interface ReportsData {
-  stages?: FunnelStage[];
-  byAgent?: AgentPerformance[];
-  webhookErrors?: number;
-  avgLatency?: number;
-  rateLimits?: number;
-  uptime?: number;
+// TOTP enrollment started from Settings or from a challenged login
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// Machine credential for scripts and n8n (GET /api/api-keys)
+export interface ApiKey {
+  id: string;
+  name: string;
+  display_prefix: string;
+  scopes: ApiKeyScope[];
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  created_by_email?: string | null;
+}
+
+// Returned once on creation
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+export interface AuthSession {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string;
+  current: boolean;
 }
 
 export interface KpiData {
@@ -93,31 +219,222 @@ export interface SystemHealth {
   };
 }
 
-export interface AgentTestResult {
-  success: boolean;
-  output: any;
-  tokensUsed: number;
+// One immutable entry of an agent's history (GET /api/agents/:agentType/versions)
+export interface AgentVersion {
+  id: string;
+  agentType: AgentType;
+  version: string;
+  system: string;
+  outputSchema: Record<string, unknown> | null;
+  paramsJson: Record<string, unknown> | null;
+  changelog: string | null;
+  // Only published versions have ever been served to n8n
+  status: AgentVersionStatus;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: string;
+  reviewRequestedAt: string | null;
+  reviewedBy: string | null;
+  reviewedByName: string | null;
+  reviewedAt: string | null;
+}
+
+export type AgentVersionStatus = "draft" | "in_review" | "published" | "rejected";
+
+// Review discussion on a version (GET /api/agents/:agentType/versions/:version/comments)
+export interface AgentVersionComment {
+  id: string;
+  versionId: string;
+  body: string;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+// Month-to-date spend of one agent (GET /api/agents/:agentType/usage)
+export interface AgentUsage {
+  tokens: number;
   estimatedCost: number;
-  latency?: number;
+  budget: number | null;
+  since: string;
+}
+
+// GET /api/agents/:agentType/experiments
+export interface AgentExperiment {
+  id: string;
+  agentType: AgentType;
+  name: string;
+  status: "running" | "stopped";
+  variants: ExperimentVariant[];
+  createdByName: string | null;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+// Lift is relative to the first (control) variant; null when control has no successes
+export interface RateComparison {
+  lift: number | null;
+  significant: boolean;
+}
+
+export interface ExperimentVariantResult extends ExperimentVariant {
+  conversations: number;
+  qualified: number;
+  scheduled: number;
+  qualificationRate: number;
+  schedulingRate: number;
+  vsControl: { qualification: RateComparison; scheduling: RateComparison } | null;
+}
+
+export interface ExperimentResults {
+  experiment: AgentExperiment;
+  variants: ExperimentVariantResult[];
+}
+
+// POST /api/agents/:agentType/test; schemaViolations is null when the agent
+// has no output schema or the run failed
+export interface AgentTestResponse extends AgentTestResult {
+  schemaViolations: SchemaIssue[] | null;
+}
+
+// POST /api/agents/playground: one agent reply in a simulated conversation
+export interface PlaygroundTurn extends AgentTestResponse {
+  stage: ConversationStage;
+  // Published version that answered
+  version: string;
+  // What the lead would read, if the output has one
+  reply: string | null;
+  // next is the stage for the lead's next message, null once the scheduler is done
+  handoff: { complete: boolean; next: ConversationStage | null };
+}
+
+// A row of the job queue (GET /api/jobs). row_version goes back with
+// retry, cancel and reassign; a stale one gets 409.
+export interface QueueJob {
+  id: string;
+  user_id: string | null;
+  user_name: string;
+  status: string;
+  agent_type: string | null;
+  priority: number | null;
+  created_at: string;
+  updated_at: string | null;
+  processing_started_at: string | null;
+  retry_count: number;
+  finish_status: string | null;
+  chatwoot_conversation_id: string | null;
+  row_version: string;
+}
+
+// One page; counts are per status for the same filters, ignoring the status filter
+export interface JobsPage {
+  jobs: QueueJob[];
+  nextCursor: string | null;
+  counts: Record<string, number>;
+}
+
+// POST /api/jobs/bulk with dry_run: how many jobs the action would change
+export interface BulkJobPreview {
+  count: number;
+  sample: QueueJob[];
+}
+
+// A bulk run as started, and then as reported over /ws (bulk_job_progress)
+export interface BulkJobProgress {
+  id: string;
+  action: "retry" | "cancel" | "reassign";
+  agent_type: AgentType | null;
+  total: number;
+  processed: number;
+  updated: number;
+  // Jobs that no longer qualified when their batch ran
+  skipped: number;
+  status: "running" | "completed" | "failed";
   error?: string;
 }
 
-export interface AgentVersion {
+// POST /api/agents/:agentType/replay: a past conversation with the chosen
+// version's reply next to each original reply of that agent
+export interface JobReplay {
+  job: { id: string; status: string | null; agentType: string | null; createdAt: string };
+  agentType: AgentType;
   version: string;
+  // The agent's output stored on the job (result_json), if any
+  originalOutput: unknown;
+  messages: Array<ConversationMessage & {
+    at: string | null;
+    // Set on the replayed agent's replies
+    replay: (AgentTestResponse & { reply: string | null }) | null;
+  }>;
+  tokensUsed: number;
+}
+
+// Shared text agent prompts include with {{> name}} (GET /api/prompt-snippets)
+export interface PromptSnippet {
+  id: string;
+  name: string;
+  description: string | null;
+  body: string;
+  createdByName: string | null;
   createdAt: string;
-  createdBy: string;
-  system: string;
-  outputSchema: any;
-  paramsJson: any;
+  updatedAt: string;
 }
 
-export interface KnowledgeSearchResult {
+// POST /api/agents/:agentType/preview: tags without a value stay in text
+// and are listed in missing
+export interface RenderedPrompt {
+  text: string;
+  missing: string[];
+  issues: TemplateIssue[];
+  // Values used, the org's settings included
+  variables: PromptVariables;
+}
+
+// Saved eval case (GET /api/agents/:agentType/test-cases)
+export interface AgentTestCase {
   id: string;
-  title: string;
-  content: string;
+  agentType: AgentType;
+  name: string;
+  input: string;
+  assertions: EvalAssertion[];
+  createdByName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EvalRunSummary {
+  id: string;
+  agentType: AgentType;
+  version: string;
+  status: "running" | "completed" | "failed";
+  total: number;
+  passed: number;
+  failed: number;
+  error: string | null;
+  createdByName: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  name: string;
+  passed: boolean;
   score: number;
-  source: string;
-  metadata?: any;
+  assertions: (EvalAssertion & { passed: boolean; actual: unknown })[];
+  schemaViolations: SchemaIssue[];
+  output: unknown;
+  tokensUsed: number;
+  error?: string;
+  // Outcome in the latest completed run of the live version, null if not run there
+  baselinePassed: boolean | null;
+}
+
+// GET /api/agents/:agentType/evals/:id
+export interface EvalRun extends EvalRunSummary {
+  results: EvalCaseResult[];
+  baseline: EvalRunSummary | null;
+  regressions: number;
 }
 
 export interface ReportFilter {
@@ -128,60 +445,12 @@ export interface ReportFilter {
   campaign?: string;
 }
 
-export interface FunnelStage {
-  name: string;
-  count: number;
-  rate: number;
-  trend?: number;
-}
-
-export interface AgentPerformance {
-  agentType: string;
-  messages: number;
-  completionRate: number;
-  avgTokens: number;
-  avgLatency: number;
-  successRate: number;
-  cost: number;
-}
-
 export interface WebSocketMessage {
-  type: "live_update" | "job_update" | "conversation_update" | "system_alert";
+  type: "live_update" | "job_update" | "conversation_update" | "system_alert" | "bulk_job_progress";
   data: any;
   timestamp: string;
 }
 
-export interface IntegrationStatus {
-  chatwoot: {
-    connected: boolean;
-    lastCheck: string;
-    accountId?: string;
-    error?: string;
-  };
-  heyreach: {
-    connected: boolean;
-    lastCheck: string;
-    rateLimited?: boolean;
-    error?: string;
-  };
-  n8n: {
-    connected: boolean;
-    lastCheck: string;
-    workflows: Array<{
-      id: string;
-      name: string;
-      status: "active" | "inactive";
-      lastRun?: string;
-    }>;
-    error?: string;
-  };
-  mcp?: {
-    enabled: boolean;
-    endpoint?: string;
-    error?: string;
-  };
-}
-
 export interface BillingData {
   totalTokens: number;
   estimatedCost: number;
@@ -197,29 +466,6 @@ export interface BillingData {
   };
 }
 
-export interface AuditLogEntry {
-  id: string;
-  orgId: string;
-  actorUserId?: string;
-  actorName?: string;
-  action: string;
-  target: string;
-  beforeJson?: any;
-  afterJson?: any;
-  createdAt: string;
-}
-
-export interface WebhookLogEntry {
-  id: string;
-  orgId: string;
-  source: string;
-  eventId?: string;
-  status: "success" | "error" | "pending";
-  payloadJson?: any;
-  error?: string;
-  createdAt: string;
-}
-
 export type AgentType = "qualifier" | "closer" | "scheduler" | "objections" | "pooling" | "followups";
 export type JobStatus = "pending" | "processing" | "completed" | "failed" | "cancelled";
 export type KnowledgeStatus = "queued" | "embedding" | "ready" | "failed";
@@ -0,0 +1,301 @@
+import { and, asc, desc, eq, gte, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  agentConfigs,
+  agentConfigVersions,
+  agentTypeEnum,
+  agentUsage,
+  agentVersionComments,
+  defaultAgentModels,
+  organizations,
+  type AgentConfigVersion,
+} from "@shared/schema";
+import type { AgentParams, UpdateAgent } from "@shared/contracts";
+
+export type AgentType = (typeof agentTypeEnum.enumValues)[number];
+
+// Who saved a config, as recorded in its version history
+export interface AgentAuthor {
+  id: string;
+  name: string;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export function isAgentType(value: string): value is AgentType {
+  return (agentTypeEnum.enumValues as readonly string[]).includes(value);
+}
+
+// "1.0.3" -> "1.0.4"; anything unparseable restarts the series
+function nextVersion(version: string) {
+  const [major, minor, patch] = version.split(".").map(Number);
+  if ([major, minor, patch].some((part) => !Number.isInteger(part))) return "1.0.0";
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+// Shape served at /api/agents (see agentSchema in shared/contracts.ts)
+function toAgent(row: typeof agentConfigs.$inferSelect) {
+  return {
+    agentType: row.agentType,
+    system: row.system,
+    outputSchema: (row.outputSchema ?? null) as Record<string, unknown> | null,
+    paramsJson: (row.paramsJson ?? null) as Record<string, unknown> | null,
+    version: row.version,
+    createdBy: row.createdBy,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export async function listAgentConfigs(orgId: string) {
+  const rows = await db
+    .select()
+    .from(agentConfigs)
+    .where(eq(agentConfigs.orgId, orgId))
+    .orderBy(asc(agentConfigs.agentType));
+  return rows.map(toAgent);
+}
+
+export async function getAgentConfig(orgId: string, agentType: AgentType) {
+  const [row] = await db
+    .select()
+    .from(agentConfigs)
+    .where(and(eq(agentConfigs.orgId, orgId), eq(agentConfigs.agentType, agentType)));
+  return row ? toAgent(row) : null;
+}
+
+// Number for the next save of one agent: drafts count too, so it follows the
+// newest version in the history rather than the published config
+async function nextVersionFor(tx: Transaction | typeof db, orgId: string, agentType: AgentType) {
+  const [latest] = await tx
+    .select({ version: agentConfigVersions.version })
+    .from(agentConfigVersions)
+    .where(and(eq(agentConfigVersions.orgId, orgId), eq(agentConfigVersions.agentType, agentType)))
+    .orderBy(desc(agentConfigVersions.createdAt))
+    .limit(1);
+  return latest ? nextVersion(latest.version) : "1.0.0";
+}
+
+// Records a new draft version; nothing changes for n8n until it is approved.
+// Two saves racing for the same number hit the unique index (23505).
+export async function saveAgentDraft(orgId: string, agentType: AgentType, author: AgentAuthor, update: UpdateAgent) {
+  const [draft] = await db
+    .insert(agentConfigVersions)
+    .values({
+      orgId,
+      agentType,
+      version: await nextVersionFor(db, orgId, agentType),
+      system: update.system,
+      outputSchema: update.outputSchema,
+      paramsJson: update.paramsJson,
+      changelog: update.changelog || null,
+      createdBy: author.id,
+      createdByName: author.name,
+    })
+    .returning();
+  return toVersion(draft);
+}
+
+// Makes `target` the config n8n runs. Returns the config as it was before
+// (null if new) and after.
+async function publishVersion(tx: Transaction, target: AgentConfigVersion) {
+  const [current] = await tx
+    .select()
+    .from(agentConfigs)
+    .where(and(eq(agentConfigs.orgId, target.orgId), eq(agentConfigs.agentType, target.agentType)))
+    .for("update");
+
+  const values = {
+    system: target.system,
+    outputSchema: target.outputSchema,
+    paramsJson: target.paramsJson,
+    version: target.version,
+    createdBy: target.createdBy,
+    updatedAt: new Date(),
+  };
+  const [saved] = current
+    ? await tx
+        .update(agentConfigs)
+        .set(values)
+        .where(eq(agentConfigs.id, current.id))
+        .returning()
+    : await tx
+        .insert(agentConfigs)
+        .values({ ...values, orgId: target.orgId, agentType: target.agentType })
+        .returning();
+
+  return { before: current ? toAgent(current) : null, after: toAgent(saved) };
+}
+
+// Models the org's agents may use (organizations.allowed_models, or the defaults)
+export async function getAllowedModels(orgId: string) {
+  const [org] = await db
+    .select({ allowedModels: organizations.allowedModels })
+    .from(organizations)
+    .where(eq(organizations.id, orgId));
+  return org?.allowedModels?.length ? org.allowedModels : defaultAgentModels;
+}
+
+// Range checks live in agentParamsSchema; this is the per-org part. Returns
+// an error message, or null if the params may be saved.
+export async function checkAgentParams(orgId: string, params: AgentParams) {
+  if (params.model === undefined) return null;
+  const allowed = await getAllowedModels(orgId);
+  return allowed.includes(params.model)
+    ? null
+    : `Model "${params.model}" is not allowed for this organization (allowed: ${allowed.join(", ")})`;
+}
+
+function monthStart() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+// Tokens spent by one agent since the start of the calendar month (UTC),
+// production runs n8n reported and test runs alike, against its monthlyTokenBudget
+export async function getAgentUsage(orgId: string, agentType: AgentType) {
+  const since = monthStart();
+  const [[usage], config] = await Promise.all([
+    db
+      .select({
+        tokens: sql<number>`COALESCE(SUM(${agentUsage.tokens}), 0)::int`,
+        estimatedCost: sql<number>`COALESCE(SUM(${agentUsage.estimatedCost}), 0)::float`,
+      })
+      .from(agentUsage)
+      .where(and(eq(agentUsage.orgId, orgId), eq(agentUsage.agentType, agentType), gte(agentUsage.createdAt, since))),
+    getAgentConfig(orgId, agentType),
+  ]);
+  return {
+    tokens: usage.tokens,
+    estimatedCost: usage.estimatedCost,
+    budget: (config?.paramsJson as AgentParams | null)?.monthlyTokenBudget ?? null,
+    since: since.toISOString(),
+  };
+}
+
+export async function recordAgentUsage(
+  orgId: string,
+  agentType: AgentType,
+  source: "production" | "test",
+  tokens: number,
+  estimatedCost?: number,
+) {
+  await db.insert(agentUsage).values({ orgId, agentType, source, tokens, estimatedCost });
+}
+
+function toVersion(row: AgentConfigVersion) {
+  return {
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    reviewRequestedAt: row.reviewRequestedAt?.toISOString() ?? null,
+    reviewedAt: row.reviewedAt?.toISOString() ?? null,
+  };
+}
+
+// Full history of one agent's config, newest first
+export async function listAgentVersions(orgId: string, agentType: AgentType) {
+  const rows = await db
+    .select()
+    .from(agentConfigVersions)
+    .where(and(eq(agentConfigVersions.orgId, orgId), eq(agentConfigVersions.agentType, agentType)))
+    .orderBy(desc(agentConfigVersions.createdAt));
+  return rows.map(toVersion);
+}
+
+export async function findAgentVersion(orgId: string, agentType: AgentType, version: string) {
+  const [row] = await db
+    .select()
+    .from(agentConfigVersions)
+    .where(and(
+      eq(agentConfigVersions.orgId, orgId),
+      eq(agentConfigVersions.agentType, agentType),
+      eq(agentConfigVersions.version, version),
+    ));
+  return row ?? null;
+}
+
+function insertComment(tx: Transaction | typeof db, target: AgentConfigVersion, author: AgentAuthor, body: string) {
+  return tx
+    .insert(agentVersionComments)
+    .values({ orgId: target.orgId, versionId: target.id, body, createdBy: author.id, createdByName: author.name })
+    .returning();
+}
+
+// Moves a draft into review. Returns null if it is no longer a draft.
+export async function requestAgentReview(target: AgentConfigVersion) {
+  const [row] = await db
+    .update(agentConfigVersions)
+    .set({ status: "in_review", reviewRequestedAt: new Date() })
+    .where(and(eq(agentConfigVersions.id, target.id), eq(agentConfigVersions.status, "draft")))
+    .returning();
+  return row ? toVersion(row) : null;
+}
+
+// Approves a version under review and publishes it, with the reviewer's
+// optional comment. Returns null if it is no longer under review.
+export async function approveAgentVersion(target: AgentConfigVersion, reviewer: AgentAuthor, comment?: string) {
+  return db.transaction(async (tx) => {
+    const [approved] = await tx
+      .update(agentConfigVersions)
+      .set({ status: "published", reviewedBy: reviewer.id, reviewedByName: reviewer.name, reviewedAt: new Date() })
+      .where(and(eq(agentConfigVersions.id, target.id), eq(agentConfigVersions.status, "in_review")))
+      .returning();
+    if (!approved) return null;
+
+    if (comment) await insertComment(tx, approved, reviewer, comment);
+    return publishVersion(tx, approved);
+  });
+}
+
+// Sends a version under review back with the reviewer's reason. Returns null
+// if it is no longer under review.
+export async function rejectAgentVersion(target: AgentConfigVersion, reviewer: AgentAuthor, comment: string) {
+  return db.transaction(async (tx) => {
+    const [rejected] = await tx
+      .update(agentConfigVersions)
+      .set({ status: "rejected", reviewedBy: reviewer.id, reviewedByName: reviewer.name, reviewedAt: new Date() })
+      .where(and(eq(agentConfigVersions.id, target.id), eq(agentConfigVersions.status, "in_review")))
+      .returning();
+    if (!rejected) return null;
+
+    await insertComment(tx, rejected, reviewer, comment);
+    return toVersion(rejected);
+  });
+}
+
+export async function listVersionComments(target: AgentConfigVersion) {
+  const rows = await db
+    .select()
+    .from(agentVersionComments)
+    .where(eq(agentVersionComments.versionId, target.id))
+    .orderBy(asc(agentVersionComments.createdAt));
+  return rows.map((row) => ({ ...row, createdAt: row.createdAt.toISOString() }));
+}
+
+export async function addVersionComment(target: AgentConfigVersion, author: AgentAuthor, body: string) {
+  const [row] = await insertComment(db, target, author, body);
+  return { ...row, createdAt: row.createdAt.toISOString() };
+}
+
+// Restores a previously published version by publishing its content as a
+// new version, so the history itself is never rewritten. It was approved
+// once, so it goes live without another review.
+export async function rollbackAgentConfig(orgId: string, target: AgentConfigVersion, author: AgentAuthor) {
+  return db.transaction(async (tx) => {
+    const [restored] = await tx
+      .insert(agentConfigVersions)
+      .values({
+        orgId,
+        agentType: target.agentType,
+        version: await nextVersionFor(tx, orgId, target.agentType),
+        system: target.system,
+        outputSchema: target.outputSchema,
+        paramsJson: target.paramsJson,
+        changelog: `Rolled back to v${target.version}`,
+        status: "published",
+        createdBy: author.id,
+        createdByName: author.name,
+      })
+      .returning();
+    return publishVersion(tx, restored);
+  });
+}
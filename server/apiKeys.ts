@@ -0,0 +1,76 @@
+import { createHash, randomBytes } from "crypto";
+import { pool } from "./db";
+import type { ApiKeyScope } from "@shared/permissions";
+
+// Keys look like "tramia_<secret>"; the prefix lets requireAuth tell them from JWTs
+export const API_KEY_PREFIX = "tramia_";
+// First characters kept in clear so admins can tell keys apart
+const DISPLAY_LENGTH = API_KEY_PREFIX.length + 6;
+
+export interface ApiKeyPrincipal {
+  id: string;
+  org_id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+// Keys carry 256 bits of entropy, so a fast hash is enough for lookup at rest
+function hashKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function isApiKey(token: string) {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+// Returns the plaintext key once; only its hash is stored
+export async function createApiKey(
+  orgId: string,
+  createdBy: string,
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresInDays?: number,
+) {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const { rows } = await pool.query(
+    `INSERT INTO public.api_keys(org_id, name, display_prefix, key_hash, scopes, created_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $7::int IS NULL THEN NULL ELSE NOW() + $7::int * interval '1 day' END)
+     RETURNING id, name, display_prefix, scopes, created_at, expires_at, last_used_at, last_used_ip`,
+    [orgId, name, key.slice(0, DISPLAY_LENGTH), hashKey(key), scopes, createdBy, expiresInDays ?? null]
+  );
+  return { apiKey: rows[0], key };
+}
+
+// Resolves a presented key and records its use; null when unknown, revoked or expired
+export async function authenticateApiKey(key: string, ip: string | undefined): Promise<ApiKeyPrincipal | null> {
+  const { rows } = await pool.query(
+    `UPDATE public.api_keys SET last_used_at = NOW(), last_used_ip = $2
+     WHERE key_hash = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())
+     RETURNING id, org_id, name, scopes`,
+    [hashKey(key), ip || null]
+  );
+  return rows[0] ?? null;
+}
+
+export async function listApiKeys(orgId: string) {
+  const { rows } = await pool.query(
+    `SELECT k.id, k.name, k.display_prefix, k.scopes, k.created_at, k.expires_at,
+            k.last_used_at, k.last_used_ip, u.email AS created_by_email
+     FROM public.api_keys k
+     LEFT JOIN public.admin_users u ON u.id = k.created_by
+     WHERE k.org_id = $1 AND k.revoked_at IS NULL
+     ORDER BY k.created_at DESC`,
+    [orgId]
+  );
+  return rows;
+}
+
+export async function revokeApiKey(orgId: string, id: string) {
+  const { rows } = await pool.query(
+    `UPDATE public.api_keys SET revoked_at = NOW()
+     WHERE id::text = $2 AND org_id = $1 AND revoked_at IS NULL
+     RETURNING id, name, display_prefix, scopes`,
+    [orgId, id]
+  );
+  return rows[0] ?? null;
+}
@@ -0,0 +1,46 @@
+import type { Request } from "express";
+import { pool } from "./db";
+import { getSession, getOrgId } from "./auth";
+
+function toJson(value: unknown) {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+// Appends an audit_logs entry on behalf of the caller, in their active org.
+// `action` reads as a sentence fragment: "<actor> <action> <target>".
+export async function recordAudit(
+  req: Request,
+  action: string,
+  target: string,
+  before?: unknown,
+  after?: unknown,
+) {
+  const session = getSession(req);
+  await pool.query(
+    `INSERT INTO audit_logs(org_id, actor_user_id, actor_name, action, target, before_json, after_json)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [getOrgId(req), session.sub, session.email, action, target, toJson(before), toJson(after)]
+  );
+}
+
+// Newest entries of one org's audit trail, shaped like the client's AuditLogEntry
+export async function listAuditLogs(orgId: string, limit = 100) {
+  const { rows } = await pool.query(
+    `SELECT id, actor_user_id, actor_name, action, target, before_json, after_json, created_at
+     FROM audit_logs
+     WHERE org_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [orgId, limit]
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    actorUserId: row.actor_user_id,
+    actorName: row.actor_name,
+    action: row.action,
+    target: row.target,
+    beforeJson: row.before_json,
+    afterJson: row.after_json,
+    createdAt: new Date(row.created_at).toISOString(),
+  }));
+}
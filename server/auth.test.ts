@@ -0,0 +1,164 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import cookieParser from "cookie-parser";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+
+const ORG = "org-1";
+
+// What the fake database answers: the caller's current membership role and
+// the scopes of the presented API key
+const state = { role: null as string | null, scopes: [] as string[] };
+
+function job(status: string) {
+  return { id: "7", status, agent_type: "qualifier", retry_count: 0, row_version: "v1", user_name: "Lead" };
+}
+
+// Answers by statement, just enough for the routes under test
+function answer(text: string) {
+  if (text.includes("auth_sessions")) return [{ "?column?": 1 }];
+  if (text.includes("UPDATE public.api_keys SET last_used_at")) return [{ id: "key-1", org_id: ORG, name: "ci", scopes: state.scopes }];
+  if (text.includes("FROM public.org_memberships WHERE user_id")) return state.role ? [{ org_id: ORG, role: state.role }] : [];
+  if (text.includes("FOR UPDATE")) return [job("pending")];
+  if (text.includes("UPDATE linkedin_jobs_incubadora")) return [job("cancelled")];
+  if (text.includes("api_keys SET revoked_at")) return [{ id: "key-2", name: "old", scopes: [] }];
+  if (text.includes("FROM org_memberships m")) {
+    return [{ id: 2, email: "member@example.com", role: "viewer", is_active: true, locked_until: new Date(Date.now() + 60_000), manages_account: true }];
+  }
+  return [];
+}
+
+vi.mock("./db", () => {
+  const query = async (text: string) => {
+    const rows = answer(text);
+    return { rows, rowCount: rows.length };
+  };
+  return { pool: { query, connect: async () => ({ query, release: () => {} }) }, db: {} };
+});
+
+process.env.SESSION_SECRET = "test-secret";
+
+const { default: jwt } = await import("jsonwebtoken");
+const { requireAuth, requireOrg, restrictApiKeys } = await import("./auth");
+const { registerRoutes } = await import("./routes");
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  // Same /api chain as server/index.ts
+  const app = express();
+  app.use(express.json());
+  app.use(cookieParser());
+  app.use("/api", requireAuth, requireOrg, restrictApiKeys);
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  state.role = null;
+  state.scopes = [];
+});
+
+// Signed in as a user whose token says `tokenRole`; the membership decides
+function asUser(tokenRole: string) {
+  const token = jwt.sign({ sub: "1", email: "me@example.com", role: tokenRole, org: ORG, sess: "s1" }, process.env.SESSION_SECRET!, {
+    issuer: "dashboard",
+  });
+  return { cookie: `sid=${token}` };
+}
+
+function asApiKey() {
+  return { authorization: "Bearer tramia_test" };
+}
+
+function call(method: string, path: string, headers: Record<string, string>, body?: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "content-type": "application/json", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const routes = {
+  cancelJob: ["POST", "/api/jobs/7/cancel", { row_version: "v1" }],
+  revokeApiKey: ["DELETE", "/api/api-keys/key-2", undefined],
+  unlockUser: ["POST", "/api/users/2/unlock", undefined],
+} as const;
+
+// Expected status per role; 403 comes from requirePermission
+const expected: Record<string, Record<keyof typeof routes, number>> = {
+  viewer: { cancelJob: 403, revokeApiKey: 403, unlockUser: 403 },
+  operator: { cancelJob: 200, revokeApiKey: 403, unlockUser: 403 },
+  admin: { cancelJob: 200, revokeApiKey: 200, unlockUser: 200 },
+};
+
+describe("requirePermission per role", () => {
+  for (const [role, statuses] of Object.entries(expected)) {
+    for (const [name, [method, path, body]] of Object.entries(routes)) {
+      const status = statuses[name as keyof typeof routes];
+      it(`${role} gets ${status} for ${method} ${path}`, async () => {
+        state.role = role;
+        const res = await call(method, path, asUser(role), body);
+        expect(res.status).toBe(status);
+      });
+    }
+  }
+
+  it("uses the current membership role, not the one in the token", async () => {
+    state.role = "viewer";
+    const demoted = await call("POST", "/api/jobs/7/cancel", asUser("admin"), { row_version: "v1" });
+    expect(demoted.status).toBe(403);
+
+    state.role = "operator";
+    const promoted = await call("POST", "/api/jobs/7/cancel", asUser("viewer"), { row_version: "v1" });
+    expect(promoted.status).toBe(200);
+  });
+
+  it("refuses users who are no longer members", async () => {
+    state.role = null;
+    const res = await call("POST", "/api/jobs/7/cancel", asUser("admin"), { row_version: "v1" });
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("API key scopes", () => {
+  it("allows writes the key is scoped for", async () => {
+    state.scopes = ["view:jobs", "manage:jobs"];
+    const res = await call("POST", "/api/jobs/7/cancel", asApiKey(), { row_version: "v1" });
+    expect(res.status).toBe(200);
+  });
+
+  it("refuses writes outside the key's scopes", async () => {
+    state.scopes = ["view:jobs"];
+    const res = await call("POST", "/api/jobs/7/cancel", asApiKey(), { row_version: "v1" });
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ error: "forbidden", permission: "manage:jobs" });
+  });
+
+  it("refuses reads without the area's view scope", async () => {
+    state.scopes = ["view:agents"];
+    const res = await call("GET", "/api/jobs", asApiKey());
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ permission: "view:jobs" });
+  });
+
+  it("takes report:usage, not edit:agents, to report production usage", async () => {
+    state.scopes = ["view:agents", "edit:agents"];
+    const res = await call("POST", "/api/agents/qualifier/usage", asApiKey(), { tokens: 100 });
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ permission: "report:usage" });
+  });
+
+  it("keeps workspace administration to users", async () => {
+    state.scopes = ["view:jobs", "manage:jobs"];
+    for (const [method, path, body] of [routes.revokeApiKey, routes.unlockUser]) {
+      const res = await call(method, path, asApiKey(), body);
+      expect(res.status).toBe(403);
+      expect(await res.json()).toMatchObject({ reason: "api_key_not_allowed" });
+    }
+  });
+});
@@ -0,0 +1,328 @@
+import type { Request, Response, NextFunction, CookieOptions } from "express";
+import type { IncomingMessage } from "http";
+import jwt from "jsonwebtoken";
+import { pool } from "./db";
+import { createSession, isSessionActive, REFRESH_TTL_MS } from "./sessions";
+import { authenticateApiKey, isApiKey } from "./apiKeys";
+import { can, type Permission, type ApiKeyScope } from "@shared/permissions";
+
+// Authentication constants and helpers
+export const JWT_COOKIE = 'sid';
+export const REFRESH_COOKIE = 'rt';
+// Password accepted, second factor pending (see setMfaChallenge)
+const MFA_COOKIE = 'mfa';
+const MFA_TTL_MS = 5 * 60 * 1000;
+// Access tokens are short-lived; /auth/refresh trades the refresh cookie for a new one
+const ACCESS_TTL_MS = 15 * 60 * 1000;
+
+const cookieOptions: CookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.NODE_ENV === 'production',
+  path: '/'
+};
+
+// Claims carried in the access JWT (see signToken)
+export interface SessionClaims {
+  sub: string;
+  email: string;
+  role: string;
+  org: string | null;
+  // auth_sessions.id, checked for revocation on every request
+  sess: string;
+  // Only set for API keys: the permissions granted instead of a role
+  scopes?: ApiKeyScope[];
+}
+
+// A user's seat in an organization (org_memberships row)
+export interface Membership {
+  org_id: string;
+  role: string;
+}
+
+export interface Identity {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    role: string;
+    roles: string[];
+    twoFactorEnabled: boolean;
+  };
+  organization: {
+    id: string;
+    name: string;
+    slug: string;
+    timezone: string;
+    requireTwoFactor: boolean;
+  } | null;
+}
+
+// What the holder of an MFA challenge may do next
+export interface MfaChallenge {
+  sub: string;
+  org: string | null;
+  step: 'verify' | 'enroll';
+}
+
+// The active organization and the role held in it travel in the token
+export function signToken(user: any, membership: Membership | null, sessionId: string) {
+  return jwt.sign(
+    {
+      sub: String(user.id),
+      email: user.email,
+      role: membership?.role ?? user.role,
+      org: membership?.org_id ?? null,
+      sess: sessionId,
+    },
+    process.env.SESSION_SECRET!,
+    { expiresIn: ACCESS_TTL_MS / 1000, issuer: 'dashboard' }
+  );
+}
+
+export function setSessionCookie(res: Response, token: string) {
+  res.cookie(JWT_COOKIE, token, {
+    ...cookieOptions,
+    maxAge: ACCESS_TTL_MS,
+  });
+}
+
+// The refresh cookie is only ever sent to /auth/*
+export function setRefreshCookie(res: Response, refreshToken: string) {
+  res.cookie(REFRESH_COOKIE, refreshToken, {
+    ...cookieOptions,
+    path: '/auth',
+    maxAge: REFRESH_TTL_MS,
+  });
+}
+
+export function clearSessionCookie(res: Response) {
+  res.clearCookie(JWT_COOKIE, cookieOptions);
+  res.clearCookie(REFRESH_COOKIE, { ...cookieOptions, path: '/auth' });
+}
+
+// Opens a server-side session for a freshly authenticated user and sets both cookies
+export async function startSession(req: Request, res: Response, user: any, membership: Membership | null) {
+  const { session, refreshToken } = await createSession(String(user.id), membership?.org_id ?? null, req);
+  setSessionCookie(res, signToken(user, membership, session.id));
+  setRefreshCookie(res, refreshToken);
+  return session;
+}
+
+// Issued after a correct password when the account (or the org) needs TOTP;
+// only /auth/2fa/* accepts it, and it never grants API access by itself.
+export function setMfaChallenge(res: Response, challenge: MfaChallenge) {
+  const sealed = jwt.sign(challenge, process.env.SESSION_SECRET!, {
+    expiresIn: MFA_TTL_MS / 1000,
+    issuer: 'dashboard-mfa',
+  });
+  res.cookie(MFA_COOKIE, sealed, { ...cookieOptions, path: '/auth/2fa', maxAge: MFA_TTL_MS });
+}
+
+export function readMfaChallenge(req: Request): MfaChallenge | null {
+  const raw = req.cookies[MFA_COOKIE];
+  if (!raw) return null;
+  try {
+    return jwt.verify(raw, process.env.SESSION_SECRET!, { issuer: 'dashboard-mfa' }) as MfaChallenge;
+  } catch {
+    return null;
+  }
+}
+
+export function clearMfaChallenge(res: Response) {
+  res.clearCookie(MFA_COOKIE, { ...cookieOptions, path: '/auth/2fa' });
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.headers['x-admin-key'] !== process.env.ADMIN_KEY) {
+    return res.sendStatus(403);
+  }
+  next();
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const bearer = (req.headers.authorization || '').replace(/^Bearer\s+/, '');
+  if (isApiKey(bearer)) {
+    try {
+      const key = await authenticateApiKey(bearer, req.ip);
+      if (!key) {
+        return res.status(401).json({ error: 'invalid_api_key' });
+      }
+      // Audit entries name the key as the actor
+      (req as any).user = {
+        sub: `apikey:${key.id}`,
+        email: `API key "${key.name}"`,
+        role: 'api',
+        org: key.org_id,
+        sess: '',
+        scopes: key.scopes,
+      } satisfies SessionClaims;
+      return next();
+    } catch (e) {
+      return next(e);
+    }
+  }
+  const raw = req.cookies[JWT_COOKIE] || bearer;
+  if (!raw) {
+    return res.status(401).json({ error: 'unauthorized' });
+  }
+  let claims: SessionClaims;
+  try {
+    claims = jwt.verify(raw, process.env.SESSION_SECRET!, { issuer: 'dashboard' }) as SessionClaims;
+  } catch {
+    return res.status(401).json({ error: 'unauthorized' });
+  }
+  try {
+    if (!claims.sess || !(await isSessionActive(claims.sess))) {
+      return res.status(401).json({ error: 'session_revoked' });
+    }
+  } catch (e) {
+    return next(e);
+  }
+  (req as any).user = claims;
+  next();
+}
+
+// Session behind a /ws upgrade, from the same access cookie as the API;
+// null when it is missing, invalid or revoked. API keys can't open sockets.
+export async function authenticateSocket(req: IncomingMessage): Promise<SessionClaims | null> {
+  const cookie = (req.headers.cookie || '').split(/;\s*/).find((pair) => pair.startsWith(`${JWT_COOKIE}=`));
+  if (!cookie) {
+    return null;
+  }
+  try {
+    const claims = jwt.verify(decodeURIComponent(cookie.slice(JWT_COOKIE.length + 1)), process.env.SESSION_SECRET!, { issuer: 'dashboard' }) as SessionClaims;
+    return claims.sess && (await isSessionActive(claims.sess)) ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+// Tenant guard for /api: every query and n8n call is scoped to the session org.
+// /api/me and /api/orgs stay reachable so users without a workspace can pick
+// or create one; the org routes check membership themselves. /api/sessions
+// only touches the caller's own sessions.
+export function requireOrg(req: Request, res: Response, next: NextFunction) {
+  if (req.path === '/me' || req.path.startsWith('/orgs') || req.path.startsWith('/sessions') || getSession(req).org) {
+    return next();
+  }
+  return res.status(403).json({ error: 'no_organization' });
+}
+
+// Read scope an API key needs per /api area. Areas not listed (users, orgs,
+// settings, sessions, keys themselves...) are reserved for signed-in users.
+const apiKeyReadScopes: Record<string, Permission> = {
+  '/conversations': 'view:conversations',
+  '/jobs': 'view:jobs',
+  '/agents': 'view:agents',
+  '/knowledge': 'view:knowledge',
+  '/reports': 'view:reports',
+  '/metrics': 'view:reports',
+};
+
+// Deny-by-default gate for API keys on /api; writes are then checked per route
+// by requirePermission against the key's scopes.
+export function restrictApiKeys(req: Request, res: Response, next: NextFunction) {
+  const { scopes } = getSession(req);
+  if (!scopes) {
+    return next();
+  }
+  const area = Object.keys(apiKeyReadScopes).find((prefix) => req.path.startsWith(prefix));
+  if (!area) {
+    return res.status(403).json({ error: 'forbidden', reason: 'api_key_not_allowed' });
+  }
+  const permission = apiKeyReadScopes[area];
+  if (req.method === 'GET' && !(scopes as string[]).includes(permission)) {
+    return res.status(403).json({ error: 'forbidden', permission });
+  }
+  next();
+}
+
+// RBAC guard for mutating routes, driven by the shared permission table.
+// The role in the access token is as of its last refresh, so for users it is
+// re-read from the membership: role changes and removals apply immediately.
+export function requirePermission(action: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const session = getSession(req);
+    let allowed: boolean;
+    try {
+      allowed = session?.scopes
+        ? (session.scopes as string[]).includes(action)
+        : can(session?.org ? (await findMembership(session.sub, session.org))?.role : null, action);
+    } catch (e) {
+      return next(e);
+    }
+    if (allowed) {
+      return next();
+    }
+    return res.status(403).json({ error: 'forbidden', permission: action });
+  };
+}
+
+// Claims of the authenticated caller; only valid behind requireAuth
+export function getSession(req: Request): SessionClaims {
+  return (req as any).user as SessionClaims;
+}
+
+// Active organization of the caller; only valid behind requireOrg
+export function getOrgId(req: Request): string {
+  return getSession(req).org!;
+}
+
+// Membership of userId in orgId, or in the user's home org (admin_users.org_id)
+// and then the oldest membership when orgId is not given.
+export async function findMembership(userId: string, orgId?: string | null): Promise<Membership | null> {
+  const { rows } = await pool.query(
+    orgId
+      ? `SELECT org_id, role FROM public.org_memberships WHERE user_id = $1 AND org_id = $2`
+      : `SELECT m.org_id, m.role
+         FROM public.org_memberships m
+         JOIN public.admin_users u ON u.id = m.user_id
+         WHERE m.user_id = $1
+         ORDER BY (m.org_id = u.org_id) DESC NULLS LAST, m.created_at
+         LIMIT 1`,
+    orgId ? [userId, orgId] : [userId]
+  );
+  return rows[0] ?? null;
+}
+
+// Loads the caller's admin_users row and active organization from the token.
+// Returns null when the user no longer exists or was deactivated.
+export async function loadIdentity(session: SessionClaims): Promise<Identity | null> {
+  if (session.scopes) {
+    return null;
+  }
+  const { rows } = await pool.query(
+    `SELECT u.id, u.email, u.name, COALESCE(m.role, u.role) AS role, u.totp_enabled_at,
+            o.id AS org_id, o.name AS org_name, o.slug AS org_slug, o.timezone AS org_timezone,
+            o.require_two_factor AS org_require_two_factor
+     FROM public.admin_users u
+     LEFT JOIN public.org_memberships m ON m.user_id = u.id AND m.org_id = $2
+     LEFT JOIN public.organizations o ON o.id = m.org_id
+     WHERE u.id = $1 AND u.is_active = TRUE`,
+    [session.sub, session.org ?? null]
+  );
+  const row = rows[0];
+  if (!row) {
+    return null;
+  }
+  return {
+    user: {
+      id: String(row.id),
+      name: row.name || row.email.split('@')[0],
+      email: row.email,
+      role: row.role,
+      roles: [row.role],
+      twoFactorEnabled: row.totp_enabled_at != null,
+    },
+    organization: row.org_id
+      ? {
+          id: row.org_id,
+          name: row.org_name,
+          slug: row.org_slug,
+          timezone: row.org_timezone,
+          requireTwoFactor: row.org_require_two_factor === true,
+        }
+      : null,
+  };
+}
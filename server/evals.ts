@@ -0,0 +1,273 @@
+import { isDeepStrictEqual } from "util";
+import { and, asc, desc, eq, ne } from "drizzle-orm";
+import { db } from "./db";
+import { callWebhook } from "./n8n";
+import { agentEvalRuns, agentTestCases, type AgentConfigVersion } from "@shared/schema";
+import { assertionPatternError, type AgentParams, type EvalAssertion, type TestCaseInput } from "@shared/contracts";
+import { checkOutput, parseAgentOutput, type SchemaIssue } from "@shared/outputSchema";
+import { getAgentConfig, getAgentUsage, recordAgentUsage, type AgentAuthor, type AgentType } from "./agents";
+
+export interface AssertionResult extends EvalAssertion {
+  passed: boolean;
+  actual: unknown;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  name: string;
+  passed: boolean;
+  // Share of assertions that held, 0..1
+  score: number;
+  assertions: AssertionResult[];
+  // Where the output breaks the version's outputSchema; any violation fails the case
+  schemaViolations: SchemaIssue[];
+  output: unknown;
+  tokensUsed: number;
+  error?: string;
+}
+
+function toTestCase(row: typeof agentTestCases.$inferSelect) {
+  return {
+    ...row,
+    assertions: row.assertions as EvalAssertion[],
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export type TestCase = ReturnType<typeof toTestCase>;
+
+function toEvalRun(row: typeof agentEvalRuns.$inferSelect) {
+  return {
+    id: row.id,
+    agentType: row.agentType,
+    version: row.version,
+    status: row.status,
+    total: row.total,
+    passed: row.passed,
+    failed: row.failed,
+    error: row.error,
+    createdByName: row.createdByName,
+    startedAt: row.startedAt.toISOString(),
+    finishedAt: row.finishedAt?.toISOString() ?? null,
+  };
+}
+
+export async function listTestCases(orgId: string, agentType: AgentType) {
+  const rows = await db
+    .select()
+    .from(agentTestCases)
+    .where(and(eq(agentTestCases.orgId, orgId), eq(agentTestCases.agentType, agentType)))
+    .orderBy(asc(agentTestCases.createdAt));
+  return rows.map(toTestCase);
+}
+
+export async function createTestCase(orgId: string, agentType: AgentType, author: AgentAuthor, input: TestCaseInput) {
+  const [row] = await db
+    .insert(agentTestCases)
+    .values({ ...input, orgId, agentType, createdBy: author.id, createdByName: author.name })
+    .returning();
+  return toTestCase(row);
+}
+
+// Returns null if the case is unknown
+export async function updateTestCase(orgId: string, agentType: AgentType, id: string, input: TestCaseInput) {
+  const [row] = await db
+    .update(agentTestCases)
+    .set({ ...input, updatedAt: new Date() })
+    .where(and(eq(agentTestCases.orgId, orgId), eq(agentTestCases.agentType, agentType), eq(agentTestCases.id, id)))
+    .returning();
+  return row ? toTestCase(row) : null;
+}
+
+export async function deleteTestCase(orgId: string, agentType: AgentType, id: string) {
+  const [row] = await db
+    .delete(agentTestCases)
+    .where(and(eq(agentTestCases.orgId, orgId), eq(agentTestCases.agentType, agentType), eq(agentTestCases.id, id)))
+    .returning();
+  return row ? toTestCase(row) : null;
+}
+
+// "matches" only looks at the start of long output, bounding the regex work
+const MAX_MATCHED_OUTPUT_LENGTH = 10_000;
+
+// "lead.tags.0" walks objects and array indexes; missing steps yield undefined
+function readPath(value: unknown, path: string) {
+  return path.split(".").reduce<unknown>(
+    (current, key) => (current !== null && typeof current === "object" ? (current as Record<string, unknown>)[key] : undefined),
+    value,
+  );
+}
+
+export function checkAssertion(output: unknown, assertion: EvalAssertion): AssertionResult {
+  const actual = readPath(output, assertion.path);
+  let passed: boolean;
+  switch (assertion.op) {
+    case "equals":
+      passed = isDeepStrictEqual(actual, assertion.value);
+      break;
+    case "not_equals":
+      passed = !isDeepStrictEqual(actual, assertion.value);
+      break;
+    case "contains":
+      passed = Array.isArray(actual)
+        ? actual.some((item) => isDeepStrictEqual(item, assertion.value))
+        : typeof actual === "string" && actual.toLowerCase().includes(String(assertion.value).toLowerCase());
+      break;
+    case "matches":
+      // Cases saved before patterns were restricted fail rather than run
+      passed = typeof actual === "string" && assertionPatternError(String(assertion.value)) === null &&
+        new RegExp(String(assertion.value)).test(actual.slice(0, MAX_MATCHED_OUTPUT_LENGTH));
+      break;
+    case "exists":
+      passed = actual !== undefined && actual !== null;
+      break;
+  }
+  return { ...assertion, passed, actual };
+}
+
+async function runCase(orgId: string, target: AgentConfigVersion, system: string, testCase: TestCase): Promise<EvalCaseResult> {
+  const { model, temperature, maxTokens } = (target.paramsJson ?? {}) as AgentParams;
+  const base = { caseId: testCase.id, name: testCase.name, schemaViolations: [], output: null, tokensUsed: 0 };
+  try {
+    const result = await callWebhook(
+      orgId,
+      "tramia-agents-test",
+      {
+        agentType: target.agentType,
+        input: testCase.input,
+        params: { model, temperature, maxTokens },
+        system,
+        outputSchema: (target.outputSchema ?? null) as Record<string, unknown> | null,
+      },
+      { timeoutMs: 60_000 },
+    );
+    if (result.tokensUsed > 0) {
+      await recordAgentUsage(orgId, target.agentType, "test", result.tokensUsed, result.estimatedCost);
+    }
+    if (!result.success) {
+      return { ...base, passed: false, score: 0, assertions: [], tokensUsed: result.tokensUsed, error: result.error || "Agent run failed" };
+    }
+
+    const output = parseAgentOutput(result.output);
+    const assertions = testCase.assertions.map((assertion) => checkAssertion(output, assertion));
+    const schemaViolations = target.outputSchema ? checkOutput(target.outputSchema as Record<string, unknown>, output) : [];
+    const held = assertions.filter((assertion) => assertion.passed).length;
+    return {
+      ...base,
+      passed: held === assertions.length && schemaViolations.length === 0,
+      score: assertions.length ? held / assertions.length : 0,
+      assertions,
+      schemaViolations,
+      output,
+      tokensUsed: result.tokensUsed,
+    };
+  } catch (e: any) {
+    return { ...base, passed: false, score: 0, assertions: [], error: e.message || "Agent run failed" };
+  }
+}
+
+// Runs the cases one at a time, saving progress after each so the UI can
+// poll the run. Stops early once the agent's monthly token budget is spent.
+async function executeRun(orgId: string, runId: string, target: AgentConfigVersion, system: string, cases: TestCase[]) {
+  const results: EvalCaseResult[] = [];
+  for (const testCase of cases) {
+    const usage = await getAgentUsage(orgId, target.agentType);
+    if (usage.budget !== null && usage.tokens >= usage.budget) {
+      await db
+        .update(agentEvalRuns)
+        .set({ status: "failed", error: "Monthly token budget exhausted", finishedAt: new Date() })
+        .where(eq(agentEvalRuns.id, runId));
+      return;
+    }
+
+    results.push(await runCase(orgId, target, system, testCase));
+    const passed = results.filter((result) => result.passed).length;
+    await db
+      .update(agentEvalRuns)
+      .set({ results, passed, failed: results.length - passed })
+      .where(eq(agentEvalRuns.id, runId));
+  }
+
+  await db
+    .update(agentEvalRuns)
+    .set({ status: "completed", finishedAt: new Date() })
+    .where(eq(agentEvalRuns.id, runId));
+}
+
+// Creates the run and executes it in the background; poll getEvalRun for
+// progress. `system` is the target's prompt rendered for the sample lead.
+export async function startEvalRun(orgId: string, target: AgentConfigVersion, system: string, cases: TestCase[], author: AgentAuthor) {
+  const [run] = await db
+    .insert(agentEvalRuns)
+    .values({
+      orgId,
+      agentType: target.agentType,
+      version: target.version,
+      total: cases.length,
+      createdBy: author.id,
+      createdByName: author.name,
+    })
+    .returning();
+
+  executeRun(orgId, run.id, target, system, cases).catch(async (e) => {
+    console.error(`eval run ${run.id} failed:`, e);
+    await db
+      .update(agentEvalRuns)
+      .set({ status: "failed", error: e.message || "Eval run failed", finishedAt: new Date() })
+      .where(eq(agentEvalRuns.id, run.id))
+      .catch(() => {});
+  });
+
+  return toEvalRun(run);
+}
+
+export async function listEvalRuns(orgId: string, agentType: AgentType) {
+  const rows = await db
+    .select()
+    .from(agentEvalRuns)
+    .where(and(eq(agentEvalRuns.orgId, orgId), eq(agentEvalRuns.agentType, agentType)))
+    .orderBy(desc(agentEvalRuns.startedAt))
+    .limit(20);
+  return rows.map(toEvalRun);
+}
+
+// One run with its per-case results, each compared with the latest completed
+// run of the live version: a case that passed there and fails here is a
+// regression. Returns null if the run is unknown.
+export async function getEvalRun(orgId: string, agentType: AgentType, id: string) {
+  const [run] = await db
+    .select()
+    .from(agentEvalRuns)
+    .where(and(eq(agentEvalRuns.orgId, orgId), eq(agentEvalRuns.agentType, agentType), eq(agentEvalRuns.id, id)));
+  if (!run) return null;
+
+  const live = await getAgentConfig(orgId, agentType);
+  const [baseline] = live
+    ? await db
+        .select()
+        .from(agentEvalRuns)
+        .where(and(
+          eq(agentEvalRuns.orgId, orgId),
+          eq(agentEvalRuns.agentType, agentType),
+          eq(agentEvalRuns.version, live.version),
+          eq(agentEvalRuns.status, "completed"),
+          ne(agentEvalRuns.id, run.id),
+        ))
+        .orderBy(desc(agentEvalRuns.startedAt))
+        .limit(1)
+    : [];
+
+  const baselineResults = (baseline?.results ?? []) as EvalCaseResult[];
+  const results = (run.results as EvalCaseResult[]).map((result) => {
+    const before = baselineResults.find((entry) => entry.caseId === result.caseId);
+    return { ...result, baselinePassed: before ? before.passed : null };
+  });
+
+  return {
+    ...toEvalRun(run),
+    results,
+    baseline: baseline ? toEvalRun(baseline) : null,
+    regressions: results.filter((result) => result.baselinePassed === true && !result.passed).length,
+  };
+}
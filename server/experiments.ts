@@ -0,0 +1,234 @@
+import { createHash } from "crypto";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { db, pool } from "./db";
+import { agentConfigVersions, agentExperimentAssignments, agentExperiments } from "@shared/schema";
+import type { AgentParams, CreateExperiment, ExperimentVariant } from "@shared/contracts";
+import { checkAgentParams, getAgentConfig, type AgentAuthor, type AgentType } from "./agents";
+
+// Shape served at /api/agents/:agentType/experiments
+function toExperiment(row: typeof agentExperiments.$inferSelect) {
+  return {
+    id: row.id,
+    agentType: row.agentType,
+    name: row.name,
+    status: row.status,
+    variants: row.variants as ExperimentVariant[],
+    createdByName: row.createdByName,
+    startedAt: row.startedAt.toISOString(),
+    endedAt: row.endedAt?.toISOString() ?? null,
+  };
+}
+
+async function findExperiment(orgId: string, agentType: AgentType, id: string) {
+  const [row] = await db
+    .select()
+    .from(agentExperiments)
+    .where(and(eq(agentExperiments.orgId, orgId), eq(agentExperiments.agentType, agentType), eq(agentExperiments.id, id)));
+  return row ?? null;
+}
+
+export async function listExperiments(orgId: string, agentType: AgentType) {
+  const rows = await db
+    .select()
+    .from(agentExperiments)
+    .where(and(eq(agentExperiments.orgId, orgId), eq(agentExperiments.agentType, agentType)))
+    .orderBy(desc(agentExperiments.startedAt));
+  return rows.map(toExperiment);
+}
+
+// Every variant must point at a published version whose model the org still
+// allows. Returns an error message, or null if the variants are usable.
+export async function checkExperimentVariants(orgId: string, agentType: AgentType, variants: ExperimentVariant[]) {
+  const versions = await db
+    .select({ version: agentConfigVersions.version, status: agentConfigVersions.status, paramsJson: agentConfigVersions.paramsJson })
+    .from(agentConfigVersions)
+    .where(and(
+      eq(agentConfigVersions.orgId, orgId),
+      eq(agentConfigVersions.agentType, agentType),
+      inArray(agentConfigVersions.version, variants.map((variant) => variant.version)),
+    ));
+
+  for (const variant of variants) {
+    const saved = versions.find((row) => row.version === variant.version);
+    if (!saved) {
+      return `Variant ${variant.key}: version ${variant.version} does not exist`;
+    }
+    // Experiments serve variants to n8n, so they go through review like any release
+    if (saved.status !== "published") {
+      return `Variant ${variant.key}: version ${variant.version} has not been published`;
+    }
+    const problem = await checkAgentParams(orgId, (saved.paramsJson ?? {}) as AgentParams);
+    if (problem) {
+      return `Variant ${variant.key}: ${problem}`;
+    }
+  }
+  return null;
+}
+
+// Starts right away; the partial unique index rejects a second running
+// experiment for the same agent (23505)
+export async function createExperiment(orgId: string, agentType: AgentType, author: AgentAuthor, input: CreateExperiment) {
+  const [row] = await db
+    .insert(agentExperiments)
+    .values({
+      orgId,
+      agentType,
+      name: input.name,
+      variants: input.variants,
+      createdBy: author.id,
+      createdByName: author.name,
+    })
+    .returning();
+  return toExperiment(row);
+}
+
+// Returns null if the experiment is unknown or already stopped
+export async function stopExperiment(orgId: string, agentType: AgentType, id: string) {
+  const [row] = await db
+    .update(agentExperiments)
+    .set({ status: "stopped", endedAt: new Date() })
+    .where(and(
+      eq(agentExperiments.orgId, orgId),
+      eq(agentExperiments.agentType, agentType),
+      eq(agentExperiments.id, id),
+      eq(agentExperiments.status, "running"),
+    ))
+    .returning();
+  return row ? toExperiment(row) : null;
+}
+
+// Hashing (rather than Math.random) means concurrent first requests for a
+// conversation land on the same variant
+function pickVariant(experimentId: string, conversationId: string, variants: ExperimentVariant[]) {
+  const bucket = createHash("sha256").update(`${experimentId}:${conversationId}`).digest().readUInt32BE(0) % 100;
+  let upTo = 0;
+  for (const variant of variants) {
+    upTo += variant.weight;
+    if (bucket < upTo) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+// The config n8n should run for one conversation: the sticky variant of the
+// running experiment, or the current config when nothing is running.
+// Returns null if the agent has no config at all.
+export async function resolveAgentConfig(orgId: string, agentType: AgentType, conversationId: string) {
+  const [experiment] = await db
+    .select()
+    .from(agentExperiments)
+    .where(and(
+      eq(agentExperiments.orgId, orgId),
+      eq(agentExperiments.agentType, agentType),
+      eq(agentExperiments.status, "running"),
+    ));
+  if (!experiment) {
+    const config = await getAgentConfig(orgId, agentType);
+    return config && { ...config, experimentId: null, variant: null };
+  }
+
+  const variants = experiment.variants as ExperimentVariant[];
+  await db
+    .insert(agentExperimentAssignments)
+    .values({
+      experimentId: experiment.id,
+      conversationId,
+      variant: pickVariant(experiment.id, conversationId, variants).key,
+    })
+    .onConflictDoNothing();
+
+  const [assignment] = await db
+    .select()
+    .from(agentExperimentAssignments)
+    .where(and(
+      eq(agentExperimentAssignments.experimentId, experiment.id),
+      eq(agentExperimentAssignments.conversationId, conversationId),
+    ));
+  const variant = variants.find((v) => v.key === assignment.variant) ?? variants[0];
+
+  const [config] = await db
+    .select()
+    .from(agentConfigVersions)
+    .where(and(
+      eq(agentConfigVersions.orgId, orgId),
+      eq(agentConfigVersions.agentType, agentType),
+      eq(agentConfigVersions.version, variant.version),
+    ));
+  return {
+    agentType,
+    system: config.system,
+    outputSchema: (config.outputSchema ?? null) as Record<string, unknown> | null,
+    paramsJson: (config.paramsJson ?? null) as Record<string, unknown> | null,
+    version: config.version,
+    experimentId: experiment.id,
+    variant: variant.key,
+  };
+}
+
+// Two-proportion z-test at 95%; too few conversations never count as significant
+function compareRates(successes: number, total: number, controlSuccesses: number, controlTotal: number) {
+  const rate = total ? successes / total : 0;
+  const controlRate = controlTotal ? controlSuccesses / controlTotal : 0;
+  const pooled = (successes + controlSuccesses) / ((total + controlTotal) || 1);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / (total || 1) + 1 / (controlTotal || 1)));
+  return {
+    lift: controlRate ? (rate - controlRate) / controlRate : null,
+    significant: total >= 30 && controlTotal >= 30 && standardError > 0 && Math.abs(rate - controlRate) / standardError >= 1.96,
+  };
+}
+
+// Qualification and scheduling rates per variant, from the outcomes n8n
+// writes to linkedin_jobs_incubadora.result_json after each assignment.
+// The first variant is the control the others are compared against.
+export async function getExperimentResults(orgId: string, agentType: AgentType, id: string) {
+  const experiment = await findExperiment(orgId, agentType, id);
+  if (!experiment) return null;
+
+  const { rows } = await pool.query(`
+    SELECT
+      a.variant,
+      count(*)::int AS conversations,
+      count(*) FILTER (WHERE o.qualified)::int AS qualified,
+      count(*) FILTER (WHERE o.scheduled)::int AS scheduled
+    FROM agent_experiment_assignments a
+    LEFT JOIN LATERAL (
+      SELECT
+        bool_or(
+          NULLIF(j.result_json->'qualifier_llm'->>'is_task_complete','')::boolean IS TRUE
+          OR lower(j.status) LIKE 'qualif%'
+        ) AS qualified,
+        bool_or(
+          NULLIF(j.result_json->'scheduler_llm'->>'is_task_complete','')::boolean IS TRUE
+          OR lower(j.status) LIKE 'schedul%' OR lower(j.status) LIKE 'booking%'
+        ) AS scheduled
+      FROM linkedin_jobs_incubadora j
+      WHERE j.org_id = $2
+        AND j.chatwoot_conversation_id::text = a.conversation_id
+        AND j.updated_at >= a.created_at
+    ) o ON TRUE
+    WHERE a.experiment_id = $1
+    GROUP BY a.variant
+  `, [id, orgId]);
+
+  const variants = experiment.variants as ExperimentVariant[];
+  const counts = (key: string) => rows.find((row) => row.variant === key) ?? { conversations: 0, qualified: 0, scheduled: 0 };
+  const control = counts(variants[0].key);
+
+  return {
+    experiment: toExperiment(experiment),
+    variants: variants.map((variant, index) => {
+      const { conversations, qualified, scheduled } = counts(variant.key);
+      return {
+        ...variant,
+        conversations,
+        qualified,
+        scheduled,
+        qualificationRate: conversations ? qualified / conversations : 0,
+        schedulingRate: conversations ? scheduled / conversations : 0,
+        vsControl: index === 0 ? null : {
+          qualification: compareRates(qualified, conversations, control.qualified, control.conversations),
+          scheduling: compareRates(scheduled, conversations, control.scheduled, control.conversations),
+        },
+      };
+    }),
+  };
+}
@@ -0,0 +1,370 @@
+import express, { type Request, type Response } from "express";
+import { randomUUID } from "crypto";
+import { pathToFileURL } from "url";
+import type { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { n8nContracts, type N8NWebhook, type N8NResponse, type AgentConfigResponse } from "@shared/contracts";
+import { agentTypeEnum } from "@shared/schema";
+
+// Stand-in for the real n8n: answers every tramia-* webhook from an
+// in-memory store, one per org, seeded with demo data. Handlers are typed
+// against shared/contracts.ts, so the fake cannot drift from the contracts.
+//
+//   npm run fake-n8n
+//   N8N_BASE=http://localhost:5678 INTERNAL_KEY=dev npm run dev
+//
+// FAKE_N8N_LATENCY_MS and FAKE_N8N_FAILURE_RATE (0-1) add delay and random
+// 500s, to exercise the BFF's timeouts, retries and circuit breaker.
+
+type ParsedRequest<W extends N8NWebhook> = z.output<(typeof n8nContracts)[W]["request"]>;
+type Handler<W extends N8NWebhook> = (store: OrgStore, request: ParsedRequest<W>) => N8NResponse<W>;
+
+// Agent configs are served by the BFF from agent_configs; the fake keeps
+// default prompts of its own for test runs and reports
+type Agent = AgentConfigResponse;
+type KnowledgeItem = N8NResponse<"tramia-knowledge-list">[number];
+type WebhookLog = N8NResponse<"tramia-webhook-logs">[number];
+type AuditEntry = N8NResponse<"tramia-audit-logs">[number];
+
+interface OrgStore {
+  agents: Map<string, Agent>;
+  knowledge: Map<string, KnowledgeItem & { content: string }>;
+  conversations: Map<string, N8NResponse<"tramia-conversations-get">>;
+  gating: N8NResponse<"tramia-settings-gating-get">;
+  followups: N8NResponse<"tramia-settings-followups-get">;
+  webhookLogs: WebhookLog[];
+  audit: AuditEntry[];
+}
+
+export interface FakeN8nOptions {
+  internalKey?: string;
+  latencyMs?: number;
+  failureRate?: number;
+}
+
+const MAX_LOG_ENTRIES = 500;
+// How long a new knowledge item stays "queued" and then "embedding"
+const EMBEDDING_STEP_MS = 2_000;
+
+function now() {
+  return new Date().toISOString();
+}
+
+function minutesAgo(minutes: number) {
+  return new Date(Date.now() - minutes * 60_000).toISOString();
+}
+
+function seedStore(): OrgStore {
+  const agents = new Map<string, Agent>();
+  for (const agentType of agentTypeEnum.enumValues) {
+    agents.set(agentType, {
+      agentType,
+      system: `You are the ${agentType} agent for Tramia. Answer in Spanish, briefly and politely.`,
+      outputSchema: { type: "object", properties: { reply: { type: "string" } }, required: ["reply"] },
+      paramsJson: { model: "gpt-4", temperature: 0.7, maxTokens: 500, mcpEnabled: false },
+      version: "1.0.0",
+    });
+  }
+
+  const knowledge = new Map<string, KnowledgeItem & { content: string }>();
+  const seedKnowledge = [
+    { title: "Pricing FAQ", sourceType: "md" as const, content: "Plans start at 99 USD per month. Annual billing gets two months free." },
+    { title: "Onboarding guide", sourceType: "url" as const, url: "https://example.com/onboarding", content: "Onboarding takes two weeks and includes a kickoff call." },
+    { title: "Objection handling", sourceType: "pdf" as const, content: "When a lead says it is too expensive, ask about the cost of doing nothing." },
+  ];
+  seedKnowledge.forEach((item, index) => {
+    const id = randomUUID();
+    knowledge.set(id, {
+      id,
+      title: item.title,
+      sourceType: item.sourceType,
+      url: item.url ?? null,
+      status: "ready",
+      tags: ["demo"],
+      bytes: item.content.length,
+      lang: "es",
+      createdAt: minutesAgo(60 * 24 * (index + 1)),
+      content: item.content,
+    });
+  });
+
+  const conversations = new Map<string, N8NResponse<"tramia-conversations-get">>();
+  for (const id of ["1", "2", "3"]) {
+    conversations.set(id, {
+      id,
+      timeline: [
+        { type: "message", direction: "inbound", text: "Hola, me interesa saber más.", at: minutesAgo(90) },
+        { type: "agent", agentType: "qualifier", text: "¡Hola! ¿Qué tamaño tiene tu equipo?", at: minutesAgo(89) },
+      ],
+    });
+  }
+
+  const webhookLogs: WebhookLog[] = [
+    { id: randomUUID(), source: "chatwoot", eventId: "cw-1001", status: "success", payloadJson: { event: "message_created" }, error: null, createdAt: minutesAgo(5) },
+    { id: randomUUID(), source: "heyreach", eventId: "hr-2001", status: "success", payloadJson: { event: "connection_accepted" }, error: null, createdAt: minutesAgo(12) },
+    { id: randomUUID(), source: "chatwoot", eventId: "cw-1002", status: "error", payloadJson: { event: "message_created" }, error: "Contact not found", createdAt: minutesAgo(30) },
+  ];
+
+  return {
+    agents,
+    knowledge,
+    conversations,
+    gating: { hrLeadsAiEnabled: true, externalLeadsAiEnabled: false, muteWindow: 60 },
+    followups: { enabled: true, maxFollowups: 3, intervals: [24, 72, 168], workingHours: { start: 9, end: 18 } },
+    webhookLogs,
+    audit: [],
+  };
+}
+
+function audit(store: OrgStore, action: string, target: string, beforeJson?: unknown, afterJson?: unknown) {
+  store.audit.unshift({ id: randomUUID(), actorName: "n8n", action, target, beforeJson, afterJson, createdAt: now() });
+  store.audit.length = Math.min(store.audit.length, MAX_LOG_ENTRIES);
+}
+
+// Moves a new item through queued → embedding → ready, like the real pipeline
+function simulateEmbedding(item: KnowledgeItem) {
+  setTimeout(() => {
+    item.status = "embedding";
+    setTimeout(() => {
+      item.status = "ready";
+    }, EMBEDDING_STEP_MS);
+  }, EMBEDDING_STEP_MS);
+}
+
+const ok = { ok: true };
+
+const handlers: { [W in N8NWebhook]: Handler<W> } = {
+  "tramia-reports-agents": (store) => ({
+    byAgent: Array.from(store.agents.keys()).map((agentType, index) => ({
+      agentType,
+      messages: 40 + index * 17,
+      completionRate: 0.7 + index * 0.04,
+      avgTokens: 180 + index * 25,
+      avgLatency: 900 + index * 120,
+      successRate: 0.8 + index * 0.02,
+      cost: 2.5 + index * 1.1,
+    })),
+  }),
+  "tramia-reports-funnel": () => ({
+    stages: [
+      { name: "HR Accepted", count: 247, rate: 1 },
+      { name: "Contacted", count: 198, rate: 0.8 },
+      { name: "Qualified", count: 89, rate: 0.36 },
+      { name: "Scheduled", count: 34, rate: 0.14 },
+    ],
+  }),
+  "tramia-reports-costs": (store) => {
+    const byAgent = Object.fromEntries(Array.from(store.agents.keys()).map((agentType, index) => [agentType, 2.5 + index * 1.1]));
+    return {
+      totalTokens: 847_000,
+      estimatedCost: Object.values(byAgent).reduce((sum, cost) => sum + cost, 0),
+      byAgent,
+    };
+  },
+  "tramia-reports-ops": (store) => ({
+    webhookErrors: store.webhookLogs.filter((log) => log.status === "error").length,
+    avgLatency: 142,
+    rateLimits: 0,
+    uptime: 0.998,
+  }),
+
+  "tramia-conversations-get": (store, { id }) =>
+    store.conversations.get(id) ?? { id, timeline: [] },
+  "tramia-conv-action": (store, action) => {
+    const conversation = store.conversations.get(action.id) ?? { id: action.id, timeline: [] };
+    conversation.timeline.push(
+      action.type === "toggle_ai"
+        ? { type: "ai_toggled", enabled: action.enabled, at: now() }
+        : { type: "agent_forced", agentType: action.agentType, at: now() },
+    );
+    store.conversations.set(action.id, conversation);
+    audit(store, action.type === "toggle_ai" ? "toggled AI" : "forced agent", `conversation ${action.id}`, undefined, action);
+    return ok;
+  },
+
+  "tramia-agents-test": (store, { agentType, input, params, system, history = [] }) => {
+    const agent = store.agents.get(agentType);
+    if (!agent) {
+      return { success: false, output: null, tokensUsed: 0, estimatedCost: 0, error: `Unknown agent ${agentType}` };
+    }
+    // The reply stands in for the completion, so it is capped by maxTokens
+    const replyTokens = Math.min(40, params.maxTokens ?? 40);
+    const context = history.reduce((length, message) => length + message.content.length, 0);
+    const tokensUsed = Math.ceil(((system ?? agent.system).length + context + input.length) / 4) + replyTokens;
+    // In a playground conversation each agent finishes on its second reply
+    const replied = history.some((message) => message.role === "agent" && message.agentType === agentType);
+    return {
+      success: true,
+      output: {
+        reply: `[${agentType}] Recibido: ${input.slice(0, 200)}`,
+        model: params.model ?? "gpt-4",
+        is_task_complete: replied,
+      },
+      tokensUsed,
+      estimatedCost: tokensUsed * 0.00003,
+      latency: 350,
+    };
+  },
+
+  "tramia-knowledge-list": (store) =>
+    Array.from(store.knowledge.values()).map(({ content, ...item }) => item),
+  "tramia-knowledge-create": (store, request) => {
+    const id = randomUUID();
+    const content = request.content ?? "";
+    const item = {
+      id,
+      title: request.title,
+      sourceType: request.sourceType,
+      url: request.url ?? null,
+      status: "queued" as const,
+      tags: request.tags,
+      bytes: content.length || null,
+      lang: request.lang,
+      createdAt: now(),
+      content,
+    };
+    store.knowledge.set(id, item);
+    simulateEmbedding(item);
+    audit(store, "added knowledge", request.title);
+    return { id, status: item.status };
+  },
+  "tramia-knowledge-update": (store, { id, ...changes }) => {
+    const item = store.knowledge.get(id);
+    if (item) {
+      Object.assign(item, Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)));
+      audit(store, "updated knowledge", item.title, undefined, changes);
+    }
+    return ok;
+  },
+  "tramia-knowledge-delete": (store, { id }) => {
+    const item = store.knowledge.get(id);
+    if (item) {
+      store.knowledge.delete(id);
+      audit(store, "deleted knowledge", item.title);
+    }
+    return ok;
+  },
+  "tramia-knowledge-reindex": (store, { id }) => {
+    const item = store.knowledge.get(id);
+    if (!item) {
+      return { success: false, message: "Knowledge item not found" };
+    }
+    item.status = "queued";
+    simulateEmbedding(item);
+    return { success: true, message: "Reindexing started" };
+  },
+  // Scores items by the share of query words found in their title and content
+  "tramia-knowledge-search": (store, { query, topK }) => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return Array.from(store.knowledge.values())
+      .filter((item) => item.status === "ready")
+      .map((item) => {
+        const text = `${item.title} ${item.content}`.toLowerCase();
+        const score = words.filter((word) => text.includes(word)).length / words.length;
+        return { id: item.id, title: item.title, content: item.content, score, source: item.url ?? item.sourceType };
+      })
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  },
+
+  "tramia-integrations-status": () => ({
+    chatwoot: { connected: true, lastCheck: now(), accountId: "1" },
+    heyreach: { connected: true, lastCheck: now(), rateLimited: false },
+    n8n: { connected: true, lastCheck: now() },
+  }),
+  "tramia-cw-test": () => ({ success: true, contactId: randomUUID(), conversationId: randomUUID() }),
+  "tramia-hr-check": (_store, { apiKey }) =>
+    apiKey ? { success: true, account: "Demo HeyReach account" } : { success: false },
+  "tramia-n8n-status": () => ({
+    connected: true,
+    workflows: (Object.keys(n8nContracts) as N8NWebhook[]).map((webhook) => ({
+      id: webhook,
+      name: webhook,
+      status: "active" as const,
+      lastRun: null,
+    })),
+  }),
+
+  "tramia-settings-gating-get": (store) => store.gating,
+  "tramia-settings-gating-set": (store, gating) => {
+    audit(store, "updated gating", "settings", store.gating, gating);
+    store.gating = gating;
+    return ok;
+  },
+  "tramia-settings-followups-get": (store) => store.followups,
+  "tramia-settings-followups-set": (store, followups) => {
+    audit(store, "updated follow-ups", "settings", store.followups, followups);
+    store.followups = followups;
+    return ok;
+  },
+
+  "tramia-webhook-logs": (store, { source, limit }) =>
+    store.webhookLogs.filter((log) => !source || log.source === source).slice(0, limit),
+  "tramia-audit-logs": (store) => store.audit,
+};
+
+function isWebhook(name: string): name is N8NWebhook {
+  return Object.prototype.hasOwnProperty.call(n8nContracts, name);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createFakeN8n(options: FakeN8nOptions = {}) {
+  const stores = new Map<string, OrgStore>();
+  const storeFor = (orgId: string) => {
+    let store = stores.get(orgId);
+    if (!store) {
+      store = seedStore();
+      stores.set(orgId, store);
+    }
+    return store;
+  };
+
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+
+  app.all("/webhook/:name", async (req: Request, res: Response) => {
+    const name = req.params.name;
+    const contract = isWebhook(name) ? n8nContracts[name] : undefined;
+    if (!isWebhook(name) || !contract || req.method !== contract.method) {
+      return res.status(404).json({ message: `The requested webhook "${req.method} ${name}" is not registered.` });
+    }
+    if (options.internalKey && req.get("x-internal-key") !== options.internalKey) {
+      return res.status(403).json({ message: "Invalid internal key" });
+    }
+    if (options.latencyMs) await sleep(options.latencyMs);
+    if (options.failureRate && Math.random() < options.failureRate) {
+      return res.status(500).json({ message: "Simulated workflow failure" });
+    }
+
+    const { orgId, ...input } = contract.method === "GET" ? req.query : req.body ?? {};
+    if (typeof orgId !== "string" || !orgId) {
+      return res.status(400).json({ message: "orgId is required" });
+    }
+    const parsed = contract.request.safeParse(input);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+
+    const handler = handlers[name] as Handler<N8NWebhook>;
+    res.json(handler(storeFor(orgId), parsed.data));
+  });
+
+  return app;
+}
+
+// Run standalone with `npm run fake-n8n`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.FAKE_N8N_PORT || "5678", 10);
+  const app = createFakeN8n({
+    internalKey: process.env.INTERNAL_KEY,
+    latencyMs: parseInt(process.env.FAKE_N8N_LATENCY_MS || "0", 10),
+    failureRate: parseFloat(process.env.FAKE_N8N_FAILURE_RATE || "0"),
+  });
+  app.listen(port, () => {
+    console.log(`Fake n8n listening on http://localhost:${port}/webhook/tramia-*`);
+  });
+}
@@ -1,12 +1,16 @@
 import express, { type Request, Response, NextFunction } from "express";
 import helmet from "helmet";
 import cookieParser from "cookie-parser";
-import jwt from "jsonwebtoken";
 import bcrypt from "bcryptjs";
 import rateLimit from "express-rate-limit";
 import pg from "pg";
 const { Pool } = pg;
 import { registerRoutes } from "./routes";
+import { loadIdpConfig, loadIdpConfigById, beginLogin, completeLogin, mapRole, authorizeSsoLogin, redirectUriFor, setTransactionCookie, takeTransaction } from "./oidc";
+import { REFRESH_COOKIE, signToken, setSessionCookie, setRefreshCookie, clearSessionCookie, startSession, setMfaChallenge, readMfaChallenge, clearMfaChallenge, requireAdmin, requireAuth, requireOrg, restrictApiKeys, getSession, getOrgId, findMembership, loadIdentity } from "./auth";
+import { rotateSession, revokeSession, revokeByRefreshToken } from "./sessions";
+import { beginEnrollment, confirmEnrollment, verifySecondFactor, orgRequiresTwoFactor } from "./totp";
+import { logLoginEvent, lockoutRemaining, recordLoginFailure, resetLoginFailures } from "./loginHistory";
 import path from "path";
 import fs from "fs";
 
@@ -180,6 +184,406 @@ async function ensureTables(retries = 3) {
         );
       `);
       
+      // Organizations (mirrors shared/schema.ts) and admin_users membership
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.organizations (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          name TEXT NOT NULL,
+          slug TEXT UNIQUE NOT NULL,
+          timezone TEXT NOT NULL DEFAULT 'America/Argentina/Buenos_Aires',
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      await pool.query(`
+        ALTER TABLE public.admin_users
+          ADD COLUMN IF NOT EXISTS name TEXT,
+          ADD COLUMN IF NOT EXISTS org_id VARCHAR REFERENCES public.organizations(id),
+          ADD COLUMN IF NOT EXISTS last_login_at TIMESTAMPTZ;
+      `);
+
+      // TOTP second factor; recovery codes are stored as sha256 hashes
+      await pool.query(`
+        ALTER TABLE public.admin_users
+          ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+          ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMPTZ,
+          ADD COLUMN IF NOT EXISTS totp_last_step BIGINT,
+          ADD COLUMN IF NOT EXISTS totp_recovery_codes TEXT[];
+      `);
+
+      await pool.query(`
+        ALTER TABLE public.organizations
+          ADD COLUMN IF NOT EXISTS require_two_factor BOOLEAN NOT NULL DEFAULT FALSE,
+          ADD COLUMN IF NOT EXISTS allowed_models TEXT[];
+      `);
+
+      // Users may belong to several organizations; the role is per organization
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.org_memberships (
+          user_id BIGINT NOT NULL REFERENCES public.admin_users(id) ON DELETE CASCADE,
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+          role TEXT NOT NULL DEFAULT 'viewer',
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (user_id, org_id)
+        );
+      `);
+
+      await pool.query(`
+        INSERT INTO public.org_memberships(user_id, org_id, role)
+        SELECT id, org_id, role FROM public.admin_users WHERE org_id IS NOT NULL
+        ON CONFLICT DO NOTHING;
+      `);
+
+      // Invitations of existing accounts into other orgs, pending the owner's acceptance
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.org_invitations (
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+          user_id BIGINT NOT NULL REFERENCES public.admin_users(id) ON DELETE CASCADE,
+          role TEXT NOT NULL DEFAULT 'viewer',
+          invited_by BIGINT REFERENCES public.admin_users(id) ON DELETE SET NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (org_id, user_id)
+        );
+      `);
+
+      // Per-organization integration settings (mirrors shared/schema.ts); idp holds the OIDC config
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.integrations (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id),
+          chatwoot JSON,
+          heyreach JSON,
+          n8n JSON,
+          idp JSON,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      // Agent prompts and params (mirrors shared/schema.ts); the BFF writes
+      // them and n8n reads them. created_by holds admin_users ids, not users.
+      await pool.query(`
+        DO $$ BEGIN
+          CREATE TYPE agent_type AS ENUM ('qualifier', 'closer', 'scheduler', 'objections', 'pooling', 'followups');
+        EXCEPTION WHEN duplicate_object THEN NULL;
+        END $$;
+      `);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.agent_configs (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id),
+          agent_type agent_type NOT NULL,
+          system TEXT NOT NULL,
+          output_schema JSON,
+          params_json JSON,
+          version TEXT NOT NULL DEFAULT '1.0.0',
+          created_by VARCHAR,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      await pool.query(`
+        ALTER TABLE public.agent_configs
+          DROP CONSTRAINT IF EXISTS agent_configs_created_by_users_id_fk,
+          ALTER COLUMN created_by DROP NOT NULL;
+      `);
+
+      await pool.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS agent_configs_org_agent_type_idx ON public.agent_configs(org_id, agent_type);
+      `);
+
+      // Immutable history of agent configs (see server/agents.ts)
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.agent_config_versions (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id),
+          agent_type agent_type NOT NULL,
+          version TEXT NOT NULL,
+          system TEXT NOT NULL,
+          output_schema JSON,
+          params_json JSON,
+          changelog TEXT,
+          created_by VARCHAR,
+          created_by_name TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      await pool.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS agent_config_versions_org_agent_version_idx
+          ON public.agent_config_versions(org_id, agent_type, version);
+      `);
+
+      // Publishing workflow. Versions saved before it existed all went live
+      // when saved, so the column is added as 'published' and new rows
+      // default to 'draft'.
+      await pool.query(`
+        DO $$ BEGIN
+          CREATE TYPE agent_version_status AS ENUM ('draft', 'in_review', 'published', 'rejected');
+        EXCEPTION WHEN duplicate_object THEN NULL;
+        END $$;
+      `);
+
+      await pool.query(`
+        ALTER TABLE public.agent_config_versions
+          ADD COLUMN IF NOT EXISTS status agent_version_status NOT NULL DEFAULT 'published',
+          ADD COLUMN IF NOT EXISTS review_requested_at TIMESTAMP,
+          ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR,
+          ADD COLUMN IF NOT EXISTS reviewed_by_name TEXT,
+          ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+      `);
+
+      await pool.query(`
+        ALTER TABLE public.agent_config_versions ALTER COLUMN status SET DEFAULT 'draft';
+      `);
+
+      // Configs saved before history existed become their own first version
+      await pool.query(`
+        INSERT INTO public.agent_config_versions(org_id, agent_type, version, system, output_schema, params_json, status, created_by, created_at)
+        SELECT org_id, agent_type, version, system, output_schema, params_json, 'published', created_by, updated_at
+        FROM public.agent_configs
+        ON CONFLICT DO NOTHING;
+      `);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.agent_version_comments (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id),
+          version_id VARCHAR NOT NULL REFERENCES public.agent_config_versions(id) ON DELETE CASCADE,
+          body TEXT NOT NULL,
+          created_by VARCHAR,
+          created_by_name TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS agent_version_comments_version_idx
+          ON public.agent_version_comments(version_id, created_at);
+      `);
+
+      // Token usage per agent run, checked against monthly budgets
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.agent_usage (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id),
+          agent_type agent_type NOT NULL,
+          source TEXT NOT NULL,
+          tokens INTEGER NOT NULL,
+          estimated_cost DOUBLE PRECISION,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS agent_usage_org_agent_created_idx
+          ON public.agent_usage(org_id, agent_type, created_at);
+      `);
+
+      // Prompt A/B experiments and their sticky per-conversation assignments
+      await pool.query(`
+        DO $$ BEGIN
+          CREATE TYPE experiment_status AS ENUM ('running', 'stopped');
+        EXCEPTION WHEN duplicate_object THEN NULL;
+        END $$;
+      `);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.agent_experiments (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id),
+          agent_type agent_type NOT NULL,
+          name TEXT NOT NULL,
+          status experiment_status NOT NULL DEFAULT 'running',
+          variants JSON NOT NULL,
+          created_by VARCHAR,
+          created_by_name TEXT,
+          started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          ended_at TIMESTAMP
+        );
+      `);
+
+      await pool.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS agent_experiments_running_idx
+          ON public.agent_experiments(org_id, agent_type) WHERE status = 'running';
+      `);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.agent_experiment_assignments (
+          experiment_id VARCHAR NOT NULL REFERENCES public.agent_experiments(id) ON DELETE CASCADE,
+          conversation_id TEXT NOT NULL,
+          variant TEXT NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      await pool.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS agent_experiment_assignments_conversation_idx
+          ON public.agent_experiment_assignments(experiment_id, conversation_id);
+      `);
+
+      // Offline eval suite: saved test cases and batch runs against a version
+      await pool.query(`
+        DO $$ BEGIN
+          CREATE TYPE eval_run_status AS ENUM ('running', 'completed', 'failed');
+        EXCEPTION WHEN duplicate_object THEN NULL;
+        END $$;
+      `);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.agent_test_cases (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id),
+          agent_type agent_type NOT NULL,
+          name TEXT NOT NULL,
+          input TEXT NOT NULL,
+          assertions JSON NOT NULL,
+          created_by VARCHAR,
+          created_by_name TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.agent_eval_runs (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id),
+          agent_type agent_type NOT NULL,
+          version TEXT NOT NULL,
+          status eval_run_status NOT NULL DEFAULT 'running',
+          total INTEGER NOT NULL,
+          passed INTEGER NOT NULL DEFAULT 0,
+          failed INTEGER NOT NULL DEFAULT 0,
+          results JSON NOT NULL DEFAULT '[]',
+          error TEXT,
+          created_by VARCHAR,
+          created_by_name TEXT,
+          started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          finished_at TIMESTAMP
+        );
+      `);
+
+      // Runs execute inside this process, so a restart leaves them orphaned
+      await pool.query(`
+        UPDATE public.agent_eval_runs
+        SET status = 'failed', error = 'Interrupted by a server restart', finished_at = NOW()
+        WHERE status = 'running';
+      `);
+
+      // Shared prompt snippets agents include with {{> name}}
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.prompt_snippets (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id),
+          name TEXT NOT NULL,
+          description TEXT,
+          body TEXT NOT NULL,
+          created_by VARCHAR,
+          created_by_name TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      await pool.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS prompt_snippets_org_name_idx
+          ON public.prompt_snippets(org_id, name);
+      `);
+
+      // Audit trail (mirrors shared/schema.ts); actors are admin_users, not users
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.audit_logs (
+          id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id),
+          actor_user_id VARCHAR,
+          actor_name TEXT,
+          action TEXT NOT NULL,
+          target TEXT NOT NULL,
+          before_json JSON,
+          after_json JSON,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      await pool.query(`
+        ALTER TABLE public.audit_logs
+          DROP CONSTRAINT IF EXISTS audit_logs_actor_user_id_users_id_fk,
+          ADD COLUMN IF NOT EXISTS actor_name TEXT;
+      `);
+
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_audit_logs_org ON public.audit_logs(org_id, created_at DESC);
+      `);
+
+      // Server-side sessions backing rotating refresh tokens
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.auth_sessions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id BIGINT NOT NULL REFERENCES public.admin_users(id) ON DELETE CASCADE,
+          org_id VARCHAR REFERENCES public.organizations(id) ON DELETE SET NULL,
+          refresh_token_hash TEXT NOT NULL,
+          previous_token_hash TEXT,
+          rotated_at TIMESTAMPTZ,
+          user_agent TEXT,
+          ip TEXT,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          last_used_at TIMESTAMPTZ,
+          expires_at TIMESTAMPTZ NOT NULL,
+          revoked_at TIMESTAMPTZ
+        );
+      `);
+
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON public.auth_sessions(user_id) WHERE revoked_at IS NULL;
+      `);
+
+      // Per-account lockout state (see server/loginHistory.ts)
+      await pool.query(`
+        ALTER TABLE public.admin_users
+          ADD COLUMN IF NOT EXISTS failed_login_count INTEGER NOT NULL DEFAULT 0,
+          ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+      `);
+
+      // Every sign-in attempt; user_id is null when the email matched no account
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.login_events (
+          id BIGSERIAL PRIMARY KEY,
+          user_id BIGINT REFERENCES public.admin_users(id) ON DELETE CASCADE,
+          email TEXT NOT NULL,
+          method TEXT NOT NULL,
+          result TEXT NOT NULL,
+          ip TEXT,
+          user_agent TEXT,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+      `);
+
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_login_events_user ON public.login_events(user_id, created_at DESC);
+      `);
+
+      // API keys for scripts and n8n; only a sha256 of the key is stored
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.api_keys (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          org_id VARCHAR NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          display_prefix TEXT NOT NULL,
+          key_hash TEXT UNIQUE NOT NULL,
+          scopes TEXT[] NOT NULL,
+          created_by BIGINT REFERENCES public.admin_users(id) ON DELETE SET NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          expires_at TIMESTAMPTZ,
+          last_used_at TIMESTAMPTZ,
+          last_used_ip TEXT,
+          revoked_at TIMESTAMPTZ
+        );
+      `);
+
       // Create hr_inbound_seen table with index
       await pool.query(`
         CREATE TABLE IF NOT EXISTS public.hr_inbound_seen (
@@ -194,6 +598,51 @@ async function ensureTables(retries = 3) {
       await pool.query(`
         CREATE INDEX IF NOT EXISTS idx_hr_seen_at ON public.hr_inbound_seen(seen_at);
       `);
+
+      // Tenant scoping columns for the tables the BFF queries directly
+      await pool.query(`
+        ALTER TABLE public.hr_inbound_seen ADD COLUMN IF NOT EXISTS org_id VARCHAR;
+      `);
+
+      await pool.query(`
+        ALTER TABLE IF EXISTS public.linkedin_jobs_incubadora ADD COLUMN IF NOT EXISTS org_id VARCHAR;
+      `);
+
+      // Rows from before org scoping, and from n8n workflows that don't set
+      // org_id, belong to the default org (DEFAULT_ORG_ID, else the oldest
+      // organization); without it they'd match no org and vanish from the
+      // dashboard. Workflows serving other orgs must set org_id themselves.
+      const { rows: [defaultOrg] } = await pool.query(
+        process.env.DEFAULT_ORG_ID
+          ? `SELECT id FROM public.organizations WHERE id = $1`
+          : `SELECT id FROM public.organizations ORDER BY created_at LIMIT 1`,
+        process.env.DEFAULT_ORG_ID ? [process.env.DEFAULT_ORG_ID] : []
+      );
+      if (defaultOrg) {
+        const literal = `'${String(defaultOrg.id).replace(/'/g, "''")}'`;
+        await pool.query(`ALTER TABLE public.hr_inbound_seen ALTER COLUMN org_id SET DEFAULT ${literal}`);
+        await pool.query(`UPDATE public.hr_inbound_seen SET org_id = $1 WHERE org_id IS NULL`, [defaultOrg.id]);
+        if ((await pool.query(`SELECT to_regclass('public.linkedin_jobs_incubadora') AS found`)).rows[0].found) {
+          await pool.query(`ALTER TABLE public.linkedin_jobs_incubadora ALTER COLUMN org_id SET DEFAULT ${literal}`);
+          await pool.query(`UPDATE public.linkedin_jobs_incubadora SET org_id = $1 WHERE org_id IS NULL`, [defaultOrg.id]);
+        }
+      } else if (process.env.DEFAULT_ORG_ID) {
+        console.warn(`⚠️ DEFAULT_ORG_ID ${process.env.DEFAULT_ORG_ID} is not an organization; n8n rows without org_id stay hidden`);
+      }
+
+      // Job queue paging and the user search of GET /api/jobs (server/jobs.ts).
+      // n8n creates the table, so it may not exist yet.
+      await pool.query(`
+        DO $$ BEGIN
+          IF to_regclass('public.linkedin_jobs_incubadora') IS NOT NULL THEN
+            CREATE INDEX IF NOT EXISTS linkedin_jobs_org_created_idx
+              ON public.linkedin_jobs_incubadora(org_id, created_at DESC);
+            CREATE INDEX IF NOT EXISTS linkedin_jobs_user_search_idx
+              ON public.linkedin_jobs_incubadora
+              USING gin (to_tsvector('simple', COALESCE(linkedin_user_data, '') || ' ' || COALESCE(user_id::text, '')));
+          END IF;
+        END $$;
+      `);
       
       console.log('✅ Database tables and indexes ensured');
       return;
@@ -209,38 +658,9 @@ async function ensureTables(retries = 3) {
   }
 }
 
-// Authentication constants and helpers
-const JWT_COOKIE = 'sid';
+// Authentication rate limiting
 const loginLimiter = rateLimit({ windowMs: 15 * 60 * 1000, max: 20 });
 
-function signToken(user: any) {
-  return jwt.sign(
-    { sub: user.id, email: user.email, role: user.role },
-    process.env.SESSION_SECRET!,
-    { expiresIn: '12h', issuer: 'dashboard' }
-  );
-}
-
-function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  if (req.headers['x-admin-key'] !== process.env.ADMIN_KEY) {
-    return res.sendStatus(403);
-  }
-  next();
-}
-
-function requireAuth(req: Request, res: Response, next: NextFunction) {
-  const raw = req.cookies[JWT_COOKIE] || (req.headers.authorization || '').replace(/^Bearer\s+/, '');
-  if (!raw) {
-    return res.status(401).json({ error: 'unauthorized' });
-  }
-  try {
-    (req as any).user = jwt.verify(raw, process.env.SESSION_SECRET!);
-    return next();
-  } catch {
-    return res.status(401).json({ error: 'unauthorized' });
-  }
-}
-
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -329,18 +749,26 @@ app.use((req, res, next) => {
   // Admin user creation endpoint (protected by ADMIN_KEY)
   app.post('/admin/users', requireAdmin, async (req, res) => {
     try {
-      const { email, password, role = 'admin' } = req.body || {};
+      const { email, password, role = 'admin', name = null, orgId = null } = req.body || {};
       if (!email || !password) {
         return res.status(400).json({ error: 'email/password required' });
       }
       const hash = await bcrypt.hash(password, 12);
       const { rows } = await pool.query(
-        `INSERT INTO public.admin_users(email,password_hash,role)
-         VALUES ($1,$2,$3)
-         ON CONFLICT (email) DO UPDATE SET password_hash=EXCLUDED.password_hash, role=EXCLUDED.role
-         RETURNING id,email,role,created_at`,
-        [email, hash, role]
+        `INSERT INTO public.admin_users(email,password_hash,role,name,org_id)
+         VALUES ($1,$2,$3,$4,$5)
+         ON CONFLICT (email) DO UPDATE SET password_hash=EXCLUDED.password_hash, role=EXCLUDED.role,
+           name=COALESCE(EXCLUDED.name, admin_users.name), org_id=COALESCE(EXCLUDED.org_id, admin_users.org_id)
+         RETURNING id,email,role,name,org_id,created_at`,
+        [email, hash, role, name, orgId]
       );
+      if (orgId) {
+        await pool.query(
+          `INSERT INTO public.org_memberships(user_id,org_id,role) VALUES ($1,$2,$3)
+           ON CONFLICT (user_id,org_id) DO UPDATE SET role=EXCLUDED.role`,
+          [rows[0].id, orgId, role]
+        );
+      }
       res.json(rows[0]);
     } catch (e: any) {
       res.status(500).json({ error: e.message || 'Failed to create user' });
@@ -350,56 +778,252 @@ app.use((req, res, next) => {
   // Authentication routes
   app.post('/auth/login', loginLimiter, async (req, res) => {
     try {
-      const { email, password } = req.body || {};
+      const { password } = req.body || {};
+      // Invites store emails lowercased; match older mixed-case rows too
+      const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
       if (!email || !password) {
         return res.status(400).json({ error: 'email/password required' });
       }
       const { rows } = await pool.query(
-        `SELECT * FROM public.admin_users WHERE email=$1 AND is_active=TRUE`,
+        `SELECT * FROM public.admin_users WHERE lower(email)=$1`,
         [email]
       );
       const user = rows[0];
-      if (!user || !(await bcrypt.compare(password, user.password_hash))) {
+      if (!user) {
+        await logLoginEvent(req, { email, method: 'password', result: 'unknown_user' });
         return res.status(401).json({ error: 'invalid' });
       }
-      const token = signToken(user);
-      res.cookie(JWT_COOKIE, token, {
-        httpOnly: true,
-        sameSite: 'lax',
-        secure: process.env.NODE_ENV === 'production',
-        maxAge: 12 * 60 * 60 * 1000, // 12 hours
-        path: '/'
-      });
-      res.json({ ok: true, email: user.email, role: user.role });
+      const attempt = { userId: String(user.id), email: user.email, method: 'password' as const };
+      // Locked accounts are refused before the password is even checked, with
+      // the same answer as a wrong password so the lockout doesn't reveal
+      // which emails have accounts
+      if (lockoutRemaining(user) > 0) {
+        await logLoginEvent(req, { ...attempt, result: 'locked' });
+        return res.status(401).json({ error: 'invalid' });
+      }
+      if (!user.is_active) {
+        await logLoginEvent(req, { ...attempt, result: 'disabled' });
+        return res.status(401).json({ error: 'invalid' });
+      }
+      if (!(await bcrypt.compare(password, user.password_hash))) {
+        await recordLoginFailure(attempt.userId);
+        await logLoginEvent(req, { ...attempt, result: 'invalid_password' });
+        return res.status(401).json({ error: 'invalid' });
+      }
+      const membership = await findMembership(String(user.id));
+      // Password is right; hold the session back until the second factor passes
+      if (user.totp_enabled_at || await orgRequiresTwoFactor(membership?.org_id)) {
+        const step = user.totp_enabled_at ? 'verify' : 'enroll';
+        setMfaChallenge(res, { sub: String(user.id), org: membership?.org_id ?? null, step });
+        return res.json({ ok: false, mfa: step });
+      }
+      await resetLoginFailures(attempt.userId);
+      await logLoginEvent(req, { ...attempt, result: 'success' });
+      await pool.query(`UPDATE public.admin_users SET last_login_at = NOW() WHERE id = $1`, [user.id]);
+      await startSession(req, res, user, membership);
+      res.json({ ok: true, email: user.email, role: membership?.role ?? user.role });
     } catch (e: any) {
       res.status(500).json({ error: e.message || 'Login failed' });
     }
   });
 
-  app.post('/auth/logout', (req, res) => {
-    res.clearCookie(JWT_COOKIE, {
-      sameSite: 'lax',
-      secure: process.env.NODE_ENV === 'production',
-      path: '/'
-    });
+  // Completes a password login that was challenged for a second factor;
+  // null when the account was deactivated in the meantime
+  const finishMfaLogin = async (req: Request, res: Response, userId: string, orgId: string | null) => {
+    clearMfaChallenge(res);
+    const { rows } = await pool.query(
+      `SELECT * FROM public.admin_users WHERE id = $1 AND is_active = TRUE`,
+      [userId]
+    );
+    const user = rows[0];
+    if (!user) {
+      return null;
+    }
+    const membership = (orgId && await findMembership(userId, orgId)) || await findMembership(userId);
+    await resetLoginFailures(userId);
+    await logLoginEvent(req, { userId, email: user.email, method: 'totp', result: 'success' });
+    await pool.query(`UPDATE public.admin_users SET last_login_at = NOW() WHERE id = $1`, [user.id]);
+    await startSession(req, res, user, membership);
+    return { email: user.email, role: membership?.role ?? user.role };
+  };
+
+  app.post('/auth/2fa/verify', loginLimiter, async (req, res) => {
+    try {
+      const challenge = readMfaChallenge(req);
+      if (!challenge || challenge.step !== 'verify') {
+        return res.status(401).json({ error: 'mfa_expired' });
+      }
+      const { rows } = await pool.query(
+        `SELECT email, locked_until FROM public.admin_users WHERE id = $1`,
+        [challenge.sub]
+      );
+      if (!rows[0]) {
+        return res.status(401).json({ error: 'invalid' });
+      }
+      const attempt = { userId: challenge.sub, email: rows[0].email, method: 'totp' as const };
+      const retryAfter = lockoutRemaining(rows[0]);
+      if (retryAfter > 0) {
+        await logLoginEvent(req, { ...attempt, result: 'locked' });
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({ error: 'locked', retryAfter });
+      }
+      // Wrong codes count toward the same lockout as wrong passwords
+      const code = String(req.body?.code || '');
+      if (!code || !(await verifySecondFactor(challenge.sub, code))) {
+        await recordLoginFailure(challenge.sub);
+        await logLoginEvent(req, { ...attempt, result: 'invalid_code' });
+        return res.status(401).json({ error: 'invalid_code' });
+      }
+      const result = await finishMfaLogin(req, res, challenge.sub, challenge.org);
+      if (!result) {
+        return res.status(401).json({ error: 'invalid' });
+      }
+      res.json({ ok: true, ...result });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message || 'Verification failed' });
+    }
+  });
+
+  // Mandatory enrollment for orgs that require 2FA, before the first session
+  app.post('/auth/2fa/enroll', loginLimiter, async (req, res) => {
+    try {
+      const challenge = readMfaChallenge(req);
+      if (!challenge || challenge.step !== 'enroll') {
+        return res.status(401).json({ error: 'mfa_expired' });
+      }
+      const { rows } = await pool.query(`SELECT email FROM public.admin_users WHERE id = $1`, [challenge.sub]);
+      if (!rows[0]) {
+        return res.status(401).json({ error: 'invalid' });
+      }
+      res.json(await beginEnrollment(challenge.sub, rows[0].email));
+    } catch (e: any) {
+      res.status(500).json({ error: e.message || 'Enrollment failed' });
+    }
+  });
+
+  app.post('/auth/2fa/enroll/confirm', loginLimiter, async (req, res) => {
+    try {
+      const challenge = readMfaChallenge(req);
+      if (!challenge || challenge.step !== 'enroll') {
+        return res.status(401).json({ error: 'mfa_expired' });
+      }
+      const recoveryCodes = await confirmEnrollment(challenge.sub, String(req.body?.code || ''));
+      if (!recoveryCodes) {
+        return res.status(401).json({ error: 'invalid_code' });
+      }
+      const result = await finishMfaLogin(req, res, challenge.sub, challenge.org);
+      if (!result) {
+        return res.status(401).json({ error: 'invalid' });
+      }
+      res.json({ ok: true, ...result, recoveryCodes });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message || 'Enrollment failed' });
+    }
+  });
+
+  // OIDC single sign-on: authorization code + PKCE against the org's IdP
+  app.get('/auth/oidc/:orgSlug/login', loginLimiter, async (req, res) => {
+    try {
+      const config = await loadIdpConfig(req.params.orgSlug);
+      if (!config) {
+        return res.status(404).json({ error: 'sso_not_configured' });
+      }
+      const { url, tx } = await beginLogin(config.orgId, config.idp, redirectUriFor(req));
+      setTransactionCookie(res, tx);
+      res.redirect(url);
+    } catch (e: any) {
+      console.error('OIDC login failed:', e);
+      res.status(502).json({ error: e.message || 'sso_unavailable' });
+    }
+  });
+
+  app.get('/auth/oidc/callback', loginLimiter, async (req, res) => {
+    const tx = takeTransaction(req, res);
+    const { code, state } = req.query;
+    if (!tx || typeof code !== 'string' || state !== tx.state) {
+      return res.redirect('/login?error=sso_failed');
+    }
+    try {
+      const idp = await loadIdpConfigById(tx.orgId);
+      if (!idp) {
+        return res.redirect('/login?error=sso_failed');
+      }
+      const claims = await completeLogin(idp, tx, code, redirectUriFor(req));
+      const result = await authorizeSsoLogin(req, tx.orgId, claims, mapRole(idp, claims));
+      if (!result.ok) {
+        return res.redirect(`/login?error=${result.error}`);
+      }
+      const { user } = result;
+      const membership = await findMembership(String(user.id), tx.orgId);
+      await pool.query(`UPDATE public.admin_users SET last_login_at = NOW() WHERE id = $1`, [user.id]);
+      await startSession(req, res, user, membership);
+      res.redirect('/');
+    } catch (e: any) {
+      console.error('OIDC callback failed:', e);
+      res.redirect('/login?error=sso_failed');
+    }
+  });
+
+  // Trades the refresh cookie for a new access token, rotating the refresh token
+  app.post('/auth/refresh', async (req, res) => {
+    try {
+      const rotated = await rotateSession(req.cookies[REFRESH_COOKIE] || '', req);
+      if (!rotated) {
+        clearSessionCookie(res);
+        return res.status(401).json({ error: 'unauthorized' });
+      }
+      const { session } = rotated;
+      const { rows } = await pool.query(
+        `SELECT * FROM public.admin_users WHERE id = $1 AND is_active = TRUE`,
+        [session.user_id]
+      );
+      const user = rows[0];
+      if (!user) {
+        await revokeSession(session.id);
+        clearSessionCookie(res);
+        return res.status(401).json({ error: 'unauthorized' });
+      }
+      // Role and org are re-read so membership changes apply on the next refresh
+      const membership = (session.org_id && await findMembership(session.user_id, session.org_id))
+        || await findMembership(session.user_id);
+      setSessionCookie(res, signToken(user, membership, session.id));
+      if (rotated.refreshToken) {
+        setRefreshCookie(res, rotated.refreshToken);
+      }
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message || 'Refresh failed' });
+    }
+  });
+
+  app.post('/auth/logout', async (req, res) => {
+    try {
+      await revokeByRefreshToken(req.cookies[REFRESH_COOKIE] || '');
+    } catch (e: any) {
+      console.error('Failed to revoke session on logout:', e.message);
+    }
+    clearSessionCookie(res);
     res.json({ ok: true });
   });
 
-  app.get('/auth/me', requireAuth, (_req, res) => {
-    const u = ( _req as any ).user as { email: string; role: string };
-    res.json({
-      isAuthenticated: true,
-      user: { email: u.email, role: u.role },
-      organization: { id: 'default', name: 'Tramia', slug: 'main' },
-    });
+  app.get('/auth/me', requireAuth, async (req, res) => {
+    try {
+      const identity = await loadIdentity(getSession(req));
+      if (!identity) {
+        return res.status(401).json({ error: 'unauthorized' });
+      }
+      res.json({ isAuthenticated: true, ...identity });
+    } catch (e: any) {
+      res.status(500).json({ error: e.message || 'Failed to load session' });
+    }
   });
 
-  // Protect all API routes with authentication
-  app.use('/api', requireAuth);
+  // Protect all API routes with authentication, tenant scoping and API key scopes
+  app.use('/api', requireAuth, requireOrg, restrictApiKeys);
 
   // === METRICS: /api/metrics/overview ===
   // Devuelve 0 si no hay datos; el FE renombra la tarjeta a "Accepted Invitations"
-  app.get('/api/metrics/overview', withDatabaseErrorHandling(async (_req: Request, res: Response) => {
+  app.get('/api/metrics/overview', withDatabaseErrorHandling(async (req: Request, res: Response) => {
     if (process.env.DEBUG_DIAGNOSTICS) {
       console.log("[DIAGNOSTICO BFF] Solicitando /api/metrics/overview");
     }
@@ -409,17 +1033,20 @@ app.use((req, res, next) => {
       hr_accepted AS (
         SELECT count(*) AS c
         FROM public.hr_inbound_seen
-        WHERE seen_at >= NOW() - interval '24 hours'
+        WHERE org_id = $1
+          AND seen_at >= NOW() - interval '24 hours'
       ),
       active_leads AS (
         SELECT count(DISTINCT id) AS c
         FROM public.linkedin_jobs_incubadora
-        WHERE status IN ('pending','processing','wait')
+        WHERE org_id = $1
+          AND status IN ('pending','processing','wait')
       ),
       qualified_24h AS (
         SELECT count(*) AS c
         FROM public.linkedin_jobs_incubadora
-        WHERE updated_at >= NOW() - interval '24 hours'
+        WHERE org_id = $1
+          AND updated_at >= NOW() - interval '24 hours'
           AND (
             NULLIF(result_json->'qualifier_llm'->>'is_task_complete','')::boolean IS TRUE
             OR lower(status) LIKE 'qualif%'
@@ -428,7 +1055,8 @@ app.use((req, res, next) => {
       scheduled_24h AS (
         SELECT count(*) AS c
         FROM public.linkedin_jobs_incubadora
-        WHERE updated_at >= NOW() - interval '24 hours'
+        WHERE org_id = $1
+          AND updated_at >= NOW() - interval '24 hours'
           AND (
             NULLIF(result_json->'scheduler_llm'->>'is_task_complete','')::boolean IS TRUE
             OR lower(status) LIKE 'schedul%' OR lower(status) LIKE 'booking%'
@@ -439,12 +1067,14 @@ app.use((req, res, next) => {
           sum((status='pending')::int) AS pending,
           sum((status='processing')::int) AS processing
         FROM public.linkedin_jobs_incubadora
+        WHERE org_id = $1
       ),
       ai_status AS (
         SELECT
           sum((chatwoot_mode = 'ai-on')::int) AS ai_on,
           count(*) AS total
         FROM public.linkedin_jobs_incubadora
+        WHERE org_id = $1
       ),
       ttfr AS (
         SELECT 0::numeric AS seconds
@@ -460,7 +1090,7 @@ app.use((req, res, next) => {
         COALESCE((SELECT total FROM ai_status),0)     AS ai_total,
         COALESCE((SELECT seconds FROM ttfr),0)        AS ttfr_seconds;
       `;
-      const { rows } = await pool.query(sql);
+      const { rows } = await pool.query(sql, [getOrgId(req)]);
       
       if (process.env.DEBUG_DIAGNOSTICS) {
         console.log("[DIAGNOSTICO BFF] Resultado crudo de PostgreSQL:", JSON.stringify(rows, null, 2));
@@ -477,13 +1107,14 @@ app.use((req, res, next) => {
   }));
 
   // === QUEUE STATUS: /api/queue/status ===
-  app.get('/api/queue/status', async (_req, res) => {
+  app.get('/api/queue/status', async (req, res) => {
     try {
       const { rows } = await pool.query(`
         SELECT status, count(*)::int AS count
         FROM public.linkedin_jobs_incubadora
+        WHERE org_id = $1
         GROUP BY status
-      `);
+      `, [getOrgId(req)]);
       const base: Record<string, number> = { pending: 0, processing: 0, wait: 0, done: 0, failed: 0 };
       for (const r of rows) base[r.status] = r.count;
       res.json(Object.entries(base).map(([status, count]) => ({ status, count })));
@@ -494,7 +1125,7 @@ app.use((req, res, next) => {
 
   // === RECENT CONVERSATIONS: /api/activity/recent-conversations ===
   // Últimas 3 conversaciones distintas con su último mensaje detectado en data json
-  app.get('/api/activity/recent-conversations', async (_req, res) => {
+  app.get('/api/activity/recent-conversations', async (req, res) => {
     if (process.env.DEBUG_DIAGNOSTICS) {
       console.log("[DIAGNOSTICO BFF] Solicitando /api/activity/recent-conversations");
     }
@@ -514,7 +1145,8 @@ app.use((req, res, next) => {
             'No hay mensaje registrado'
           ) AS last_message
         FROM public.linkedin_jobs_incubadora
-        WHERE chatwoot_conversation_id IS NOT NULL
+        WHERE org_id = $1
+          AND chatwoot_conversation_id IS NOT NULL
         ORDER BY updated_at DESC
       )
       SELECT DISTINCT ON (chatwoot_conversation_id)
@@ -526,7 +1158,7 @@ app.use((req, res, next) => {
       ORDER BY chatwoot_conversation_id, updated_at DESC
       LIMIT 3;
       `;
-      const { rows } = await pool.query(sql);
+      const { rows } = await pool.query(sql, [getOrgId(req)]);
       
       if (process.env.DEBUG_DIAGNOSTICS) {
         console.log("[DIAGNOSTICO BFF] Resultado crudo de PostgreSQL:", JSON.stringify(rows, null, 2));
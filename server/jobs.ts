@@ -0,0 +1,366 @@
+import { randomUUID } from "crypto";
+import { pool } from "./db";
+import type { BulkJobAction, JobFilter, JobsQuery } from "@shared/contracts";
+import type { AgentType } from "./agents";
+import { broadcast } from "./live";
+
+// linkedin_jobs_incubadora belongs to n8n, which keeps working the queue
+// while operators act on it. row_version (updated_at as text, to the
+// microsecond) is the optimistic lock: n8n and the BFF both bump updated_at.
+const jobColumns = `
+  id::text AS id,
+  user_id,
+  status,
+  agent_type,
+  priority,
+  created_at,
+  updated_at,
+  processing_started_at,
+  COALESCE(retry_count, 0) AS retry_count,
+  finish_status,
+  chatwoot_conversation_id,
+  COALESCE(linkedin_user_data, 'LinkedIn User') AS user_name,
+  COALESCE(updated_at::text, '') AS row_version
+`;
+
+// Same expression as linkedin_jobs_user_search_idx (see ensureTables)
+const userSearchVector = `to_tsvector('simple', COALESCE(linkedin_user_data, '') || ' ' || COALESCE(user_id::text, ''))`;
+
+const sortKeys = {
+  created_at: "created_at",
+  updated_at: "COALESCE(updated_at, created_at)",
+} as const;
+
+function toJob(row: any) {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    user_name: row.user_name || "LinkedIn User",
+    status: row.status,
+    agent_type: row.agent_type,
+    priority: row.priority,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    processing_started_at: row.processing_started_at,
+    retry_count: row.retry_count,
+    finish_status: row.finish_status,
+    chatwoot_conversation_id: row.chatwoot_conversation_id == null ? null : String(row.chatwoot_conversation_id),
+    row_version: row.row_version,
+  };
+}
+
+export type QueueJob = ReturnType<typeof toJob>;
+
+// "mar gon" -> "mar:* & gon:*", so partly typed names match; null when
+// there is nothing to search for
+function toPrefixQuery(text: string) {
+  // Latin letters (accents included) and digits; anything else separates words
+  const words = text.toLowerCase().split(/[^0-9a-z\u00c0-\u024f]+/).filter(Boolean);
+  return words.length ? words.map((word) => `${word}:*`).join(" & ") : null;
+}
+
+// Opaque to clients: the sort key and id of the last row of a page
+function encodeCursor(key: string, id: string) {
+  return Buffer.from(JSON.stringify([key, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [string, string] | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return Array.isArray(value) && value.length === 2 && value.every((part) => typeof part === "string")
+      ? [value[0], value[1]]
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isValidCursor(cursor: string) {
+  return decodeCursor(cursor) !== null;
+}
+
+// WHERE conditions for the filters; status is left out when counting per status
+function jobFilters(orgId: string, query: JobFilter, { withStatus = true } = {}) {
+  const conditions = ["org_id = $1"];
+  const params: unknown[] = [orgId];
+  const add = (condition: (placeholder: string) => string, value: unknown) => {
+    params.push(value);
+    conditions.push(condition(`$${params.length}`));
+  };
+
+  if (withStatus && query.status.length) add((p) => `status::text = ANY(${p})`, query.status);
+  if (query.agent_type.length) add((p) => `agent_type::text = ANY(${p})`, query.agent_type);
+  if (query.finish_status.length) add((p) => `finish_status::text = ANY(${p})`, query.finish_status);
+  if (query.from) add((p) => `created_at >= ${p}`, query.from);
+  if (query.to) add((p) => `created_at <= ${p}`, query.to);
+  if (query.retry_count_min !== undefined) add((p) => `COALESCE(retry_count, 0) >= ${p}`, query.retry_count_min);
+  if (query.retry_count_max !== undefined) add((p) => `COALESCE(retry_count, 0) <= ${p}`, query.retry_count_max);
+  const search = query.q ? toPrefixQuery(query.q) : null;
+  if (search) add((p) => `${userSearchVector} @@ to_tsquery('simple', ${p})`, search);
+
+  return { conditions, params };
+}
+
+// One page of the queue plus job counts per status for the same filters,
+// so the status tabs can show totals beyond the loaded page
+export async function listJobs(orgId: string, query: JobsQuery) {
+  const { conditions, params } = jobFilters(orgId, query);
+  const sortKey = sortKeys[query.sort];
+  const direction = query.order === "asc" ? "ASC" : "DESC";
+
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  if (after) {
+    params.push(after[0], after[1]);
+    const comparison = query.order === "asc" ? ">" : "<";
+    conditions.push(`(${sortKey}, id::text) ${comparison} ($${params.length - 1}, $${params.length})`);
+  }
+  params.push(query.limit + 1);
+
+  const counted = jobFilters(orgId, query, { withStatus: false });
+  const [page, counts] = await Promise.all([
+    pool.query(
+      `SELECT ${jobColumns}, ${sortKey}::text AS sort_key
+       FROM linkedin_jobs_incubadora
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY ${sortKey} ${direction}, id::text ${direction}
+       LIMIT $${params.length}`,
+      params,
+    ),
+    pool.query(
+      `SELECT status, count(*)::int AS count
+       FROM linkedin_jobs_incubadora
+       WHERE ${counted.conditions.join(" AND ")}
+       GROUP BY status`,
+      counted.params,
+    ),
+  ]);
+
+  const rows = page.rows.slice(0, query.limit);
+  const last = rows[rows.length - 1];
+  return {
+    jobs: rows.map(toJob),
+    nextCursor: page.rows.length > query.limit ? encodeCursor(last.sort_key, last.id) : null,
+    counts: Object.fromEntries(counts.rows.map((row) => [row.status ?? "unknown", row.count])) as Record<string, number>,
+  };
+}
+
+export type JobChangeResult =
+  | { outcome: "changed"; before: QueueJob; after: QueueJob }
+  | { outcome: "not_found" }
+  // The job changed since the client loaded it
+  | { outcome: "stale"; current: QueueJob }
+  // The job's state doesn't allow the action
+  | { outcome: "refused"; current: QueueJob; message: string };
+
+interface JobChange {
+  // Why the job can't take the change, or null if it can
+  refuse: (job: QueueJob) => string | null;
+  // SET clause; $3 onwards are params
+  set: string;
+  params?: unknown[];
+}
+
+// Locks the row, checks row_version and the job's state, then applies the
+// change and bumps updated_at, all in one transaction
+async function changeJob(orgId: string, id: string, rowVersion: string, change: JobChange): Promise<JobChangeResult> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const { rows } = await client.query(
+      `SELECT ${jobColumns} FROM linkedin_jobs_incubadora WHERE org_id = $1 AND id::text = $2 FOR UPDATE`,
+      [orgId, id],
+    );
+    if (!rows[0]) {
+      await client.query("ROLLBACK");
+      return { outcome: "not_found" };
+    }
+    const before = toJob(rows[0]);
+    if (before.row_version !== rowVersion) {
+      await client.query("ROLLBACK");
+      return { outcome: "stale", current: before };
+    }
+    const message = change.refuse(before);
+    if (message) {
+      await client.query("ROLLBACK");
+      return { outcome: "refused", current: before, message };
+    }
+
+    const updated = await client.query(
+      `UPDATE linkedin_jobs_incubadora
+       SET ${change.set}, updated_at = NOW()
+       WHERE org_id = $1 AND id::text = $2
+       RETURNING ${jobColumns}`,
+      [orgId, id, ...(change.params ?? [])],
+    );
+    await client.query("COMMIT");
+    return { outcome: "changed", before, after: toJob(updated.rows[0]) };
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+// SET clauses shared by the single-job and bulk actions
+const retrySet = `status = 'pending', retry_count = COALESCE(retry_count, 0) + 1, finish_status = NULL, processing_started_at = NULL`;
+const cancelSet = `status = 'cancelled'`;
+
+// Failed and cancelled jobs go back to pending for n8n to pick up again
+export function retryJob(orgId: string, id: string, rowVersion: string) {
+  return changeJob(orgId, id, rowVersion, {
+    refuse: (job) => (job.status === "failed" || job.status === "cancelled" ? null : `Only failed or cancelled jobs can be retried (this one is ${job.status})`),
+    set: retrySet,
+  });
+}
+
+export function cancelJob(orgId: string, id: string, rowVersion: string) {
+  return changeJob(orgId, id, rowVersion, {
+    refuse: (job) => (job.status === "pending" || job.status === "processing" ? null : `Only pending or processing jobs can be cancelled (this one is ${job.status})`),
+    set: cancelSet,
+  });
+}
+
+export function reassignJob(orgId: string, id: string, rowVersion: string, agentType: AgentType) {
+  return changeJob(orgId, id, rowVersion, {
+    refuse: (job) => {
+      if (job.status === "completed") return "Completed jobs can't be reassigned";
+      return job.agent_type === agentType ? `The job is already with the ${agentType} agent` : null;
+    },
+    set: `agent_type = $3`,
+    params: [agentType],
+  });
+}
+
+// Bulk actions. eligible is the SQL side of the refuse checks above; the
+// placeholder is the target agent, only bound for reassign.
+const bulkChanges: Record<BulkJobAction["action"], { set: (agent: string) => string; eligible: (agent: string) => string }> = {
+  retry: { set: () => retrySet, eligible: () => `status::text IN ('failed', 'cancelled')` },
+  cancel: { set: () => cancelSet, eligible: () => `status::text IN ('pending', 'processing')` },
+  reassign: {
+    set: (agent) => `agent_type = ${agent}`,
+    eligible: (agent) => `status::text IS DISTINCT FROM 'completed' AND agent_type::text IS DISTINCT FROM ${agent}::text`,
+  },
+};
+
+// A bulk run holds its ids in memory and takes a few seconds per thousand jobs
+export const MAX_BULK_JOBS = 10_000;
+const BULK_BATCH_SIZE = 100;
+
+// Jobs the filter matches that the action applies to
+function bulkTargets(orgId: string, input: BulkJobAction) {
+  const { conditions, params } = jobFilters(orgId, input.filter);
+  const change = bulkChanges[input.action];
+  if (input.action === "reassign") params.push(input.agent_type);
+  conditions.push(change.eligible(`$${params.length}`));
+  return { where: conditions.join(" AND "), params };
+}
+
+export async function previewBulkJobs(orgId: string, input: BulkJobAction) {
+  const { where, params } = bulkTargets(orgId, input);
+  const [count, sample] = await Promise.all([
+    pool.query(`SELECT count(*)::int AS count FROM linkedin_jobs_incubadora WHERE ${where}`, params),
+    pool.query(
+      `SELECT ${jobColumns} FROM linkedin_jobs_incubadora WHERE ${where} ORDER BY created_at DESC, id::text DESC LIMIT 10`,
+      params,
+    ),
+  ]);
+  return { count: count.rows[0].count as number, sample: sample.rows.map(toJob) };
+}
+
+// Sent over /ws as bulk_job_progress after every batch
+export interface BulkJobProgress {
+  id: string;
+  action: BulkJobAction["action"];
+  agent_type: AgentType | null;
+  total: number;
+  processed: number;
+  // Jobs changed; the rest stopped matching (n8n moved them) before their batch ran
+  updated: number;
+  skipped: number;
+  status: "running" | "completed" | "failed";
+  error?: string;
+}
+
+export type BulkJobStart =
+  | { outcome: "started"; progress: BulkJobProgress }
+  // Another bulk action is still running for the org
+  | { outcome: "busy" }
+  | { outcome: "too_many"; count: number }
+  // More jobs match than the operator confirmed in the preview
+  | { outcome: "outdated"; count: number };
+
+// One bulk action at a time per org, so two runs can't race over the same jobs
+const runningBulkActions = new Set<string>();
+
+// Collects the matching ids, then applies the action in batches in the
+// background. Each batch re-checks eligibility, so jobs n8n picked up in the
+// meantime are skipped rather than overwritten. onFinish gets the final progress.
+export async function startBulkJobAction(
+  orgId: string,
+  input: BulkJobAction,
+  onFinish: (progress: BulkJobProgress) => void,
+): Promise<BulkJobStart> {
+  if (runningBulkActions.has(orgId)) return { outcome: "busy" };
+  runningBulkActions.add(orgId);
+
+  let ids: string[];
+  try {
+    const { where, params } = bulkTargets(orgId, input);
+    params.push(MAX_BULK_JOBS + 1);
+    const { rows } = await pool.query(
+      `SELECT id::text AS id FROM linkedin_jobs_incubadora WHERE ${where} ORDER BY created_at, id::text LIMIT $${params.length}`,
+      params,
+    );
+    ids = rows.map((row) => row.id);
+  } catch (e) {
+    runningBulkActions.delete(orgId);
+    throw e;
+  }
+  if (ids.length > MAX_BULK_JOBS || (input.expected_count !== undefined && ids.length > input.expected_count)) {
+    runningBulkActions.delete(orgId);
+    return ids.length > MAX_BULK_JOBS ? { outcome: "too_many", count: ids.length } : { outcome: "outdated", count: ids.length };
+  }
+
+  const progress: BulkJobProgress = {
+    id: randomUUID(),
+    action: input.action,
+    agent_type: input.action === "reassign" ? input.agent_type ?? null : null,
+    total: ids.length,
+    processed: 0,
+    updated: 0,
+    skipped: 0,
+    status: "running",
+  };
+  runBulkJobAction(orgId, input, ids, progress)
+    .catch((e) => {
+      console.error(`Bulk job action ${progress.id} failed:`, e);
+      progress.status = "failed";
+      progress.error = e.message || "Bulk action failed";
+    })
+    .finally(() => {
+      runningBulkActions.delete(orgId);
+      broadcast(orgId, "bulk_job_progress", progress);
+      onFinish(progress);
+    });
+  return { outcome: "started", progress: { ...progress } };
+}
+
+async function runBulkJobAction(orgId: string, input: BulkJobAction, ids: string[], progress: BulkJobProgress) {
+  const change = bulkChanges[input.action];
+  const extra = input.action === "reassign" ? [input.agent_type] : [];
+  for (let start = 0; start < ids.length; start += BULK_BATCH_SIZE) {
+    const batch = ids.slice(start, start + BULK_BATCH_SIZE);
+    const { rowCount } = await pool.query(
+      `UPDATE linkedin_jobs_incubadora
+       SET ${change.set("$3")}, updated_at = NOW()
+       WHERE org_id = $1 AND id::text = ANY($2) AND ${change.eligible("$3")}`,
+      [orgId, batch, ...extra],
+    );
+    progress.processed += batch.length;
+    progress.updated += rowCount ?? 0;
+    progress.skipped = progress.processed - progress.updated;
+    if (progress.processed < ids.length) broadcast(orgId, "bulk_job_progress", progress);
+  }
+  progress.status = "completed";
+}
@@ -0,0 +1,23 @@
+import { WebSocket } from "ws";
+
+// Signed-in /ws sockets by organization (see the connection handler in
+// routes.ts), so updates only reach the org they are about
+const sockets = new Map<string, Set<WebSocket>>();
+
+export function addLiveSocket(orgId: string, ws: WebSocket) {
+  const orgSockets = sockets.get(orgId) ?? new Set<WebSocket>();
+  orgSockets.add(ws);
+  sockets.set(orgId, orgSockets);
+  ws.on("close", () => {
+    orgSockets.delete(ws);
+    if (orgSockets.size === 0 && sockets.get(orgId) === orgSockets) sockets.delete(orgId);
+  });
+}
+
+// Same envelope as WebSocketMessage in client/src/types
+export function broadcast(orgId: string, type: string, data: unknown) {
+  const message = JSON.stringify({ type, data, timestamp: new Date().toISOString() });
+  for (const ws of Array.from(sockets.get(orgId) ?? [])) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(message);
+  }
+}
@@ -0,0 +1,84 @@
+import type { Request } from "express";
+import { pool } from "./db";
+
+// Failures allowed before the account locks; each further failure doubles
+// the lockout, starting at one minute and capped at an hour.
+const LOCKOUT_THRESHOLD = 5;
+const MAX_LOCKOUT_MINUTES = 60;
+
+export type LoginResult =
+  | 'success'
+  | 'invalid_password'
+  | 'unknown_user'
+  | 'locked'
+  | 'invalid_code'
+  | 'disabled'
+  // SSO: the IdP didn't vouch for the email, or the account isn't in its org
+  | 'unverified_email'
+  | 'not_member';
+
+export type LoginMethod = 'password' | 'totp' | 'sso';
+
+export interface LoginEvent {
+  userId?: string | null;
+  email: string;
+  method: LoginMethod;
+  result: LoginResult;
+}
+
+// Appends to login_events; never lets a logging failure break the login itself
+export async function logLoginEvent(req: Request, event: LoginEvent) {
+  try {
+    await pool.query(
+      `INSERT INTO public.login_events(user_id, email, method, result, ip, user_agent)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [event.userId ?? null, event.email, event.method, event.result, req.ip || null, req.get('user-agent') || null]
+    );
+  } catch (e: any) {
+    console.error('Failed to record login event:', e.message);
+  }
+}
+
+// Seconds left on the account's lockout, or 0 when it may try again
+export function lockoutRemaining(user: { locked_until?: Date | string | null }) {
+  if (!user.locked_until) return 0;
+  return Math.max(0, Math.ceil((new Date(user.locked_until).getTime() - Date.now()) / 1000));
+}
+
+// Counts a failed password or second-factor attempt and locks the account
+// once the threshold is reached
+export async function recordLoginFailure(userId: string) {
+  const { rows } = await pool.query(
+    `UPDATE public.admin_users SET
+       failed_login_count = failed_login_count + 1,
+       locked_until = CASE
+         WHEN failed_login_count + 1 >= $2
+         THEN NOW() + LEAST(POWER(2, failed_login_count + 1 - $2), $3) * interval '1 minute'
+         ELSE locked_until
+       END
+     WHERE id = $1
+     RETURNING failed_login_count, locked_until`,
+    [userId, LOCKOUT_THRESHOLD, MAX_LOCKOUT_MINUTES]
+  );
+  return rows[0] ?? null;
+}
+
+export async function resetLoginFailures(userId: string) {
+  await pool.query(
+    `UPDATE public.admin_users SET failed_login_count = 0, locked_until = NULL WHERE id = $1`,
+    [userId]
+  );
+}
+
+// Most recent sign-in attempts for one account
+export async function listLoginEvents(userId: string, limit = 50) {
+  const { rows } = await pool.query(
+    `SELECT id, email, method, result, ip, user_agent, created_at
+     FROM public.login_events
+     WHERE user_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [userId, limit]
+  );
+  return rows;
+}
@@ -0,0 +1,153 @@
+import express from "express";
+import { createHash, randomBytes } from "crypto";
+import { pathToFileURL } from "url";
+import { exportJWK, generateKeyPair, SignJWT, type JWTPayload } from "jose";
+
+// Minimal OIDC provider for developing and testing SSO offline: discovery,
+// an authorize endpoint that signs in whoever is asked for, a PKCE-checked
+// token endpoint and the JWKS. It trusts every client and redirect URI.
+//
+//   npm run mock-idp
+//   integrations.idp = { "issuer": "http://localhost:5680", "clientId": "dashboard" }
+//
+// Without a fixed user, /authorize shows a form to choose the email, name,
+// roles and whether the email counts as verified.
+
+export interface MockIdpOptions {
+  issuer: string;
+  // Claims of the user every authorization signs in, skipping the form;
+  // a function so tests can change the user between logins
+  user?: () => MockIdpUser;
+}
+
+export interface MockIdpUser {
+  email: string;
+  email_verified?: boolean;
+  name?: string;
+  roles?: string[];
+  // Anything else to put in the ID token
+  claims?: JWTPayload;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  user: MockIdpUser;
+}
+
+const CODE_TTL_MS = 60_000;
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+export async function createMockIdp({ issuer, user }: MockIdpOptions) {
+  const { publicKey, privateKey } = await generateKeyPair("RS256");
+  const kid = randomBytes(8).toString("hex");
+  const jwk = { ...(await exportJWK(publicKey)), kid, alg: "RS256", use: "sig" };
+  const codes = new Map<string, PendingCode>();
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get("/.well-known/openid-configuration", (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+    });
+  });
+
+  app.get("/jwks", (_req, res) => {
+    res.json({ keys: [jwk] });
+  });
+
+  // Issues a code for `signedIn` and sends the browser back to the client
+  const authorize = (params: Record<string, any>, signedIn: MockIdpUser, res: express.Response) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = params;
+    if (typeof client_id !== "string" || typeof redirect_uri !== "string") {
+      return res.status(400).send("client_id and redirect_uri are required");
+    }
+    if (code_challenge && code_challenge_method !== "S256") {
+      return res.status(400).send("only S256 code challenges are supported");
+    }
+    const code = randomBytes(16).toString("base64url");
+    codes.set(code, { clientId: client_id, redirectUri: redirect_uri, nonce, codeChallenge: code_challenge, user: signedIn });
+    setTimeout(() => codes.delete(code), CODE_TTL_MS).unref();
+    const target = new URL(redirect_uri);
+    target.searchParams.set("code", code);
+    if (state) target.searchParams.set("state", state);
+    res.redirect(target.toString());
+  };
+
+  app.get("/authorize", (req, res) => {
+    if (user) {
+      return authorize(req.query, user(), res);
+    }
+    const hidden = Object.entries(req.query)
+      .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(String(value))}">`)
+      .join("");
+    res.send(`<!doctype html><title>Mock IdP</title>
+      <form method="post" action="/authorize">${hidden}
+        <p><label>Email <input name="email" type="email" required></label></p>
+        <p><label>Name <input name="name"></label></p>
+        <p><label>Roles (comma-separated) <input name="roles"></label></p>
+        <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+        <button>Sign in</button>
+      </form>`);
+  });
+
+  app.post("/authorize", (req, res) => {
+    const { email, name, roles, email_verified, ...params } = req.body;
+    authorize(params, {
+      email,
+      name: name || undefined,
+      roles: roles ? String(roles).split(",").map((role) => role.trim()).filter(Boolean) : undefined,
+      email_verified: email_verified === "on",
+    }, res);
+  });
+
+  app.post("/token", async (req, res) => {
+    const { grant_type, code, client_id, redirect_uri, code_verifier } = req.body;
+    const pending = typeof code === "string" ? codes.get(code) : undefined;
+    codes.delete(code);
+    if (grant_type !== "authorization_code" || !pending || pending.clientId !== client_id || pending.redirectUri !== redirect_uri) {
+      return res.status(400).json({ error: "invalid_grant" });
+    }
+    if (pending.codeChallenge) {
+      const challenge = createHash("sha256").update(String(code_verifier ?? "")).digest("base64url");
+      if (challenge !== pending.codeChallenge) {
+        return res.status(400).json({ error: "invalid_grant", error_description: "code_verifier does not match" });
+      }
+    }
+    const { email, email_verified, name, roles, claims } = pending.user;
+    const idToken = await new SignJWT({ ...claims, email, email_verified, name, roles, nonce: pending.nonce })
+      .setProtectedHeader({ alg: "RS256", kid })
+      .setIssuer(issuer)
+      .setAudience(client_id)
+      .setSubject(`mock|${email}`)
+      .setIssuedAt()
+      .setExpirationTime("5m")
+      .sign(privateKey);
+    res.json({ access_token: randomBytes(16).toString("base64url"), token_type: "Bearer", expires_in: 300, id_token: idToken });
+  });
+
+  return app;
+}
+
+// Run standalone with `npm run mock-idp`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.MOCK_IDP_PORT || "5680", 10);
+  createMockIdp({ issuer: process.env.MOCK_IDP_ISSUER || `http://localhost:${port}` }).then((app) => {
+    app.listen(port, () => {
+      console.log(`Mock IdP listening on http://localhost:${port}`);
+    });
+  });
+}
@@ -1,25 +1,306 @@
 import fetch from "node-fetch";
+import { fromZodError } from "zod-validation-error";
+import { n8nContracts, type N8NWebhook, type N8NRequest, type N8NResponse } from "@shared/contracts";
 
 const N8N_BASE = process.env.N8N_BASE;
 const INTERNAL_KEY = process.env.INTERNAL_KEY;
 
 export const N8N_ENABLED = Boolean(N8N_BASE && INTERNAL_KEY);
 
-export async function callN8N(path: string, payload?: any, init: RequestInit = {}) {
+// Per-call tuning on top of the usual fetch options
+export interface N8NCallOptions extends RequestInit {
+  // Abort the call after this long (default 15s)
+  timeoutMs?: number;
+  // Retry transient failures; on by default for GET only, since a retried
+  // POST could run a workflow twice
+  idempotent?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const MAX_RETRIES = 2;
+const RETRY_BASE_MS = 250;
+// Consecutive failures that open a path's circuit, and how long it stays open
+const CIRCUIT_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 30_000;
+const LATENCY_SAMPLES = 200;
+
+export type N8NOutcome = "success" | "http_error" | "timeout" | "network_error" | "circuit_open";
+
+// One field of an n8n response that did not match its contract
+export interface ContractIssue {
+  path: string;
+  message: string;
+}
+
+// Failure talking to n8n; routes forward `status`, `code` and any contract
+// `issues` to the client
+export class N8NError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public issues?: ContractIssue[],
+  ) {
+    super(message);
+    this.name = "N8NError";
+  }
+}
+
+interface Circuit {
+  failures: number;
+  openedAt: number | null;
+  // A single trial request is let through once the cooldown has passed
+  trialInFlight: boolean;
+}
+
+interface PathMetrics {
+  calls: number;
+  outcomes: Record<N8NOutcome, number>;
+  retries: number;
+  // Successful calls whose body broke the webhook's contract
+  contractViolations: number;
+  latenciesMs: number[];
+  lastError: string | null;
+  lastCallAt: number | null;
+}
+
+const circuits = new Map<string, Circuit>();
+const metrics = new Map<string, PathMetrics>();
+
+// Circuits and metrics are keyed by webhook path, without the query string
+function webhookPath(path: string) {
+  return path.split("?")[0];
+}
+
+function circuitFor(key: string) {
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = { failures: 0, openedAt: null, trialInFlight: false };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
+
+function metricsFor(key: string) {
+  let entry = metrics.get(key);
+  if (!entry) {
+    entry = {
+      calls: 0,
+      outcomes: { success: 0, http_error: 0, timeout: 0, network_error: 0, circuit_open: 0 },
+      retries: 0,
+      contractViolations: 0,
+      latenciesMs: [],
+      lastError: null,
+      lastCallAt: null,
+    };
+    metrics.set(key, entry);
+  }
+  return entry;
+}
+
+function record(key: string, outcome: N8NOutcome, latencyMs: number | null, error?: string) {
+  const entry = metricsFor(key);
+  entry.calls++;
+  entry.outcomes[outcome]++;
+  entry.lastCallAt = Date.now();
+  if (latencyMs != null) {
+    entry.latenciesMs.push(latencyMs);
+    if (entry.latenciesMs.length > LATENCY_SAMPLES) entry.latenciesMs.shift();
+  }
+  if (error) entry.lastError = error;
+}
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+// Snapshot for /api/integrations/n8n/metrics
+export function getN8NMetrics() {
+  return Array.from(metrics.entries()).map(([path, entry]) => {
+    const sorted = [...entry.latenciesMs].sort((a, b) => a - b);
+    const circuit = circuits.get(path);
+    return {
+      path,
+      calls: entry.calls,
+      outcomes: entry.outcomes,
+      retries: entry.retries,
+      contractViolations: entry.contractViolations,
+      latencyMs: { p50: percentile(sorted, 50), p95: percentile(sorted, 95), max: sorted[sorted.length - 1] ?? null },
+      circuit: circuit?.openedAt ? "open" : "closed",
+      lastError: entry.lastError,
+      lastCallAt: entry.lastCallAt ? new Date(entry.lastCallAt).toISOString() : null,
+    };
+  });
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Full jitter: anywhere between 0 and the exponential ceiling
+function backoff(attempt: number) {
+  return Math.random() * RETRY_BASE_MS * 2 ** attempt;
+}
+
+// Fails fast while the path's circuit is open
+function enterCircuit(key: string) {
+  const circuit = circuitFor(key);
+  if (circuit.openedAt == null) return;
+  if (Date.now() - circuit.openedAt < CIRCUIT_COOLDOWN_MS || circuit.trialInFlight) {
+    record(key, "circuit_open", null);
+    throw new N8NError(503, "n8n_circuit_open", `n8n circuit open for ${key}`);
+  }
+  circuit.trialInFlight = true;
+}
+
+function closeCircuit(key: string) {
+  const circuit = circuitFor(key);
+  circuit.failures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+}
+
+function tripCircuit(key: string) {
+  const circuit = circuitFor(key);
+  circuit.failures++;
+  circuit.trialInFlight = false;
+  if (circuit.openedAt != null || circuit.failures >= CIRCUIT_THRESHOLD) {
+    circuit.openedAt = Date.now();
+  }
+}
+
+// One HTTP attempt, classified. 4xx responses mean n8n is up, so they count
+// as a healthy call for the circuit and are never retried.
+async function attempt(url: string, method: string, headers: Record<string, string>, body: string | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { method, headers, body, signal: controller.signal });
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      const transient = res.status >= 500 || res.status === 429;
+      return {
+        outcome: "http_error" as const,
+        transient,
+        error: new N8NError(transient ? 502 : res.status, "n8n_http_error", `n8n ${res.status}: ${text || res.statusText}`),
+      };
+    }
+    const text = await res.text();
+    try {
+      return { outcome: "success" as const, data: text ? JSON.parse(text) : null };
+    } catch {
+      return {
+        outcome: "http_error" as const,
+        transient: false,
+        error: new N8NError(502, "n8n_bad_response", `n8n returned invalid JSON for ${url.split("?")[0]}`),
+      };
+    }
+  } catch (e: any) {
+    if (e.name === "AbortError") {
+      return {
+        outcome: "timeout" as const,
+        transient: true,
+        error: new N8NError(504, "n8n_timeout", `n8n timed out after ${timeoutMs}ms`),
+      };
+    }
+    return {
+      outcome: "network_error" as const,
+      transient: true,
+      error: new N8NError(503, "n8n_unavailable", `n8n unreachable: ${e.message}`),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// The raw JSON answer; callWebhook checks it against the webhook's contract
+export async function callN8N(path: string, payload?: any, init: N8NCallOptions = {}): Promise<unknown> {
   if (!N8N_ENABLED) {
-    throw new Error("n8n_disabled");
+    throw new N8NError(503, "n8n_disabled", "n8n_disabled");
   }
+  const key = webhookPath(path);
   const url = `${N8N_BASE}${path}`;
   const method = init.method || (payload ? "POST" : "GET");
   const headers = {
     "content-type": "application/json",
     "x-internal-key": INTERNAL_KEY!,
-    ...(init.headers || {}),
+    ...((init.headers as Record<string, string>) || {}),
   };
-  const res = await fetch(url, { method, headers, body: payload ? JSON.stringify(payload) : undefined });
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`n8n ${res.status}: ${text || res.statusText}`);
+  const body = payload ? JSON.stringify(payload) : undefined;
+  const retries = (init.idempotent ?? method === "GET") ? MAX_RETRIES : 0;
+  const timeoutMs = init.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  enterCircuit(key);
+  for (let attemptNo = 0; ; attemptNo++) {
+    const started = Date.now();
+    const result = await attempt(url, method, headers, body, timeoutMs);
+    const latency = Date.now() - started;
+
+    if (result.outcome === "success") {
+      record(key, "success", latency);
+      closeCircuit(key);
+      return result.data;
+    }
+    record(key, result.outcome, latency, result.error.message);
+    if (!result.transient) {
+      closeCircuit(key);
+      throw result.error;
+    }
+    tripCircuit(key);
+    if (attemptNo >= retries || circuitFor(key).openedAt != null) {
+      throw result.error;
+    }
+    metricsFor(key).retries++;
+    await sleep(backoff(attemptNo));
+  }
+}
+
+// Tenant-scoped call: GETs carry the org as `orgId` query param, everything
+// else in the JSON body. The org always wins over client-supplied fields.
+export async function callN8NForOrg(orgId: string, path: string, payload?: any, init: N8NCallOptions = {}) {
+  const method = init.method || (payload ? "POST" : "GET");
+  if (method === "GET") {
+    const sep = path.includes("?") ? "&" : "?";
+    return callN8N(`${path}${sep}orgId=${encodeURIComponent(orgId)}`, undefined, init);
+  }
+  return callN8N(path, { ...(payload || {}), orgId }, { ...init, method });
+}
+
+// Calls a tramia-* webhook by name and checks the answer against its
+// contract in shared/contracts.ts, so n8n drift surfaces as a 502 naming the
+// offending fields instead of a broken page. Returns the parsed response.
+export async function callWebhook<W extends N8NWebhook>(
+  orgId: string,
+  webhook: W,
+  payload: N8NRequest<W>,
+  init: N8NCallOptions = {},
+): Promise<N8NResponse<W>> {
+  const contract = n8nContracts[webhook];
+  let path = `/webhook/${webhook}`;
+  let data: unknown;
+  if (contract.method === "GET") {
+    const query = new URLSearchParams();
+    for (const [name, value] of Object.entries(payload as Record<string, unknown>)) {
+      if (value != null) query.set(name, String(value));
+    }
+    if (query.toString()) path += `?${query}`;
+    data = await callN8NForOrg(orgId, path, undefined, { ...init, method: "GET" });
+  } else {
+    data = await callN8NForOrg(orgId, path, payload, { ...init, method: "POST" });
+  }
+
+  const parsed = contract.response.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+    metricsFor(webhookPath(path)).contractViolations++;
+    console.error(`n8n response for ${webhook} broke its contract:`, issues);
+    throw new N8NError(
+      502,
+      "n8n_contract_violation",
+      fromZodError(parsed.error, { prefix: `n8n response for ${webhook} broke its contract` }).toString(),
+      issues,
+    );
   }
-  return res.json();
-}
\ No newline at end of file
+  return parsed.data as N8NResponse<W>;
+}
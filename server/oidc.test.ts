@@ -0,0 +1,212 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { Request } from "express";
+import type { MockIdpUser } from "./mockIdp";
+import type { IdpConfig } from "./oidc";
+
+const ORG = "org-sso";
+const OTHER_ORG = "org-other";
+const REDIRECT_URI = "http://dashboard.test/auth/oidc/callback";
+
+interface Account {
+  id: number;
+  email: string;
+  name: string | null;
+  org_id: string;
+  is_active: boolean;
+  failed_login_count: number;
+  locked_until: Date | null;
+}
+
+// In-memory stand-in for the tables SSO sign-in touches
+const db = {
+  accounts: [] as Account[],
+  memberships: [] as { user_id: number; org_id: string; role: string }[],
+  events: [] as { user_id: string | null; email: string; method: string; result: string }[],
+};
+
+function answer(text: string, params: any[] = []): { rows: any[]; rowCount: number } {
+  const result = (rows: any[]) => ({ rows, rowCount: rows.length });
+  const byId = (id: unknown) => db.accounts.find((account) => String(account.id) === String(id));
+  if (text.includes("FROM public.admin_users WHERE lower(email)")) {
+    return result(db.accounts.filter((account) => account.email === params[0]));
+  }
+  if (text.includes("SELECT 1 FROM public.org_memberships")) {
+    return result(db.memberships.filter((m) => String(m.user_id) === String(params[0]) && m.org_id === params[1]));
+  }
+  if (text.includes("UPDATE public.org_memberships SET role")) {
+    const membership = db.memberships.find((m) => String(m.user_id) === String(params[0]) && m.org_id === params[1]);
+    if (membership) membership.role = params[2];
+    return result(membership ? [membership] : []);
+  }
+  if (text.includes("INSERT INTO public.admin_users")) {
+    const account: Account = {
+      id: db.accounts.length + 1,
+      email: params[0],
+      name: params[3],
+      org_id: params[4],
+      is_active: true,
+      failed_login_count: 0,
+      locked_until: null,
+    };
+    db.accounts.push(account);
+    return result([account]);
+  }
+  if (text.includes("INSERT INTO public.org_memberships")) {
+    db.memberships.push({ user_id: params[0], org_id: params[1], role: params[2] });
+    return result([]);
+  }
+  if (text.includes("SET name")) {
+    const account = byId(params[0])!;
+    account.name = params[1];
+    return result([account]);
+  }
+  if (text.includes("failed_login_count = failed_login_count + 1")) {
+    const account = byId(params[0])!;
+    account.failed_login_count += 1;
+    if (account.failed_login_count >= params[1]) account.locked_until = new Date(Date.now() + 60_000);
+    return result([account]);
+  }
+  if (text.includes("failed_login_count = 0")) {
+    const account = byId(params[0])!;
+    account.failed_login_count = 0;
+    account.locked_until = null;
+    return result([]);
+  }
+  if (text.includes("INSERT INTO public.login_events")) {
+    db.events.push({ user_id: params[0], email: params[1], method: params[2], result: params[3] });
+    return result([]);
+  }
+  return result([]);
+}
+
+vi.mock("./db", () => {
+  const query = async (text: string, params?: any[]) => answer(text, params);
+  return { pool: { query, connect: async () => ({ query, release: () => {} }) }, db: {} };
+});
+
+const { createMockIdp } = await import("./mockIdp");
+const { authorizeSsoLogin, beginLogin, completeLogin, mapRole } = await import("./oidc");
+
+const req = { ip: "127.0.0.1", get: () => "vitest" } as unknown as Request;
+
+let idpServer: Server;
+let idp: IdpConfig;
+let signedIn: MockIdpUser;
+
+beforeAll(async () => {
+  idpServer = createServer();
+  await new Promise<void>((resolve) => idpServer.listen(0, "127.0.0.1", resolve));
+  const issuer = `http://127.0.0.1:${(idpServer.address() as AddressInfo).port}`;
+  idpServer.on("request", await createMockIdp({ issuer, user: () => signedIn }));
+  idp = { issuer, clientId: "dashboard", roleClaim: "roles", roleMap: { "tramia-admins": "admin" }, defaultRole: "viewer" };
+});
+
+afterAll(() => new Promise<void>((resolve) => idpServer.close(() => resolve())));
+
+beforeEach(() => {
+  db.accounts = [];
+  db.memberships = [];
+  db.events = [];
+});
+
+// Browser round trip through the mock IdP, up to the verified ID token
+async function idpLogin(user: MockIdpUser) {
+  signedIn = user;
+  const { url, tx } = await beginLogin(ORG, idp, REDIRECT_URI);
+  const res = await fetch(url, { redirect: "manual" });
+  const callback = new URL(res.headers.get("location")!);
+  expect(callback.searchParams.get("state")).toBe(tx.state);
+  return { tx, code: callback.searchParams.get("code")! };
+}
+
+async function ssoLogin(user: MockIdpUser) {
+  const { tx, code } = await idpLogin(user);
+  const claims = await completeLogin(idp, tx, code, REDIRECT_URI);
+  return authorizeSsoLogin(req, ORG, claims, mapRole(idp, claims));
+}
+
+function addAccount(email: string, homeOrg: string, memberOf: string[]) {
+  const account: Account = { id: db.accounts.length + 1, email, name: null, org_id: homeOrg, is_active: true, failed_login_count: 0, locked_until: null };
+  db.accounts.push(account);
+  for (const org_id of memberOf) db.memberships.push({ user_id: account.id, org_id, role: "viewer" });
+  return account;
+}
+
+describe("OIDC login against the mock IdP", () => {
+  it("provisions first-time users into the IdP's org with the mapped role", async () => {
+    const result = await ssoLogin({ email: "New.User@example.com", email_verified: true, name: "New User", roles: ["tramia-admins"] });
+
+    expect(result).toMatchObject({ ok: true, user: { email: "new.user@example.com", org_id: ORG } });
+    expect(db.memberships).toEqual([{ user_id: 1, org_id: ORG, role: "admin" }]);
+    expect(db.events).toEqual([{ user_id: "1", email: "new.user@example.com", method: "sso", result: "success" }]);
+  });
+
+  it("signs in existing members and syncs their role", async () => {
+    addAccount("member@example.com", ORG, [ORG]);
+    const result = await ssoLogin({ email: "member@example.com", email_verified: true, roles: ["tramia-admins"] });
+
+    expect(result.ok).toBe(true);
+    expect(db.memberships[0].role).toBe("admin");
+  });
+
+  it("does not link accounts outside the IdP's org", async () => {
+    const victim = addAccount("victim@example.com", OTHER_ORG, [OTHER_ORG]);
+    const result = await ssoLogin({ email: "victim@example.com", email_verified: true });
+
+    expect(result).toEqual({ ok: false, error: "sso_not_member" });
+    expect(db.memberships).toEqual([{ user_id: victim.id, org_id: OTHER_ORG, role: "viewer" }]);
+    expect(victim.failed_login_count).toBe(1);
+    expect(db.events.at(-1)).toMatchObject({ user_id: String(victim.id), method: "sso", result: "not_member" });
+  });
+
+  it("requires the IdP to mark the email verified", async () => {
+    for (const email_verified of [undefined, false]) {
+      const result = await ssoLogin({ email: "unverified@example.com", email_verified });
+      expect(result).toEqual({ ok: false, error: "sso_email_unverified" });
+    }
+    expect(db.accounts).toEqual([]);
+    expect(db.events.map((event) => event.result)).toEqual(["unverified_email", "unverified_email"]);
+  });
+
+  it("refuses locked accounts and counts refused attempts toward the lockout", async () => {
+    const victim = addAccount("locked@example.com", OTHER_ORG, [OTHER_ORG]);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await ssoLogin({ email: "locked@example.com", email_verified: true });
+    }
+    expect(victim.locked_until).not.toBeNull();
+
+    // Locked even for the org it belongs to
+    db.memberships.push({ user_id: victim.id, org_id: ORG, role: "viewer" });
+    const result = await ssoLogin({ email: "locked@example.com", email_verified: true });
+    expect(result).toEqual({ ok: false, error: "account_locked" });
+    expect(db.events.at(-1)?.result).toBe("locked");
+  });
+
+  it("refuses deactivated accounts", async () => {
+    const account = addAccount("gone@example.com", ORG, [ORG]);
+    account.is_active = false;
+
+    expect(await ssoLogin({ email: "gone@example.com", email_verified: true })).toEqual({ ok: false, error: "account_disabled" });
+  });
+
+  it("leaves the role of refused members alone", async () => {
+    const locked = addAccount("locked-member@example.com", ORG, [ORG]);
+    locked.locked_until = new Date(Date.now() + 60_000);
+    const disabled = addAccount("disabled-member@example.com", ORG, [ORG]);
+    disabled.is_active = false;
+
+    expect(await ssoLogin({ email: locked.email, email_verified: true, roles: ["tramia-admins"] })).toEqual({ ok: false, error: "account_locked" });
+    expect(await ssoLogin({ email: disabled.email, email_verified: true, roles: ["tramia-admins"] })).toEqual({ ok: false, error: "account_disabled" });
+    expect(db.memberships.map((m) => m.role)).toEqual(["viewer", "viewer"]);
+  });
+
+  it("checks the PKCE verifier and the nonce", async () => {
+    const { tx, code } = await idpLogin({ email: "member@example.com", email_verified: true });
+    await expect(completeLogin(idp, { ...tx, codeVerifier: "tampered" }, code, REDIRECT_URI)).rejects.toThrow(/oidc token 400/);
+
+    const second = await idpLogin({ email: "member@example.com", email_verified: true });
+    await expect(completeLogin(idp, { ...second.tx, nonce: "other" }, second.code, REDIRECT_URI)).rejects.toThrow(/nonce/);
+  });
+});
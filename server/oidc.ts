@@ -0,0 +1,300 @@
+import type { Request, Response } from "express";
+import fetch from "node-fetch";
+import jwt from "jsonwebtoken";
+import bcrypt from "bcryptjs";
+import { createHash, randomBytes } from "crypto";
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from "jose";
+import { pool } from "./db";
+import { lockoutRemaining, logLoginEvent, recordLoginFailure, resetLoginFailures } from "./loginHistory";
+import { roles, type Role } from "@shared/permissions";
+
+// Shape of integrations.idp for an organization
+export interface IdpConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes?: string;
+  // Claim holding the user's groups/roles, e.g. "roles" or "groups"
+  roleClaim?: string;
+  // Claim value -> dashboard role; the most privileged match wins
+  roleMap?: Record<string, Role>;
+  defaultRole?: Role;
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// Pending login kept in a short-lived signed cookie between redirect and callback
+export interface OidcTransaction {
+  orgId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+const OIDC_TX_COOKIE = 'oidc_tx';
+const OIDC_TX_PATH = '/auth/oidc';
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+
+const discoveryCache = new Map<string, { doc: Discovery; fetchedAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+function base64url(buf: Buffer) {
+  return buf.toString("base64url");
+}
+
+export async function discover(issuer: string): Promise<Discovery> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.doc;
+  }
+  const url = `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`oidc discovery ${res.status}: ${url}`);
+  }
+  const doc = (await res.json()) as Discovery;
+  discoveryCache.set(issuer, { doc, fetchedAt: Date.now() });
+  return doc;
+}
+
+export async function loadIdpConfig(orgSlug: string): Promise<{ orgId: string; idp: IdpConfig } | null> {
+  const { rows } = await pool.query(
+    `SELECT o.id AS org_id, i.idp
+     FROM public.organizations o
+     JOIN public.integrations i ON i.org_id = o.id
+     WHERE o.slug = $1 AND i.idp IS NOT NULL
+     LIMIT 1`,
+    [orgSlug]
+  );
+  const row = rows[0];
+  if (!row?.idp?.issuer || !row.idp.clientId) {
+    return null;
+  }
+  return { orgId: row.org_id, idp: row.idp };
+}
+
+export async function loadIdpConfigById(orgId: string): Promise<IdpConfig | null> {
+  const { rows } = await pool.query(
+    `SELECT idp FROM public.integrations WHERE org_id = $1 AND idp IS NOT NULL LIMIT 1`,
+    [orgId]
+  );
+  return rows[0]?.idp ?? null;
+}
+
+// Starts an authorization-code + PKCE (S256) login
+export async function beginLogin(orgId: string, idp: IdpConfig, redirectUri: string) {
+  const { authorization_endpoint } = await discover(idp.issuer);
+  const tx: OidcTransaction = {
+    orgId,
+    state: base64url(randomBytes(16)),
+    nonce: base64url(randomBytes(16)),
+    codeVerifier: base64url(randomBytes(32)),
+  };
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", idp.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", idp.scopes || "openid email profile");
+  url.searchParams.set("state", tx.state);
+  url.searchParams.set("nonce", tx.nonce);
+  url.searchParams.set("code_challenge", base64url(createHash("sha256").update(tx.codeVerifier).digest()));
+  url.searchParams.set("code_challenge_method", "S256");
+  return { url: url.toString(), tx };
+}
+
+// Callback URL registered with the IdP; override when behind a rewriting proxy
+export function redirectUriFor(req: Request) {
+  return process.env.OIDC_REDIRECT_URI || `${req.protocol}://${req.get('host')}${OIDC_TX_PATH}/callback`;
+}
+
+export function setTransactionCookie(res: Response, tx: OidcTransaction) {
+  const sealed = jwt.sign(tx, process.env.SESSION_SECRET!, { expiresIn: '10m', issuer: 'dashboard-oidc' });
+  res.cookie(OIDC_TX_COOKIE, sealed, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: 10 * 60 * 1000,
+    path: OIDC_TX_PATH
+  });
+}
+
+// Reads and consumes the pending login; null when missing, tampered or expired
+export function takeTransaction(req: Request, res: Response): OidcTransaction | null {
+  const raw = req.cookies[OIDC_TX_COOKIE];
+  res.clearCookie(OIDC_TX_COOKIE, { path: OIDC_TX_PATH });
+  if (!raw) return null;
+  try {
+    return jwt.verify(raw, process.env.SESSION_SECRET!, { issuer: 'dashboard-oidc' }) as OidcTransaction;
+  } catch {
+    return null;
+  }
+}
+
+// Exchanges the code and returns the verified ID token claims
+export async function completeLogin(idp: IdpConfig, tx: OidcTransaction, code: string, redirectUri: string) {
+  const { token_endpoint, jwks_uri, issuer } = await discover(idp.issuer);
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    client_id: idp.clientId,
+    code_verifier: tx.codeVerifier,
+  });
+  if (idp.clientSecret) {
+    body.set("client_secret", idp.clientSecret);
+  }
+  const res = await fetch(token_endpoint, {
+    method: "POST",
+    headers: { "content-type": "application/x-www-form-urlencoded", accept: "application/json" },
+    body: body.toString(),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`oidc token ${res.status}: ${text || res.statusText}`);
+  }
+  const tokens = (await res.json()) as { id_token?: string };
+  if (!tokens.id_token) {
+    throw new Error("oidc token response without id_token");
+  }
+
+  let jwks = jwksCache.get(jwks_uri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwks_uri));
+    jwksCache.set(jwks_uri, jwks);
+  }
+  const { payload } = await jwtVerify(tokens.id_token, jwks, { issuer, audience: idp.clientId });
+  if (payload.nonce !== tx.nonce) {
+    throw new Error("oidc nonce mismatch");
+  }
+  return payload;
+}
+
+export function mapRole(idp: IdpConfig, claims: JWTPayload): Role {
+  const raw = claims[idp.roleClaim || "roles"];
+  const values = Array.isArray(raw) ? raw.map(String) : raw != null ? [String(raw)] : [];
+  const mapped = values
+    .map((value) => idp.roleMap?.[value])
+    .filter((role): role is Role => !!role && roles.includes(role));
+  // roles is ordered from most to least privileged
+  for (const role of roles) {
+    if (mapped.includes(role)) return role;
+  }
+  return idp.defaultRole || "viewer";
+}
+
+export type SsoProvisioning =
+  | { outcome: "created" | "linked"; user: any }
+  // An account with this email exists outside the IdP's org. Only the org it
+  // belongs to vouches for it: the IdP's org must invite it first.
+  | { outcome: "not_member"; user: any }
+  // A member whose account is locked or deactivated; nothing was changed
+  | { outcome: "blocked"; user: any }
+  | { outcome: "unverified_email"; email: string };
+
+// Just-in-time provisioning: creates the account on first SSO login, with the
+// IdP's org as its home org. Existing accounts are only signed in when they
+// are already members of that org, and their role there is kept in sync
+// with the IdP claims on every login that will succeed.
+export async function provisionUser(orgId: string, claims: JWTPayload, role: Role): Promise<SsoProvisioning> {
+  const email = typeof claims.email === "string" ? claims.email.trim().toLowerCase() : "";
+  if (!email || claims.email_verified !== true) {
+    return { outcome: "unverified_email", email: email || String(claims.sub ?? "") };
+  }
+  const name = typeof claims.name === "string" ? claims.name : null;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const existing = await client.query(
+      `SELECT * FROM public.admin_users WHERE lower(email) = $1 FOR UPDATE`,
+      [email]
+    );
+    let user = existing.rows[0];
+    if (user) {
+      const membership = await client.query(
+        `SELECT 1 FROM public.org_memberships WHERE user_id = $1 AND org_id = $2`,
+        [user.id, orgId]
+      );
+      if (!membership.rowCount) {
+        await client.query("ROLLBACK");
+        return { outcome: "not_member", user };
+      }
+      if (lockoutRemaining(user) > 0 || !user.is_active) {
+        await client.query("ROLLBACK");
+        return { outcome: "blocked", user };
+      }
+      await client.query(
+        `UPDATE public.org_memberships SET role = $3 WHERE user_id = $1 AND org_id = $2`,
+        [user.id, orgId, role]
+      );
+      if (!user.name && name) {
+        const named = await client.query(
+          `UPDATE public.admin_users SET name = $2 WHERE id = $1 RETURNING *`,
+          [user.id, name]
+        );
+        user = named.rows[0];
+      }
+      await client.query("COMMIT");
+      return { outcome: "linked", user };
+    }
+
+    // SSO accounts get an unguessable password; they sign in through the IdP
+    const unusableHash = await bcrypt.hash(randomBytes(32).toString("hex"), 12);
+    const { rows } = await client.query(
+      `INSERT INTO public.admin_users(email, password_hash, role, name, org_id)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [email, unusableHash, role, name, orgId]
+    );
+    await client.query(
+      `INSERT INTO public.org_memberships(user_id, org_id, role) VALUES ($1, $2, $3)`,
+      [rows[0].id, orgId, role]
+    );
+    await client.query("COMMIT");
+    return { outcome: "created", user: rows[0] };
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+// Whether a verified IdP login may open a session. Like a password login it
+// is recorded in login_events, refused while the account is locked, and a
+// refused attempt on an existing account counts toward its lockout.
+export async function authorizeSsoLogin(
+  req: Request,
+  orgId: string,
+  claims: JWTPayload,
+  role: Role,
+): Promise<{ ok: true; user: any } | { ok: false; error: string }> {
+  const provisioned = await provisionUser(orgId, claims, role);
+  if (provisioned.outcome === "unverified_email") {
+    await logLoginEvent(req, { email: provisioned.email, method: 'sso', result: 'unverified_email' });
+    return { ok: false, error: 'sso_email_unverified' };
+  }
+  const { user } = provisioned;
+  const attempt = { userId: String(user.id), email: user.email, method: 'sso' as const };
+  if (lockoutRemaining(user) > 0) {
+    await logLoginEvent(req, { ...attempt, result: 'locked' });
+    return { ok: false, error: 'account_locked' };
+  }
+  if (provisioned.outcome === "not_member") {
+    await recordLoginFailure(attempt.userId);
+    await logLoginEvent(req, { ...attempt, result: 'not_member' });
+    return { ok: false, error: 'sso_not_member' };
+  }
+  if (!user.is_active) {
+    await logLoginEvent(req, { ...attempt, result: 'disabled' });
+    return { ok: false, error: 'account_disabled' };
+  }
+  await resetLoginFailures(attempt.userId);
+  await logLoginEvent(req, { ...attempt, result: 'success' });
+  return { ok: true, user };
+}
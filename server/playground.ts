@@ -0,0 +1,64 @@
+import { callWebhook } from "./n8n";
+import { conversationPipeline, type AgentParams, type ConversationStage, type PlaygroundTurnInput } from "@shared/contracts";
+import { checkOutput, parseAgentOutput } from "@shared/outputSchema";
+import { recordAgentUsage, type getAgentConfig } from "./agents";
+import { renderAgentPrompt, sampleLead } from "./prompts";
+
+type AgentConfig = NonNullable<Awaited<ReturnType<typeof getAgentConfig>>>;
+
+// n8n reads the same flag from result_json (see the overview metrics); it may
+// arrive as a string
+function isTaskComplete(output: unknown) {
+  if (output === null || typeof output !== "object") return false;
+  const flag = (output as Record<string, unknown>).is_task_complete;
+  return flag === true || flag === "true";
+}
+
+// The message the lead would receive
+export function replyText(output: unknown) {
+  if (typeof output === "string") return output;
+  if (output === null || typeof output !== "object") return null;
+  const { response_text, reply } = output as Record<string, unknown>;
+  if (typeof response_text === "string") return response_text;
+  return typeof reply === "string" ? reply : null;
+}
+
+// Runs the lead's message through the current stage's published config and
+// decides where the next message goes: the same stage until it reports
+// is_task_complete, then the next one; null once the scheduler is done.
+export async function runPlaygroundTurn(orgId: string, config: AgentConfig, turn: PlaygroundTurnInput) {
+  const { model, temperature, maxTokens } = (config.paramsJson ?? {}) as AgentParams;
+  const { text: system } = await renderAgentPrompt(orgId, config.system, sampleLead);
+  const result = await callWebhook(
+    orgId,
+    "tramia-agents-test",
+    {
+      agentType: turn.stage,
+      input: turn.message,
+      history: turn.history,
+      params: { model, temperature, maxTokens },
+      system,
+    },
+    { timeoutMs: 60_000 },
+  );
+  if (result.tokensUsed > 0) {
+    await recordAgentUsage(orgId, turn.stage, "test", result.tokensUsed, result.estimatedCost);
+  }
+
+  const output = result.success ? parseAgentOutput(result.output) : result.output;
+  const complete = result.success && isTaskComplete(output);
+  const next: ConversationStage | null = complete
+    ? conversationPipeline[conversationPipeline.indexOf(turn.stage) + 1] ?? null
+    : turn.stage;
+
+  return {
+    ...result,
+    output,
+    stage: turn.stage,
+    version: config.version,
+    reply: result.success ? replyText(output) : null,
+    // null when there is nothing to check: no schema, or the run failed
+    schemaViolations: config.outputSchema && result.success ? checkOutput(config.outputSchema, output) : null,
+    handoff: { complete, next },
+  };
+}
@@ -0,0 +1,166 @@
+import { and, asc, eq, inArray, like } from "drizzle-orm";
+import { db } from "./db";
+import { callWebhook } from "./n8n";
+import { agentConfigs, agentConfigVersions, agentExperiments, organizations, promptSnippets } from "@shared/schema";
+import type { ExperimentVariant, FollowupSettings, LeadVariables, PromptSnippetInput, UpdatePromptSnippet } from "@shared/contracts";
+import { checkTemplate, renderTemplate, templateSnippets, type PromptVariables } from "@shared/promptTemplate";
+import type { AgentAuthor } from "./agents";
+
+// Stand-in lead for runs without a real one (test bench, playground, evals)
+export const sampleLead: LeadVariables = { lead_name: "María González", campaign: "Sample campaign" };
+
+function toSnippet(row: typeof promptSnippets.$inferSelect) {
+  return {
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export async function listSnippets(orgId: string) {
+  const rows = await db
+    .select()
+    .from(promptSnippets)
+    .where(eq(promptSnippets.orgId, orgId))
+    .orderBy(asc(promptSnippets.name));
+  return rows.map(toSnippet);
+}
+
+async function snippetNames(orgId: string) {
+  const rows = await db
+    .select({ name: promptSnippets.name })
+    .from(promptSnippets)
+    .where(eq(promptSnippets.orgId, orgId));
+  return rows.map((row) => row.name);
+}
+
+// Problems with an agent's system prompt as a template; empty when it renders
+export async function checkPromptTemplate(orgId: string, template: string) {
+  return checkTemplate(template, await snippetNames(orgId));
+}
+
+// Snippets expand one level, so their own text may use variables only
+export function checkSnippetBody(body: string) {
+  return checkTemplate(body, [], { inSnippet: true });
+}
+
+// A taken name hits the unique index (23505)
+export async function createSnippet(orgId: string, author: AgentAuthor, input: PromptSnippetInput) {
+  const [row] = await db
+    .insert(promptSnippets)
+    .values({ ...input, orgId, createdBy: author.id, createdByName: author.name })
+    .returning();
+  return toSnippet(row);
+}
+
+// Returns null if the snippet is unknown
+export async function updateSnippet(orgId: string, id: string, input: UpdatePromptSnippet) {
+  const [before] = await db
+    .select()
+    .from(promptSnippets)
+    .where(and(eq(promptSnippets.orgId, orgId), eq(promptSnippets.id, id)));
+  if (!before) return null;
+  const [row] = await db
+    .update(promptSnippets)
+    .set({ ...input, updatedAt: new Date() })
+    .where(eq(promptSnippets.id, id))
+    .returning();
+  return { before: toSnippet(before), after: toSnippet(row) };
+}
+
+export async function deleteSnippet(orgId: string, id: string) {
+  const [row] = await db
+    .delete(promptSnippets)
+    .where(and(eq(promptSnippets.orgId, orgId), eq(promptSnippets.id, id)))
+    .returning();
+  return row ? toSnippet(row) : null;
+}
+
+// Agents whose published prompt, or a variant of their running experiment,
+// includes the snippet; n8n is served both
+export async function findSnippetUsage(orgId: string, name: string) {
+  const [published, experiments] = await Promise.all([
+    db
+      .select({ agentType: agentConfigs.agentType, system: agentConfigs.system })
+      .from(agentConfigs)
+      .where(and(eq(agentConfigs.orgId, orgId), like(agentConfigs.system, "%{{%"))),
+    db
+      .select({ agentType: agentExperiments.agentType, variants: agentExperiments.variants })
+      .from(agentExperiments)
+      .where(and(eq(agentExperiments.orgId, orgId), eq(agentExperiments.status, "running"))),
+  ]);
+  const served = new Set(experiments.flatMap((experiment) =>
+    (experiment.variants as ExperimentVariant[]).map((variant) => `${experiment.agentType}/${variant.version}`)
+  ));
+  const variants = served.size === 0 ? [] : await db
+    .select({ agentType: agentConfigVersions.agentType, version: agentConfigVersions.version, system: agentConfigVersions.system })
+    .from(agentConfigVersions)
+    .where(and(
+      eq(agentConfigVersions.orgId, orgId),
+      inArray(agentConfigVersions.agentType, experiments.map((experiment) => experiment.agentType)),
+      like(agentConfigVersions.system, "%{{%"),
+    ));
+  const rows = [...published, ...variants.filter((row) => served.has(`${row.agentType}/${row.version}`))];
+  const agentTypes = rows.filter((row) => templateSnippets(row.system).includes(name)).map((row) => row.agentType);
+  return Array.from(new Set(agentTypes));
+}
+
+// Business hours live in the follow-up settings on n8n. Resolve renders a
+// prompt for every production run, so they are cached per org and fetched
+// with a short timeout and no retries; a failed fetch is cached too, so an
+// n8n outage costs one slow render per org and TTL, not one per run.
+const BUSINESS_HOURS_TTL_MS = 5 * 60 * 1000;
+const BUSINESS_HOURS_TIMEOUT_MS = 2_000;
+
+const businessHoursCache = new Map<string, { value: string | undefined; fetchedAt: number }>();
+
+function formatBusinessHours(hours: FollowupSettings["workingHours"] | undefined) {
+  return hours && `${hours.start}:00–${hours.end}:00`;
+}
+
+async function loadBusinessHours(orgId: string) {
+  const cached = businessHoursCache.get(orgId);
+  if (cached && Date.now() - cached.fetchedAt < BUSINESS_HOURS_TTL_MS) {
+    return cached.value;
+  }
+  const followups = await callWebhook(orgId, "tramia-settings-followups-get", {}, {
+    idempotent: false,
+    timeoutMs: BUSINESS_HOURS_TIMEOUT_MS,
+  }).catch(() => null);
+  const value = formatBusinessHours(followups?.workingHours);
+  businessHoursCache.set(orgId, { value, fetchedAt: Date.now() });
+  return value;
+}
+
+// Follow-up settings saved through the BFF apply to the next render
+export function cacheBusinessHours(orgId: string, settings: FollowupSettings) {
+  businessHoursCache.set(orgId, { value: formatBusinessHours(settings.workingHours), fetchedAt: Date.now() });
+}
+
+// The org's snippets plus the variables that come from its settings. If n8n
+// can't answer for business hours, that variable is reported missing rather
+// than failing the render.
+export async function loadPromptContext(orgId: string) {
+  const [rows, [org], businessHours] = await Promise.all([
+    db.select({ name: promptSnippets.name, body: promptSnippets.body }).from(promptSnippets).where(eq(promptSnippets.orgId, orgId)),
+    db.select({ timezone: organizations.timezone }).from(organizations).where(eq(organizations.id, orgId)),
+    loadBusinessHours(orgId),
+  ]);
+  const variables: PromptVariables = {
+    org_timezone: org?.timezone,
+    business_hours: businessHours,
+  };
+  return { snippets: Object.fromEntries(rows.map((row) => [row.name, row.body])), variables };
+}
+
+export type PromptContext = Awaited<ReturnType<typeof loadPromptContext>>;
+
+// The prompt the LLM receives for one lead; unfilled tags stay in the text
+// and are listed in missing
+export function renderPrompt(context: PromptContext, template: string, lead: LeadVariables) {
+  return renderTemplate(template, context.snippets, { ...context.variables, ...lead });
+}
+
+export async function renderAgentPrompt(orgId: string, template: string, lead: LeadVariables) {
+  return renderPrompt(await loadPromptContext(orgId), template, lead);
+}
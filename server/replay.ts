@@ -0,0 +1,142 @@
+import { pool } from "./db";
+import { callWebhook } from "./n8n";
+import type { AgentConfigVersion } from "@shared/schema";
+import type { AgentParams, ConversationMessage } from "@shared/contracts";
+import { checkOutput, parseAgentOutput } from "@shared/outputSchema";
+import { isAgentType, recordAgentUsage, type AgentType } from "./agents";
+import { replyText } from "./playground";
+import { renderAgentPrompt } from "./prompts";
+
+// Replies re-run per replay; each one is an LLM call
+const MAX_REPLAYED_TURNS = 20;
+
+// Where n8n keeps each agent's latest output in result_json
+const resultKeys: Record<AgentType, string> = {
+  qualifier: "qualifier_llm",
+  objections: "objeciones_llm",
+  closer: "closer_llm",
+  scheduler: "scheduler_llm",
+  followups: "follow_up_llm",
+  pooling: "pooling_llm",
+};
+
+type TranscriptMessage = ConversationMessage & { at: string | null };
+
+// Timeline entries from tramia-conversations-get: inbound messages are the
+// lead's, "agent" entries carry the agent type, other outbound messages were
+// written by a human. Anything else (tags, status changes) is skipped.
+function toTranscript(timeline: Record<string, unknown>[]): TranscriptMessage[] {
+  const messages: TranscriptMessage[] = [];
+  for (const entry of timeline) {
+    const content = typeof entry.text === "string" ? entry.text : typeof entry.content === "string" ? entry.content : null;
+    if (content === null) continue;
+    const at = typeof entry.at === "string" ? entry.at : null;
+    if (entry.type === "agent") {
+      const agentType = typeof entry.agentType === "string" && isAgentType(entry.agentType) ? entry.agentType : undefined;
+      messages.push({ role: "agent", agentType, content, at });
+    } else if (entry.type === "message") {
+      messages.push({ role: entry.direction === "inbound" ? "lead" : "agent", content, at });
+    }
+  }
+  return messages;
+}
+
+// The job row and the transcript of its conversation; null if the job is unknown
+export async function loadJobConversation(orgId: string, jobId: string) {
+  const { rows } = await pool.query(
+    `SELECT id, status, agent_type, created_at, result_json, linkedin_user_data
+     FROM linkedin_jobs_incubadora
+     WHERE org_id = $1 AND id::text = $2`,
+    [orgId, jobId]
+  );
+  if (!rows[0]) return null;
+
+  const conversation = await callWebhook(orgId, "tramia-conversations-get", { id: jobId });
+  return { job: rows[0], transcript: toTranscript(conversation.timeline) };
+}
+
+type JobConversation = NonNullable<Awaited<ReturnType<typeof loadJobConversation>>>;
+
+async function replayTurn(orgId: string, target: AgentConfigVersion, system: string, input: string, history: ConversationMessage[]) {
+  const { model, temperature, maxTokens } = (target.paramsJson ?? {}) as AgentParams;
+  try {
+    const result = await callWebhook(
+      orgId,
+      "tramia-agents-test",
+      {
+        agentType: target.agentType,
+        input,
+        history,
+        params: { model, temperature, maxTokens },
+        system,
+        outputSchema: (target.outputSchema ?? null) as Record<string, unknown> | null,
+      },
+      { timeoutMs: 60_000 },
+    );
+    if (result.tokensUsed > 0) {
+      await recordAgentUsage(orgId, target.agentType, "test", result.tokensUsed, result.estimatedCost);
+    }
+    const output = result.success ? parseAgentOutput(result.output) : result.output;
+    return {
+      ...result,
+      output,
+      reply: result.success ? replyText(output) : null,
+      schemaViolations: target.outputSchema && result.success ? checkOutput(target.outputSchema as Record<string, unknown>, output) : null,
+    };
+  } catch (e: any) {
+    return {
+      success: false,
+      output: null,
+      reply: null,
+      tokensUsed: 0,
+      estimatedCost: 0,
+      schemaViolations: null,
+      error: e.message || "Agent run failed",
+    };
+  }
+}
+
+// Re-runs every reply the version's agent gave in the conversation, each with
+// the real messages before it as history, so the original and the new reply
+// answer the same thing. Replies with no lead message before them (openers)
+// are not replayed. Returns null if the agent never replied.
+export async function replayJob(orgId: string, target: AgentConfigVersion, { job, transcript }: JobConversation) {
+  const turns = transcript.map((message, index) => {
+    if (message.role !== "agent" || message.agentType !== target.agentType) return null;
+    let start = index;
+    while (start > 0 && transcript[start - 1].role === "lead") start--;
+    if (start === index) return null;
+    return {
+      index,
+      input: transcript.slice(start, index).map((lead) => lead.content).join("\n"),
+      history: transcript.slice(0, start).map(({ role, agentType, content }) => ({ role, agentType, content })),
+    };
+  }).filter((turn) => turn !== null).slice(-MAX_REPLAYED_TURNS);
+  if (turns.length === 0) return null;
+
+  // The job only knows the lead's name; its campaign stays unfilled
+  const { text: system } = await renderAgentPrompt(orgId, target.system, {
+    lead_name: typeof job.linkedin_user_data === "string" ? job.linkedin_user_data : undefined,
+  });
+
+  // Turns don't depend on each other's new replies, so they run side by side
+  const replies = await Promise.all(turns.map((turn) => replayTurn(orgId, target, system, turn.input, turn.history)));
+
+  return {
+    job: {
+      id: String(job.id),
+      status: job.status,
+      agentType: job.agent_type,
+      createdAt: job.created_at,
+    },
+    agentType: target.agentType,
+    version: target.version,
+    // What the agent stored on the job the last time it ran
+    originalOutput: job.result_json?.[resultKeys[target.agentType]] ?? null,
+    messages: transcript.map((message, index) => {
+      const turn = turns.findIndex((entry) => entry.index === index);
+      return { ...message, replay: turn === -1 ? null : replies[turn] };
+    }),
+    tokensUsed: replies.reduce((sum, reply) => sum + reply.tokensUsed, 0),
+  };
+}
@@ -1,45 +1,787 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { callN8N } from "./n8n";
+import { callWebhook, getN8NMetrics, N8NError } from "./n8n";
+import type { PoolClient } from "@neondatabase/serverless";
 import { pool } from "./db";
+import { getSession, getOrgId, findMembership, loadIdentity, signToken, setSessionCookie, clearSessionCookie, requirePermission, authenticateSocket } from "./auth";
+import { listSessions, revokeSession, revokeAllSessions, setSessionOrg } from "./sessions";
+import { createApiKey, listApiKeys, revokeApiKey } from "./apiKeys";
+import { listLoginEvents, resetLoginFailures } from "./loginHistory";
+import { beginEnrollment, confirmEnrollment, verifySecondFactor, disableTwoFactor, orgRequiresTwoFactor } from "./totp";
+import { can } from "@shared/permissions";
+import { listAuditLogs, recordAudit } from "./audit";
+import {
+  isAgentType,
+  listAgentConfigs,
+  getAgentConfig,
+  saveAgentDraft,
+  listAgentVersions,
+  findAgentVersion,
+  requestAgentReview,
+  approveAgentVersion,
+  rejectAgentVersion,
+  listVersionComments,
+  addVersionComment,
+  rollbackAgentConfig,
+  getAllowedModels,
+  checkAgentParams,
+  getAgentUsage,
+  recordAgentUsage,
+} from "./agents";
+import {
+  listExperiments,
+  checkExperimentVariants,
+  createExperiment,
+  stopExperiment,
+  resolveAgentConfig,
+  getExperimentResults,
+} from "./experiments";
+import { listTestCases, createTestCase, updateTestCase, deleteTestCase, startEvalRun, listEvalRuns, getEvalRun } from "./evals";
+import { runPlaygroundTurn } from "./playground";
+import { loadJobConversation, replayJob } from "./replay";
+import { listJobs, isValidCursor, retryJob, cancelJob, reassignJob, previewBulkJobs, startBulkJobAction, MAX_BULK_JOBS, type JobChangeResult } from "./jobs";
+import { addLiveSocket } from "./live";
+import {
+  listSnippets,
+  createSnippet,
+  updateSnippet,
+  deleteSnippet,
+  findSnippetUsage,
+  checkPromptTemplate,
+  checkSnippetBody,
+  loadPromptContext,
+  renderPrompt,
+  renderAgentPrompt,
+  sampleLead,
+  cacheBusinessHours,
+} from "./prompts";
+import { insertOrganizationSchema, inviteUserSchema, updateUserRoleSchema, createApiKeySchema } from "@shared/schema";
+import {
+  conversationActionSchema,
+  jobsQuerySchema,
+  retryJobSchema,
+  cancelJobSchema,
+  reassignJobSchema,
+  bulkJobActionSchema,
+  updateAgentSchema,
+  versionCommentSchema,
+  approveVersionSchema,
+  rejectVersionSchema,
+  testAgentSchema,
+  playgroundTurnSchema,
+  createExperimentSchema,
+  resolveAgentConfigSchema,
+  reportAgentUsageSchema,
+  testCaseSchema,
+  runEvalSchema,
+  replayJobSchema,
+  promptSnippetSchema,
+  updatePromptSnippetSchema,
+  previewPromptSchema,
+  createKnowledgeSchema,
+  updateKnowledgeSchema,
+  knowledgeSearchSchema,
+  gatingSettingsSchema,
+  followupSettingsSchema,
+  webhookLogsQuerySchema,
+  type AgentParams,
+} from "@shared/contracts";
+import { checkOutputSchema, checkOutput } from "@shared/outputSchema";
+import type { TemplateIssue } from "@shared/promptTemplate";
+import { fromZodError } from "zod-validation-error";
+import bcrypt from "bcryptjs";
+import { randomBytes } from "crypto";
+
+// Member of orgId as listed in the Users tab, or undefined
+async function findMember(orgId: string, userId: string) {
+  const { rows } = await pool.query(`
+    SELECT u.id, u.email, u.name, u.is_active, u.last_login_at, u.totp_enabled_at, u.locked_until, m.role, m.created_at AS joined_at,
+      u.org_id IS NOT DISTINCT FROM m.org_id AS manages_account
+    FROM org_memberships m
+    JOIN admin_users u ON u.id = m.user_id
+    WHERE m.org_id = $1 AND m.user_id = $2
+  `, [orgId, userId]);
+  return rows[0] ? toMember(rows[0]) : undefined;
+}
+
+function toMember(row: any) {
+  return {
+    id: row.id.toString(),
+    email: row.email,
+    name: row.name || row.email.split('@')[0],
+    role: row.role,
+    is_active: row.is_active,
+    last_login_at: row.last_login_at,
+    two_factor_enabled: row.totp_enabled_at != null,
+    locked_until: row.locked_until && new Date(row.locked_until) > new Date() ? row.locked_until : null,
+    joined_at: row.joined_at,
+    // The account (password, is_active, lockout, 2FA) is shared by every org
+    // the user belongs to, so only their home org (admin_users.org_id) manages it
+    manages_account: row.manages_account === true
+  };
+}
+
+function sendNotAccountOrg(res: Response) {
+  res.status(403).json({ message: "Only the user's home organization can manage their account", code: "not_account_org" });
+}
+
+// 400 with the same { message, code, issues } shape as n8n contract errors,
+// so the Schema tab can point at the offending keys
+function sendSchemaIssues(res: Response, outputSchema: unknown) {
+  const issues = outputSchema ? checkOutputSchema(outputSchema) : [];
+  if (issues.length === 0) return false;
+  res.status(400).json({ message: "Output schema is not valid JSON Schema", code: "invalid_output_schema", issues });
+  return true;
+}
+
+function sendTemplateIssues(res: Response, issues: TemplateIssue[]) {
+  if (issues.length === 0) return false;
+  res.status(400).json({ message: "Prompt template has unknown variables or snippets", code: "invalid_prompt_template", issues });
+  return true;
+}
+
+// A missing variable leaves a gap; a missing snippet would send the raw
+// {{> name}} tag and drop whole instructions, so that prompt isn't run
+function sendMissingSnippets(res: Response, missing: string[]) {
+  const snippets = missing.filter((tag) => tag.startsWith("> ")).map((tag) => tag.slice(2));
+  if (snippets.length === 0) return false;
+  res.status(409).json({ message: `Prompt includes snippets that don't exist: ${snippets.join(", ")}`, code: "missing_snippets", snippets });
+  return true;
+}
+
+// Answers for a job action that didn't apply; the current job comes back
+// with 409 so the client can refresh its row
+function sendJobChangeError(res: Response, result: JobChangeResult): result is Exclude<JobChangeResult, { outcome: "changed" }> {
+  switch (result.outcome) {
+    case "changed":
+      return false;
+    case "not_found":
+      res.status(404).json({ message: "Job not found" });
+      return true;
+    case "stale":
+      res.status(409).json({ message: "The job changed since you loaded it; review it and try again", code: "stale_job", job: result.current });
+      return true;
+    case "refused":
+      res.status(409).json({ message: result.message, code: "invalid_job_state", job: result.current });
+      return true;
+  }
+}
+
+// n8n failures keep their own status and code (e.g. 503 n8n_circuit_open,
+// 504 n8n_timeout, 502 n8n_contract_violation with its issues) so the client
+// can tell an outage from a bug
+function sendError(res: Response, e: any, fallback: string, status = 500) {
+  if (e instanceof N8NError) {
+    return res.status(e.status).json({ message: e.message, code: e.code, issues: e.issues });
+  }
+  res.status(status).json({ message: e.message || fallback });
+}
+
+// One-time password handed to the admin for invites and resets
+function generateTemporaryPassword() {
+  return randomBytes(12).toString("base64url");
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth & User routes
   app.get("/api/me", async (req, res) => {
     try {
-      // Query real user data from database
-      const userQuery = await pool.query(`
-        SELECT id, email, role, created_at 
-        FROM admin_users 
-        WHERE is_active = true 
-        LIMIT 1
-      `);
-      
-      if (userQuery.rows.length > 0) {
-        const user = userQuery.rows[0];
-        res.json({
-          isAuthenticated: true,
-          user: { 
-            id: user.id.toString(), 
-            name: user.email.split('@')[0], // Use email prefix as name
-            email: user.email, 
-            roles: [user.role] 
-          },
-          organization: { 
-            id: "tramia", 
-            name: "Tramia", 
-            slug: "tramia" 
-          }
-        });
-      } else {
-        res.status(401).json({ message: "No active user found" });
+      const identity = await loadIdentity(getSession(req));
+      if (!identity) {
+        return res.status(401).json({ message: "User not found or deactivated" });
       }
+      res.json({ isAuthenticated: true, ...identity });
     } catch (e: any) {
       res.status(500).json({ message: e.message || "Failed to fetch user" });
     }
   });
 
+  // Organizations routes (membership-checked; exempt from requireOrg)
+  app.get("/api/orgs", async (req, res) => {
+    try {
+      const session = getSession(req);
+      const { rows } = await pool.query(`
+        SELECT o.id, o.name, o.slug, o.timezone, o.created_at, m.role
+        FROM org_memberships m
+        JOIN organizations o ON o.id = m.org_id
+        WHERE m.user_id = $1
+        ORDER BY o.name
+      `, [session.sub]);
+
+      res.json(rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        slug: row.slug,
+        timezone: row.timezone,
+        role: row.role,
+        active: row.id === session.org,
+        created_at: row.created_at
+      })));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch organizations" });
+    }
+  });
+
+  app.post("/api/orgs", async (req, res) => {
+    const parsed = insertOrganizationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    const { name, slug, timezone } = parsed.data;
+    let client: PoolClient | undefined;
+    try {
+      client = await pool.connect();
+      await client.query("BEGIN");
+      const { rows } = await client.query(`
+        INSERT INTO organizations(name, slug, timezone)
+        VALUES ($1, $2, COALESCE($3, 'America/Argentina/Buenos_Aires'))
+        RETURNING id, name, slug, timezone, require_two_factor, created_at
+      `, [name, slug, timezone ?? null]);
+      // The creator administers the new workspace
+      await client.query(`
+        INSERT INTO org_memberships(user_id, org_id, role) VALUES ($1, $2, 'admin')
+      `, [getSession(req).sub, rows[0].id]);
+      await client.query("COMMIT");
+      res.status(201).json({ ...rows[0], role: "admin" });
+    } catch (e: any) {
+      await client?.query("ROLLBACK").catch(() => {});
+      if (e.code === "23505") {
+        return res.status(409).json({ message: "Slug already in use" });
+      }
+      res.status(500).json({ message: e.message || "Failed to create organization" });
+    } finally {
+      client?.release();
+    }
+  });
+
+  // Invitations to the caller's account from other orgs (see /api/users/invite)
+  app.get("/api/orgs/invitations", async (req, res) => {
+    try {
+      const { rows } = await pool.query(`
+        SELECT o.id AS org_id, o.name AS org_name, o.slug AS org_slug, i.role, inviter.email AS invited_by, i.created_at
+        FROM org_invitations i
+        JOIN organizations o ON o.id = i.org_id
+        LEFT JOIN admin_users inviter ON inviter.id = i.invited_by
+        WHERE i.user_id = $1
+        ORDER BY i.created_at DESC
+      `, [getSession(req).sub]);
+      res.json(rows);
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch invitations" });
+    }
+  });
+
+  app.post("/api/orgs/invitations/:orgId/accept", async (req, res) => {
+    const session = getSession(req);
+    let client: PoolClient | undefined;
+    try {
+      client = await pool.connect();
+      await client.query("BEGIN");
+      const { rows } = await client.query(`
+        DELETE FROM org_invitations WHERE org_id = $1 AND user_id = $2 RETURNING role
+      `, [req.params.orgId, session.sub]);
+      if (!rows[0]) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      await client.query(`
+        INSERT INTO org_memberships(user_id, org_id, role) VALUES ($1, $2, $3)
+        ON CONFLICT DO NOTHING
+      `, [session.sub, req.params.orgId, rows[0].role]);
+      await client.query("COMMIT");
+      res.json({ org_id: req.params.orgId, role: rows[0].role });
+    } catch (e: any) {
+      await client?.query("ROLLBACK").catch(() => {});
+      res.status(500).json({ message: e.message || "Failed to accept invitation" });
+    } finally {
+      client?.release();
+    }
+  });
+
+  app.post("/api/orgs/invitations/:orgId/decline", async (req, res) => {
+    try {
+      const { rowCount } = await pool.query(`
+        DELETE FROM org_invitations WHERE org_id = $1 AND user_id = $2
+      `, [req.params.orgId, getSession(req).sub]);
+      if (!rowCount) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to decline invitation" });
+    }
+  });
+
+  app.get("/api/orgs/:id", async (req, res) => {
+    try {
+      const membership = await findMembership(getSession(req).sub, req.params.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const { rows } = await pool.query(`
+        SELECT id, name, slug, timezone, require_two_factor, allowed_models, created_at, updated_at
+        FROM organizations
+        WHERE id = $1
+      `, [req.params.id]);
+      res.json({ ...rows[0], role: membership.role });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch organization" });
+    }
+  });
+
+  app.put("/api/orgs/:id", async (req, res) => {
+    const parsed = insertOrganizationSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const membership = await findMembership(getSession(req).sub, req.params.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (!can(membership.role, "manage:organization")) {
+        return res.status(403).json({ error: "forbidden", permission: "manage:organization" });
+      }
+      const { name, slug, timezone, requireTwoFactor, allowedModels } = parsed.data;
+      const { rows } = await pool.query(`
+        UPDATE organizations SET
+          name = COALESCE($2, name),
+          slug = COALESCE($3, slug),
+          timezone = COALESCE($4, timezone),
+          require_two_factor = COALESCE($5, require_two_factor),
+          allowed_models = COALESCE($6::text[], allowed_models),
+          updated_at = NOW()
+        WHERE id = $1
+        RETURNING id, name, slug, timezone, require_two_factor, allowed_models, created_at, updated_at
+      `, [req.params.id, name ?? null, slug ?? null, timezone ?? null, requireTwoFactor ?? null, allowedModels ?? null]);
+      res.json({ ...rows[0], role: membership.role });
+    } catch (e: any) {
+      if (e.code === "23505") {
+        return res.status(409).json({ message: "Slug already in use" });
+      }
+      res.status(500).json({ message: e.message || "Failed to update organization" });
+    }
+  });
+
+  app.delete("/api/orgs/:id", async (req, res) => {
+    let client: PoolClient | undefined;
+    try {
+      const membership = await findMembership(getSession(req).sub, req.params.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (!can(membership.role, "manage:organization")) {
+        return res.status(403).json({ error: "forbidden", permission: "manage:organization" });
+      }
+      if (req.params.id === getSession(req).org) {
+        return res.status(409).json({ message: "Switch to another organization before deleting this one" });
+      }
+      // One transaction, so a delete refused for attached data leaves the
+      // members' home org in place
+      client = await pool.connect();
+      await client.query("BEGIN");
+      await client.query(`UPDATE admin_users SET org_id = NULL WHERE org_id = $1`, [req.params.id]);
+      await client.query(`DELETE FROM organizations WHERE id = $1`, [req.params.id]);
+      await client.query("COMMIT");
+      res.json({ ok: true });
+    } catch (e: any) {
+      await client?.query("ROLLBACK").catch(() => {});
+      if (e.code === "23503") {
+        return res.status(409).json({ message: "Organization still has data attached" });
+      }
+      res.status(500).json({ message: e.message || "Failed to delete organization" });
+    } finally {
+      client?.release();
+    }
+  });
+
+  app.get("/api/orgs/:id/members", async (req, res) => {
+    try {
+      const membership = await findMembership(getSession(req).sub, req.params.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      const { rows } = await pool.query(`
+        SELECT u.id, u.email, u.name, u.is_active, u.last_login_at, u.totp_enabled_at, u.locked_until, m.role, m.created_at AS joined_at,
+          u.org_id IS NOT DISTINCT FROM m.org_id AS manages_account
+        FROM org_memberships m
+        JOIN admin_users u ON u.id = m.user_id
+        WHERE m.org_id = $1
+        ORDER BY u.email
+      `, [req.params.id]);
+
+      res.json(rows.map(toMember));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch members" });
+    }
+  });
+
+  // Re-issues the session token with another organization as the active one
+  app.post("/api/orgs/:id/switch", async (req, res) => {
+    try {
+      const session = getSession(req);
+      const membership = await findMembership(session.sub, req.params.id);
+      if (!membership) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (await orgRequiresTwoFactor(membership.org_id)) {
+        const { rows } = await pool.query(`SELECT totp_enabled_at FROM admin_users WHERE id = $1`, [session.sub]);
+        if (!rows[0]?.totp_enabled_at) {
+          return res.status(403).json({ message: "This organization requires two-factor authentication" });
+        }
+      }
+      // Persist on the session so refreshed tokens keep the chosen org
+      await setSessionOrg(session.sess, membership.org_id);
+      setSessionCookie(res, signToken({ id: session.sub, email: session.email }, membership, session.sess));
+      res.json({ ok: true, orgId: membership.org_id, role: membership.role });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to switch organization" });
+    }
+  });
+
+  // Sessions routes (the caller's own signed-in devices)
+  app.get("/api/sessions", async (req, res) => {
+    try {
+      const session = getSession(req);
+      const rows = await listSessions(session.sub);
+      res.json(rows.map((row) => ({ ...row, current: row.id === session.sess })));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", async (req, res) => {
+    try {
+      const revoked = await revokeSession(req.params.id, getSession(req).sub);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to revoke session" });
+    }
+  });
+
+  // Sign out everywhere, including this browser
+  app.post("/api/sessions/revoke-all", async (req, res) => {
+    try {
+      const revoked = await revokeAllSessions(getSession(req).sub);
+      clearSessionCookie(res);
+      res.json({ ok: true, revoked });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to revoke sessions" });
+    }
+  });
+
+  // Two-factor routes (the caller's own TOTP enrollment)
+  app.post("/api/2fa/enroll", async (req, res) => {
+    try {
+      const session = getSession(req);
+      const { rows } = await pool.query(`SELECT totp_enabled_at FROM admin_users WHERE id = $1`, [session.sub]);
+      if (rows[0]?.totp_enabled_at) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+      res.json(await beginEnrollment(session.sub, session.email));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to start enrollment" });
+    }
+  });
+
+  app.post("/api/2fa/confirm", async (req, res) => {
+    try {
+      const session = getSession(req);
+      const recoveryCodes = await confirmEnrollment(session.sub, String(req.body?.code || ""));
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+      await recordAudit(req, "enabled two-factor authentication for", session.email);
+      res.json({ ok: true, recoveryCodes });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to enable two-factor authentication" });
+    }
+  });
+
+  // Turning 2FA off needs a current code and is blocked where the org enforces it
+  app.post("/api/2fa/disable", async (req, res) => {
+    try {
+      const session = getSession(req);
+      if (await orgRequiresTwoFactor(session.org)) {
+        return res.status(409).json({ message: "This organization requires two-factor authentication" });
+      }
+      if (!(await verifySecondFactor(session.sub, String(req.body?.code || "")))) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+      await disableTwoFactor(session.sub);
+      await recordAudit(req, "disabled two-factor authentication for", session.email);
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Users routes (members of the active organization)
+  app.get("/api/users", requirePermission("manage:users"), async (req, res) => {
+    try {
+      const { rows } = await pool.query(`
+        SELECT u.id, u.email, u.name, u.is_active, u.last_login_at, u.totp_enabled_at, u.locked_until, m.role, m.created_at AS joined_at,
+          u.org_id IS NOT DISTINCT FROM m.org_id AS manages_account
+        FROM org_memberships m
+        JOIN admin_users u ON u.id = m.user_id
+        WHERE m.org_id = $1
+        ORDER BY u.email
+      `, [getOrgId(req)]);
+
+      res.json(rows.map(toMember));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch users" });
+    }
+  });
+
+  // Creates an account with a temporary password. An existing account is
+  // only invited: it joins once its owner accepts (see /api/orgs/invitations),
+  // so no org can attach someone else's account on its own.
+  app.post("/api/users/invite", requirePermission("manage:users"), async (req, res) => {
+    const parsed = inviteUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    const { email, name, role } = parsed.data;
+    const orgId = getOrgId(req);
+    let client: PoolClient | undefined;
+    try {
+      client = await pool.connect();
+      await client.query("BEGIN");
+      const existing = await client.query(`SELECT id FROM admin_users WHERE lower(email) = $1`, [email]);
+      const existingId = existing.rows[0]?.id;
+
+      if (existingId) {
+        const member = await client.query(`SELECT 1 FROM org_memberships WHERE user_id = $1 AND org_id = $2`, [existingId, orgId]);
+        if (member.rowCount) {
+          await client.query("ROLLBACK");
+          return res.status(409).json({ message: "User is already a member of this organization" });
+        }
+        await client.query(`
+          INSERT INTO org_invitations(org_id, user_id, role, invited_by) VALUES ($1, $2, $3, $4)
+          ON CONFLICT (org_id, user_id) DO UPDATE SET role = EXCLUDED.role, invited_by = EXCLUDED.invited_by, created_at = NOW()
+        `, [orgId, existingId, role, getSession(req).sub]);
+        await client.query("COMMIT");
+
+        await recordAudit(req, "invited user", email, undefined, { role, pending: true });
+        return res.status(202).json({ email, role, pending: true });
+      }
+
+      const temporaryPassword = generateTemporaryPassword();
+      const hash = await bcrypt.hash(temporaryPassword, 12);
+      const created = await client.query(`
+        INSERT INTO admin_users(email, password_hash, role, name, org_id)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id
+      `, [email, hash, role, name ?? null, orgId]);
+      const userId = created.rows[0].id;
+      await client.query(`
+        INSERT INTO org_memberships(user_id, org_id, role) VALUES ($1, $2, $3)
+      `, [userId, orgId, role]);
+      await client.query("COMMIT");
+
+      await recordAudit(req, "invited user", email, undefined, { role });
+      const member = await findMember(orgId, String(userId));
+      res.status(201).json({ ...member, temporaryPassword });
+    } catch (e: any) {
+      await client?.query("ROLLBACK").catch(() => {});
+      res.status(500).json({ message: e.message || "Failed to invite user" });
+    } finally {
+      client?.release();
+    }
+  });
+
+  app.patch("/api/users/:id", requirePermission("manage:users"), async (req, res) => {
+    const parsed = updateUserRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const orgId = getOrgId(req);
+      const member = await findMember(orgId, req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const { role } = parsed.data;
+      if (member.role === "admin" && role !== "admin") {
+        const { rows } = await pool.query(`
+          SELECT count(*)::int AS admins
+          FROM org_memberships m
+          JOIN admin_users u ON u.id = m.user_id
+          WHERE m.org_id = $1 AND m.role = 'admin' AND u.is_active = TRUE
+        `, [orgId]);
+        if (rows[0].admins <= 1) {
+          return res.status(409).json({ message: "Organization needs at least one active admin" });
+        }
+      }
+      await pool.query(`
+        UPDATE org_memberships SET role = $3 WHERE org_id = $1 AND user_id = $2
+      `, [orgId, req.params.id, role]);
+
+      await recordAudit(req, "changed role of", member.email, { role: member.role }, { role });
+      res.json({ ...member, role });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to update user" });
+    }
+  });
+
+  app.post("/api/users/:id/deactivate", requirePermission("manage:users"), async (req, res) => {
+    try {
+      const member = await findMember(getOrgId(req), req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!member.manages_account) {
+        return sendNotAccountOrg(res);
+      }
+      if (member.id === getSession(req).sub) {
+        return res.status(409).json({ message: "You cannot deactivate your own account" });
+      }
+      await pool.query(`UPDATE admin_users SET is_active = FALSE WHERE id = $1`, [req.params.id]);
+      await revokeAllSessions(req.params.id);
+
+      await recordAudit(req, "deactivated user", member.email, { is_active: member.is_active }, { is_active: false });
+      res.json({ ...member, is_active: false });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to deactivate user" });
+    }
+  });
+
+  app.post("/api/users/:id/activate", requirePermission("manage:users"), async (req, res) => {
+    try {
+      const member = await findMember(getOrgId(req), req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!member.manages_account) {
+        return sendNotAccountOrg(res);
+      }
+      await pool.query(`UPDATE admin_users SET is_active = TRUE WHERE id = $1`, [req.params.id]);
+
+      await recordAudit(req, "reactivated user", member.email, { is_active: member.is_active }, { is_active: true });
+      res.json({ ...member, is_active: true });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to activate user" });
+    }
+  });
+
+  app.post("/api/users/:id/reset-password", requirePermission("manage:users"), async (req, res) => {
+    try {
+      const member = await findMember(getOrgId(req), req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!member.manages_account) {
+        return sendNotAccountOrg(res);
+      }
+      const temporaryPassword = generateTemporaryPassword();
+      const hash = await bcrypt.hash(temporaryPassword, 12);
+      await pool.query(`UPDATE admin_users SET password_hash = $2 WHERE id = $1`, [req.params.id, hash]);
+      await revokeAllSessions(req.params.id);
+      await resetLoginFailures(req.params.id);
+
+      await recordAudit(req, "reset password for", member.email);
+      res.json({ ok: true, temporaryPassword });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to reset password" });
+    }
+  });
+
+  app.post("/api/users/:id/unlock", requirePermission("manage:users"), async (req, res) => {
+    try {
+      const member = await findMember(getOrgId(req), req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!member.manages_account) {
+        return sendNotAccountOrg(res);
+      }
+      await resetLoginFailures(req.params.id);
+
+      await recordAudit(req, "unlocked", member.email, { locked_until: member.locked_until }, { locked_until: null });
+      res.json({ ...member, locked_until: null });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to unlock user" });
+    }
+  });
+
+  // Recent sign-in attempts (successful and failed) for one member
+  app.get("/api/users/:id/logins", requirePermission("manage:users"), async (req, res) => {
+    try {
+      const member = await findMember(getOrgId(req), req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(await listLoginEvents(req.params.id));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch login history" });
+    }
+  });
+
+  // Lost-device recovery: the user signs in with their password and enrolls again
+  app.post("/api/users/:id/reset-2fa", requirePermission("manage:users"), async (req, res) => {
+    try {
+      const member = await findMember(getOrgId(req), req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!member.manages_account) {
+        return sendNotAccountOrg(res);
+      }
+      await disableTwoFactor(req.params.id);
+      await revokeAllSessions(req.params.id);
+
+      await recordAudit(req, "reset two-factor authentication for", member.email);
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // API keys routes (machine access for scripts and n8n)
+  app.get("/api/api-keys", requirePermission("manage:api-keys"), async (req, res) => {
+    try {
+      res.json(await listApiKeys(getOrgId(req)));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch API keys" });
+    }
+  });
+
+  app.post("/api/api-keys", requirePermission("manage:api-keys"), async (req, res) => {
+    const parsed = createApiKeySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const { name, scopes, expiresInDays } = parsed.data;
+      const { apiKey, key } = await createApiKey(getOrgId(req), getSession(req).sub, name, scopes, expiresInDays);
+
+      await recordAudit(req, "created API key", name, undefined, { scopes, expires_at: apiKey.expires_at });
+      // The plaintext key is only ever returned here
+      res.status(201).json({ ...apiKey, key });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to create API key" });
+    }
+  });
+
+  app.delete("/api/api-keys/:id", requirePermission("manage:api-keys"), async (req, res) => {
+    try {
+      const revoked = await revokeApiKey(getOrgId(req), req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+
+      await recordAudit(req, "revoked API key", revoked.name, { scopes: revoked.scopes });
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to revoke API key" });
+    }
+  });
+
   // Reports routes
   app.get("/api/reports/overview", async (req, res) => {
     try {
@@ -51,12 +793,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           COUNT(CASE WHEN scheduled_at IS NOT NULL THEN 1 END) as scheduled,
           COUNT(CASE WHEN status IN ('active', 'pending') THEN 1 END) as active_leads
         FROM linkedin_jobs_incubadora
-      `);
+        WHERE org_id = $1
+      `, [getOrgId(req)]);
 
       const hrQuery = await pool.query(`
         SELECT COUNT(*) as hr_accepted 
         FROM hr_inbound_seen
-      `);
+        WHERE org_id = $1
+      `, [getOrgId(req)]);
 
       const overview = overviewQuery.rows[0];
       const hrData = hrQuery.rows[0];
@@ -67,10 +811,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           DATE(created_at) as date,
           COUNT(*) as jobs
         FROM linkedin_jobs_incubadora 
-        WHERE created_at >= NOW() - INTERVAL '7 days'
+        WHERE org_id = $1
+          AND created_at >= NOW() - INTERVAL '7 days'
         GROUP BY DATE(created_at)
         ORDER BY date DESC
-      `);
+      `, [getOrgId(req)]);
 
       const trends = trendsQuery.rows.map(row => ({
         date: row.date,
@@ -93,42 +838,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/reports/agents", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-reports-agents`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-reports-agents", {});
       res.json(data);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch agents report" });
+      sendError(res, e, "Failed to fetch agents report");
     }
   });
 
   app.get("/api/reports/funnel", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-reports-funnel`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-reports-funnel", {});
       res.json(data);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch funnel report" });
+      sendError(res, e, "Failed to fetch funnel report");
     }
   });
 
   app.get("/api/reports/costs", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-reports-costs`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-reports-costs", {});
       res.json(data);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch costs report" });
+      sendError(res, e, "Failed to fetch costs report");
     }
   });
 
   app.get("/api/reports/ops", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-reports-ops`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-reports-ops", {});
       res.json(data);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch ops report" });
+      sendError(res, e, "Failed to fetch ops report");
     }
   });
 
   // Conversations routes
-  app.get("/api/conversations", async (_req, res) => {
+  app.get("/api/conversations", async (req, res) => {
     try {
       // Query real conversation data from linkedin jobs
       const conversationsQuery = await pool.query(`
@@ -144,9 +889,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           qualified_at,
           scheduled_at
         FROM linkedin_jobs_incubadora 
+        WHERE org_id = $1
         ORDER BY created_at DESC
         LIMIT 50
-      `);
+      `, [getOrgId(req)]);
 
       const conversations = conversationsQuery.rows.map(row => ({
         id: row.id.toString(),
@@ -169,187 +915,929 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/conversations/:id", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-conversations-get?id=${encodeURIComponent(req.params.id)}`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-conversations-get", { id: req.params.id });
       res.json(data); // { id, timeline:[...] }
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch conversation" });
+      sendError(res, e, "Failed to fetch conversation");
     }
   });
 
-  app.post("/api/conversations/:id/actions", async (req, res) => {
+  app.post("/api/conversations/:id/actions", requirePermission("manage:conversations"), async (req, res) => {
+    const parsed = conversationActionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
     try {
-      const data = await callN8N(`/webhook/tramia-conv-action`, { id: req.params.id, ...req.body });
+      const data = await callWebhook(getOrgId(req), "tramia-conv-action", { id: req.params.id, ...parsed.data });
       res.json(data); // { ok:true }
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to perform action" });
+      sendError(res, e, "Failed to perform action");
     }
   });
 
-  // Jobs (queue) routes
-  app.get("/api/jobs", async (_req, res) => {
+  // Jobs (queue) routes, served straight from linkedin_jobs_incubadora
+  app.get("/api/jobs", async (req, res) => {
+    const parsed = jobsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    if (parsed.data.cursor && !isValidCursor(parsed.data.cursor)) {
+      return res.status(400).json({ message: "Invalid cursor" });
+    }
     try {
-      // Query real job data from database
-      const jobsQuery = await pool.query(`
-        SELECT 
-          id,
-          user_id,
-          status,
-          agent_type,
-          priority,
-          created_at,
-          updated_at,
-          processing_started_at,
-          retry_count,
-          finish_status,
-          COALESCE(linkedin_user_data, 'LinkedIn User') as user_name
-        FROM linkedin_jobs_incubadora 
-        ORDER BY created_at DESC
-        LIMIT 100
-      `);
-
-      const jobs = jobsQuery.rows.map(row => ({
-        id: row.id.toString(),
-        user_id: row.user_id,
-        user_name: row.user_name || 'LinkedIn User',
-        status: row.status,
-        agent_type: row.agent_type,
-        priority: row.priority,
-        created_at: row.created_at,
-        updated_at: row.updated_at,
-        processing_started_at: row.processing_started_at,
-        retry_count: row.retry_count || 0,
-        finish_status: row.finish_status
-      }));
-
-      res.json(jobs);
+      res.json(await listJobs(getOrgId(req), parsed.data)); // { jobs, nextCursor, counts }
     } catch (e: any) {
       res.status(500).json({ message: e.message || "Failed to fetch jobs" });
     }
   });
 
-  app.post("/api/jobs/:id/retry", async (req, res) => {
+  app.post("/api/jobs/:id/retry", requirePermission("manage:jobs"), async (req, res) => {
+    const parsed = retryJobSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
     try {
-      const data = await callN8N(`/webhook/tramia-jobs-retry`, { id: req.params.id });
-      res.json(data); // { ok:true }
+      const result = await retryJob(getOrgId(req), req.params.id, parsed.data.row_version);
+      if (sendJobChangeError(res, result)) {
+        return;
+      }
+      await recordAudit(req, "retried job", `job ${req.params.id}`, result.before, result.after);
+      res.json(result.after);
     } catch (e: any) {
       res.status(500).json({ message: e.message || "Failed to retry job" });
     }
   });
 
-  app.post("/api/jobs/:id/cancel", async (req, res) => {
+  app.post("/api/jobs/:id/cancel", requirePermission("manage:jobs"), async (req, res) => {
+    const parsed = cancelJobSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
     try {
-      const data = await callN8N(`/webhook/tramia-jobs-cancel`, { id: req.params.id });
-      res.json(data); // { ok:true }
+      const result = await cancelJob(getOrgId(req), req.params.id, parsed.data.row_version);
+      if (sendJobChangeError(res, result)) {
+        return;
+      }
+      await recordAudit(req, "cancelled job", `job ${req.params.id}`, result.before, result.after);
+      res.json(result.after);
     } catch (e: any) {
       res.status(500).json({ message: e.message || "Failed to cancel job" });
     }
   });
 
-  app.post("/api/jobs/:id/reassign", async (req, res) => {
+  app.post("/api/jobs/:id/reassign", requirePermission("manage:jobs"), async (req, res) => {
+    const parsed = reassignJobSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
     try {
-      const data = await callN8N(`/webhook/tramia-jobs-reassign`, { id: req.params.id, ...req.body });
-      res.json(data); // { ok:true }
+      const result = await reassignJob(getOrgId(req), req.params.id, parsed.data.row_version, parsed.data.agent_type);
+      if (sendJobChangeError(res, result)) {
+        return;
+      }
+      await recordAudit(req, `reassigned job to ${parsed.data.agent_type}`, `job ${req.params.id}`, result.before, result.after);
+      res.json(result.after);
     } catch (e: any) {
       res.status(500).json({ message: e.message || "Failed to reassign job" });
     }
   });
 
-  // Agents (prompts & test) routes
-  app.get("/api/agents", async (_req, res) => {
+  // Bulk actions over every job a filter matches: dry_run returns the count
+  // and a sample to confirm, otherwise the run starts in the background and
+  // reports bulk_job_progress over /ws. The audit log gets one entry per run.
+  app.post("/api/jobs/bulk", requirePermission("manage:jobs"), async (req, res) => {
+    const parsed = bulkJobActionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    const input = parsed.data;
     try {
-      const agents = await callN8N(`/webhook/tramia-agents-get`, undefined, { method: "GET" });
-      res.json(agents); // [{ agentType, system, outputSchema, paramsJson, version }, ...]
+      if (input.dry_run) {
+        return res.json(await previewBulkJobs(getOrgId(req), input)); // { count, sample }
+      }
+      const result = await startBulkJobAction(getOrgId(req), input, (progress) => {
+        const action = input.action === "reassign" ? `bulk reassigned jobs to ${input.agent_type}` : `bulk ${input.action === "retry" ? "retried" : "cancelled"} jobs`;
+        recordAudit(req, action, `${progress.updated} jobs`, undefined, { filter: input.filter, ...progress }).catch((e) => {
+          console.error(`Failed to audit bulk job action ${progress.id}:`, e);
+        });
+      });
+      switch (result.outcome) {
+        case "busy":
+          return res.status(409).json({ message: "Another bulk action is still running for this organization", code: "bulk_action_running" });
+        case "too_many":
+          return res.status(400).json({ message: `More than ${MAX_BULK_JOBS} jobs match; narrow the filter`, code: "bulk_action_too_large" });
+        case "outdated":
+          return res.status(409).json({ message: `${result.count} jobs match now, more than the ${input.expected_count} previewed`, code: "bulk_preview_outdated", count: result.count });
+      }
+      res.status(202).json(result.progress);
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to run bulk job action" });
+    }
+  });
+
+  // Agents (prompts & test) routes. Configs live in agent_configs, which
+  // n8n reads directly, so editing them does not depend on n8n being up.
+  // agent_configs only ever holds published versions: saves are drafts
+  // until an admin approves them. Their system prompts are templates (see
+  // shared/promptTemplate.ts) that n8n gets rendered from /resolve.
+  app.get("/api/agents", async (req, res) => {
+    try {
+      res.json(await listAgentConfigs(getOrgId(req)));
     } catch (e: any) {
       res.status(500).json({ message: e.message || "Failed to fetch agents" });
     }
   });
 
-  app.put("/api/agents/:agentType", async (req, res) => {
+  // Models the Params tab may offer (set per org via PUT /api/orgs/:id)
+  app.get("/api/agents/models", async (req, res) => {
     try {
-      const saved = await callN8N(`/webhook/tramia-agents-update`, { agentType: req.params.agentType, ...req.body });
-      res.json(saved); // { ok:true, version }
+      res.json({ models: await getAllowedModels(getOrgId(req)) });
     } catch (e: any) {
-      res.status(400).json({ message: e.message || "Invalid agent configuration" });
+      res.status(500).json({ message: e.message || "Failed to fetch allowed models" });
     }
   });
 
-  app.post("/api/agents/:agentType/test", async (req, res) => {
+  app.put("/api/agents/:agentType", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = updateAgentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    if (sendSchemaIssues(res, parsed.data.outputSchema)) {
+      return;
+    }
+    try {
+      const orgId = getOrgId(req);
+      const problem = await checkAgentParams(orgId, parsed.data.paramsJson);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      if (sendTemplateIssues(res, await checkPromptTemplate(orgId, parsed.data.system))) {
+        return;
+      }
+
+      const session = getSession(req);
+      const draft = await saveAgentDraft(orgId, agentType, { id: session.sub, name: session.email }, parsed.data);
+      await recordAudit(req, `saved agent draft v${draft.version}`, agentType, undefined, draft);
+      res.json({ ok: true, version: draft.version, status: draft.status });
+    } catch (e: any) {
+      if (e.code === "23505") {
+        return res.status(409).json({ message: "Someone else just saved this agent; save again" });
+      }
+      res.status(500).json({ message: e.message || "Failed to save agent configuration" });
+    }
+  });
+
+  app.get("/api/agents/:agentType/versions", async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
     try {
-      const result = await callN8N(`/webhook/tramia-agents-test`, { agentType: req.params.agentType, input: req.body?.input });
-      res.json(result); // { success, output, tokensUsed, estimatedCost }
+      res.json(await listAgentVersions(getOrgId(req), agentType));
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Agent test failed" });
+      res.status(500).json({ message: e.message || "Failed to fetch agent versions" });
+    }
+  });
+
+  app.post("/api/agents/:agentType/versions/:version/review", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType, version } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      const target = await findAgentVersion(getOrgId(req), agentType, version);
+      if (!target) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      const requested = await requestAgentReview(target);
+      if (!requested) {
+        return res.status(409).json({ message: `v${version} is not a draft` });
+      }
+
+      await recordAudit(req, `requested review of agent v${version}`, agentType);
+      res.json(requested);
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to request review" });
+    }
+  });
+
+  // Approving publishes the version: it becomes the config n8n runs
+  app.post("/api/agents/:agentType/versions/:version/approve", requirePermission("publish:agents"), async (req, res) => {
+    const { agentType, version } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = approveVersionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const orgId = getOrgId(req);
+      const target = await findAgentVersion(orgId, agentType, version);
+      if (!target) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      // The org may have dropped the draft's model while it waited for review
+      const problem = await checkAgentParams(orgId, (target.paramsJson ?? {}) as AgentParams);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      if (sendSchemaIssues(res, target.outputSchema)) {
+        return;
+      }
+      // A snippet it includes may have been deleted in the meantime
+      if (sendTemplateIssues(res, await checkPromptTemplate(orgId, target.system))) {
+        return;
+      }
+
+      const session = getSession(req);
+      const result = await approveAgentVersion(target, { id: session.sub, name: session.email }, parsed.data.comment);
+      if (!result) {
+        return res.status(409).json({ message: `v${version} is not awaiting review` });
+      }
+
+      await recordAudit(req, `published agent v${version}`, agentType, result.before, result.after);
+      res.json({ ok: true, version: result.after.version });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to publish agent version" });
+    }
+  });
+
+  app.post("/api/agents/:agentType/versions/:version/reject", requirePermission("publish:agents"), async (req, res) => {
+    const { agentType, version } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = rejectVersionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const target = await findAgentVersion(getOrgId(req), agentType, version);
+      if (!target) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const session = getSession(req);
+      const rejected = await rejectAgentVersion(target, { id: session.sub, name: session.email }, parsed.data.comment);
+      if (!rejected) {
+        return res.status(409).json({ message: `v${version} is not awaiting review` });
+      }
+
+      await recordAudit(req, `rejected agent v${version}`, agentType, undefined, { comment: parsed.data.comment });
+      res.json(rejected);
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to reject agent version" });
+    }
+  });
+
+  app.get("/api/agents/:agentType/versions/:version/comments", async (req, res) => {
+    const { agentType, version } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      const target = await findAgentVersion(getOrgId(req), agentType, version);
+      if (!target) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      res.json(await listVersionComments(target));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch comments" });
+    }
+  });
+
+  app.post("/api/agents/:agentType/versions/:version/comments", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType, version } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = versionCommentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const target = await findAgentVersion(getOrgId(req), agentType, version);
+      if (!target) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const session = getSession(req);
+      res.status(201).json(await addVersionComment(target, { id: session.sub, name: session.email }, parsed.data.body));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to add comment" });
+    }
+  });
+
+  // Republishes an old published version's content as the newest version.
+  // It goes live without a review, so it takes the permission approving does.
+  app.post("/api/agents/:agentType/versions/:version/rollback", requirePermission("publish:agents"), async (req, res) => {
+    const { agentType, version } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      const orgId = getOrgId(req);
+      const target = await findAgentVersion(orgId, agentType, version);
+      if (!target) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      if (target.status !== "published") {
+        return res.status(400).json({ message: "Only versions that were published can be rolled back to; request a review instead" });
+      }
+      // The org may have dropped the version's model since it was saved, and
+      // versions from before schema validation may hold an invalid schema
+      const problem = await checkAgentParams(orgId, (target.paramsJson ?? {}) as AgentParams);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      if (sendSchemaIssues(res, target.outputSchema)) {
+        return;
+      }
+      if (sendTemplateIssues(res, await checkPromptTemplate(orgId, target.system))) {
+        return;
+      }
+
+      const session = getSession(req);
+      const result = await rollbackAgentConfig(orgId, target, { id: session.sub, name: session.email });
+      await recordAudit(req, `rolled back agent to v${version}`, agentType, result.before, result.after);
+      res.json({ ok: true, version: result.after.version });
+    } catch (e: any) {
+      if (e.code === "23505") {
+        return res.status(409).json({ message: "Someone else just saved this agent; try again" });
+      }
+      res.status(500).json({ message: e.message || "Failed to roll back agent" });
+    }
+  });
+
+  // A/B experiments between saved versions of one agent
+  app.get("/api/agents/:agentType/experiments", async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      res.json(await listExperiments(getOrgId(req), agentType));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch experiments" });
+    }
+  });
+
+  app.post("/api/agents/:agentType/experiments", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = createExperimentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const orgId = getOrgId(req);
+      const problem = await checkExperimentVariants(orgId, agentType, parsed.data.variants);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      const session = getSession(req);
+      const experiment = await createExperiment(orgId, agentType, { id: session.sub, name: session.email }, parsed.data);
+      await recordAudit(req, "started experiment", agentType, undefined, experiment);
+      res.status(201).json(experiment);
+    } catch (e: any) {
+      if (e.code === "23505") {
+        return res.status(409).json({ message: "Another experiment is already running for this agent" });
+      }
+      res.status(500).json({ message: e.message || "Failed to start experiment" });
+    }
+  });
+
+  app.post("/api/agents/:agentType/experiments/:id/stop", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType, id } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      const experiment = await stopExperiment(getOrgId(req), agentType, id);
+      if (!experiment) {
+        return res.status(404).json({ message: "No running experiment with that id" });
+      }
+
+      await recordAudit(req, "stopped experiment", agentType, undefined, experiment);
+      res.json(experiment);
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to stop experiment" });
+    }
+  });
+
+  app.get("/api/agents/:agentType/experiments/:id/results", async (req, res) => {
+    const { agentType, id } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      const results = await getExperimentResults(getOrgId(req), agentType, id);
+      if (!results) {
+        return res.status(404).json({ message: "Experiment not found" });
+      }
+      res.json(results);
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch experiment results" });
+    }
+  });
+
+  // Called by n8n (API key with view:agents) before running an agent on a
+  // conversation; assigns the conversation to a variant on first use. The
+  // system prompt comes rendered with the lead's variables, the raw template
+  // as template. Answers 429 once the agent's monthly budget is spent, and
+  // 409 if the prompt includes a snippet that no longer exists.
+  app.post("/api/agents/:agentType/resolve", requirePermission("view:agents"), async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = resolveAgentConfigSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const orgId = getOrgId(req);
+      // Refusing here is what holds production runs to the budget
+      const usage = await getAgentUsage(orgId, agentType);
+      if (usage.budget !== null && usage.tokens >= usage.budget) {
+        return res.status(429).json({
+          message: `Monthly token budget exhausted (${usage.tokens} of ${usage.budget} tokens used)`,
+          code: "budget_exceeded",
+        });
+      }
+      const config = await resolveAgentConfig(orgId, agentType, parsed.data.conversationId);
+      if (!config) {
+        return res.status(404).json({ message: "Agent is not configured" });
+      }
+      const { text, missing } = await renderAgentPrompt(orgId, config.system, parsed.data.variables ?? {});
+      if (sendMissingSnippets(res, missing)) {
+        return;
+      }
+      res.json({ ...config, system: text, template: config.system, missingVariables: missing });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to resolve agent config" });
+    }
+  });
+
+  // Renders a system prompt as the LLM would receive it for a sample lead,
+  // using the org's snippets, timezone and business hours
+  app.post("/api/agents/:agentType/preview", requirePermission("view:agents"), async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = previewPromptSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const orgId = getOrgId(req);
+      const [context, issues] = await Promise.all([
+        loadPromptContext(orgId),
+        checkPromptTemplate(orgId, parsed.data.system),
+      ]);
+      const { text, missing } = renderPrompt(context, parsed.data.system, parsed.data.variables);
+      res.json({ text, missing, issues, variables: { ...context.variables, ...parsed.data.variables } });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to render prompt" });
+    }
+  });
+
+  // Shared prompt snippets. They reach every agent that includes them
+  // without a review, so changing them takes the same permission as publishing.
+  app.get("/api/prompt-snippets", requirePermission("view:agents"), async (req, res) => {
+    try {
+      res.json(await listSnippets(getOrgId(req)));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch prompt snippets" });
+    }
+  });
+
+  app.post("/api/prompt-snippets", requirePermission("publish:agents"), async (req, res) => {
+    const parsed = promptSnippetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    if (sendTemplateIssues(res, checkSnippetBody(parsed.data.body))) {
+      return;
+    }
+    try {
+      const session = getSession(req);
+      const snippet = await createSnippet(getOrgId(req), { id: session.sub, name: session.email }, parsed.data);
+      await recordAudit(req, "created prompt snippet", snippet.name, undefined, snippet);
+      res.json(snippet);
+    } catch (e: any) {
+      if (e.code === "23505") {
+        return res.status(409).json({ message: `A snippet named "${parsed.data.name}" already exists` });
+      }
+      res.status(500).json({ message: e.message || "Failed to create prompt snippet" });
+    }
+  });
+
+  app.put("/api/prompt-snippets/:id", requirePermission("publish:agents"), async (req, res) => {
+    const parsed = updatePromptSnippetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    if (sendTemplateIssues(res, checkSnippetBody(parsed.data.body))) {
+      return;
+    }
+    try {
+      const result = await updateSnippet(getOrgId(req), req.params.id, parsed.data);
+      if (!result) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+      await recordAudit(req, "updated prompt snippet", result.after.name, result.before, result.after);
+      res.json(result.after);
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to update prompt snippet" });
+    }
+  });
+
+  // Refused while a published prompt includes it; drafts are caught on approval
+  app.delete("/api/prompt-snippets/:id", requirePermission("publish:agents"), async (req, res) => {
+    try {
+      const orgId = getOrgId(req);
+      const snippets = await listSnippets(orgId);
+      const snippet = snippets.find((entry) => entry.id === req.params.id);
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+      const usedBy = await findSnippetUsage(orgId, snippet.name);
+      if (usedBy.length > 0) {
+        return res.status(409).json({ message: `Still included by the ${usedBy.join(", ")} agent${usedBy.length > 1 ? "s" : ""}` });
+      }
+
+      const deleted = await deleteSnippet(orgId, snippet.id);
+      if (deleted) {
+        await recordAudit(req, "deleted prompt snippet", deleted.name, deleted);
+      }
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to delete prompt snippet" });
+    }
+  });
+
+  // Offline evals: saved test cases and batch runs against a saved version
+  app.get("/api/agents/:agentType/test-cases", async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      res.json(await listTestCases(getOrgId(req), agentType));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch test cases" });
+    }
+  });
+
+  app.post("/api/agents/:agentType/test-cases", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = testCaseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const session = getSession(req);
+      const testCase = await createTestCase(getOrgId(req), agentType, { id: session.sub, name: session.email }, parsed.data);
+      await recordAudit(req, "added test case", `${agentType}: ${testCase.name}`, undefined, testCase);
+      res.status(201).json(testCase);
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to save test case" });
+    }
+  });
+
+  app.put("/api/agents/:agentType/test-cases/:id", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType, id } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = testCaseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const testCase = await updateTestCase(getOrgId(req), agentType, id, parsed.data);
+      if (!testCase) {
+        return res.status(404).json({ message: "Test case not found" });
+      }
+      await recordAudit(req, "updated test case", `${agentType}: ${testCase.name}`, undefined, testCase);
+      res.json(testCase);
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to save test case" });
+    }
+  });
+
+  app.delete("/api/agents/:agentType/test-cases/:id", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType, id } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      const testCase = await deleteTestCase(getOrgId(req), agentType, id);
+      if (!testCase) {
+        return res.status(404).json({ message: "Test case not found" });
+      }
+      await recordAudit(req, "deleted test case", `${agentType}: ${testCase.name}`, testCase);
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to delete test case" });
+    }
+  });
+
+  app.get("/api/agents/:agentType/evals", async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      res.json(await listEvalRuns(getOrgId(req), agentType));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch eval runs" });
+    }
+  });
+
+  // Starts a batch run and answers right away; poll the run for progress
+  app.post("/api/agents/:agentType/evals", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = runEvalSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const orgId = getOrgId(req);
+      const target = await findAgentVersion(orgId, agentType, parsed.data.version);
+      if (!target) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      const cases = await listTestCases(orgId, agentType);
+      if (cases.length === 0) {
+        return res.status(400).json({ message: "Add test cases before running an eval" });
+      }
+
+      const { text: system, missing } = await renderAgentPrompt(orgId, target.system, sampleLead);
+      if (sendMissingSnippets(res, missing)) {
+        return;
+      }
+
+      const session = getSession(req);
+      res.status(202).json(await startEvalRun(orgId, target, system, cases, { id: session.sub, name: session.email }));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to start eval run" });
+    }
+  });
+
+  app.get("/api/agents/:agentType/evals/:id", async (req, res) => {
+    const { agentType, id } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      const run = await getEvalRun(getOrgId(req), agentType, id);
+      if (!run) {
+        return res.status(404).json({ message: "Eval run not found" });
+      }
+      res.json(run);
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch eval run" });
+    }
+  });
+
+  // Tokens spent this month against the agent's monthlyTokenBudget
+  app.get("/api/agents/:agentType/usage", async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    try {
+      res.json(await getAgentUsage(getOrgId(req), agentType));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to fetch agent usage" });
+    }
+  });
+
+  // Called by n8n (API key with report:usage) after each production run with
+  // the tokens it spent
+  app.post("/api/agents/:agentType/usage", requirePermission("report:usage"), async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = reportAgentUsageSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const orgId = getOrgId(req);
+      await recordAgentUsage(orgId, agentType, "production", parsed.data.tokens, parsed.data.estimatedCost);
+      res.json(await getAgentUsage(orgId, agentType));
+    } catch (e: any) {
+      res.status(500).json({ message: e.message || "Failed to record agent usage" });
+    }
+  });
+
+  // Runs the saved config with its saved model params. Test runs count
+  // against the monthly budget like production traffic does.
+  app.post("/api/agents/:agentType/test", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = testAgentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const orgId = getOrgId(req);
+      const [config, usage] = await Promise.all([getAgentConfig(orgId, agentType), getAgentUsage(orgId, agentType)]);
+      if (usage.budget !== null && usage.tokens >= usage.budget) {
+        return res.status(429).json({
+          message: `Monthly token budget exhausted (${usage.tokens} of ${usage.budget} tokens used)`,
+          code: "budget_exceeded",
+        });
+      }
+
+      const { model, temperature, maxTokens } = (config?.paramsJson ?? {}) as AgentParams;
+      const system = config ? (await renderAgentPrompt(orgId, config.system, sampleLead)).text : undefined;
+      // Test runs call the LLM, so allow well past the default timeout
+      const result = await callWebhook(
+        orgId,
+        "tramia-agents-test",
+        { agentType, ...parsed.data, params: { model, temperature, maxTokens }, system },
+        { timeoutMs: 60_000 },
+      );
+      if (result.tokensUsed > 0) {
+        await recordAgentUsage(orgId, agentType, "test", result.tokensUsed, result.estimatedCost);
+      }
+      // null when there is nothing to check: no schema, or the run failed
+      const schemaViolations = config?.outputSchema && result.success ? checkOutput(config.outputSchema, result.output) : null;
+      res.json({ ...result, schemaViolations }); // { success, output, tokensUsed, estimatedCost, schemaViolations }
+    } catch (e: any) {
+      sendError(res, e, "Agent test failed");
+    }
+  });
+
+  // Re-runs a past job's conversation against a saved version, reply by reply
+  app.post("/api/agents/:agentType/replay", requirePermission("edit:agents"), async (req, res) => {
+    const { agentType } = req.params;
+    if (!isAgentType(agentType)) {
+      return res.status(404).json({ message: "Unknown agent type" });
+    }
+    const parsed = replayJobSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    try {
+      const orgId = getOrgId(req);
+      const [target, usage] = await Promise.all([
+        findAgentVersion(orgId, agentType, parsed.data.version),
+        getAgentUsage(orgId, agentType),
+      ]);
+      if (!target) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      if (usage.budget !== null && usage.tokens >= usage.budget) {
+        return res.status(429).json({
+          message: `Monthly token budget exhausted (${usage.tokens} of ${usage.budget} tokens used)`,
+          code: "budget_exceeded",
+        });
+      }
+
+      const conversation = await loadJobConversation(orgId, parsed.data.jobId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      const replay = await replayJob(orgId, target, conversation);
+      if (!replay) {
+        return res.status(400).json({ message: `The ${agentType} agent never answered the lead in this conversation` });
+      }
+      res.json(replay);
+    } catch (e: any) {
+      sendError(res, e, "Replay failed");
+    }
+  });
+
+  // One lead message in a simulated conversation; the client keeps the
+  // transcript and sends back the stage the previous turn handed off to
+  app.post("/api/agents/playground", requirePermission("edit:agents"), async (req, res) => {
+    const parsed = playgroundTurnSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    const { stage } = parsed.data;
+    try {
+      const orgId = getOrgId(req);
+      const [config, usage] = await Promise.all([getAgentConfig(orgId, stage), getAgentUsage(orgId, stage)]);
+      if (!config) {
+        return res.status(404).json({ message: `The ${stage} agent has no published config` });
+      }
+      if (usage.budget !== null && usage.tokens >= usage.budget) {
+        return res.status(429).json({
+          message: `Monthly token budget of the ${stage} agent exhausted (${usage.tokens} of ${usage.budget} tokens used)`,
+          code: "budget_exceeded",
+        });
+      }
+
+      res.json(await runPlaygroundTurn(orgId, config, parsed.data));
+    } catch (e: any) {
+      sendError(res, e, "Playground turn failed");
     }
   });
 
   // Knowledge routes
-  app.get("/api/knowledge", async (_req, res) => {
+  app.get("/api/knowledge", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-knowledge-list`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-knowledge-list", {});
       res.json(data);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch knowledge" });
+      sendError(res, e, "Failed to fetch knowledge");
     }
   });
 
-  app.post("/api/knowledge", async (req, res) => {
+  app.post("/api/knowledge", requirePermission("manage:knowledge"), async (req, res) => {
+    const parsed = createKnowledgeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
     try {
-      const data = await callN8N(`/webhook/tramia-knowledge-create`, req.body);
+      const data = await callWebhook(getOrgId(req), "tramia-knowledge-create", parsed.data);
       res.json(data); // { id, status:'queued' }
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to create knowledge item" });
+      sendError(res, e, "Failed to create knowledge item");
     }
   });
 
-  app.put("/api/knowledge/:id", async (req, res) => {
+  app.put("/api/knowledge/:id", requirePermission("manage:knowledge"), async (req, res) => {
+    const parsed = updateKnowledgeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
     try {
-      const data = await callN8N(`/webhook/tramia-knowledge-update`, { id: req.params.id, ...req.body });
+      const data = await callWebhook(getOrgId(req), "tramia-knowledge-update", { id: req.params.id, ...parsed.data });
       res.json(data);
     } catch (e: any) {
-      res.status(400).json({ message: e.message || "Failed to update knowledge item" });
+      sendError(res, e, "Failed to update knowledge item", 400);
     }
   });
 
-  app.delete("/api/knowledge/:id", async (req, res) => {
+  app.delete("/api/knowledge/:id", requirePermission("manage:knowledge"), async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-knowledge-delete`, { id: req.params.id });
+      const data = await callWebhook(getOrgId(req), "tramia-knowledge-delete", { id: req.params.id });
       res.json(data);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to delete knowledge item" });
+      sendError(res, e, "Failed to delete knowledge item");
     }
   });
 
-  app.post("/api/knowledge/:id/reindex", async (req, res) => {
+  app.post("/api/knowledge/:id/reindex", requirePermission("manage:knowledge"), async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-knowledge-reindex`, { id: req.params.id });
+      const data = await callWebhook(getOrgId(req), "tramia-knowledge-reindex", { id: req.params.id });
       res.json(data); // { success: true, message: "Reindexing started" }
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to start reindexing" });
+      sendError(res, e, "Failed to start reindexing");
     }
   });
 
-  app.post("/api/knowledge/search", async (req, res) => {
+  app.post("/api/knowledge/search", requirePermission("view:knowledge"), async (req, res) => {
+    const parsed = knowledgeSearchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
     try {
-      const data = await callN8N(`/webhook/tramia-knowledge-search`, req.body);
+      const data = await callWebhook(getOrgId(req), "tramia-knowledge-search", parsed.data, { idempotent: true });
       res.json(data); // [{ id, title, content, score, source }, ...]
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Knowledge search failed" });
+      sendError(res, e, "Knowledge search failed");
     }
   });
 
   // Integrations routes
-  app.get("/api/integrations/status", async (_req, res) => {
+  app.get("/api/integrations/status", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-integrations-status`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-integrations-status", {});
       res.json(data);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch integrations" });
+      sendError(res, e, "Failed to fetch integrations");
     }
   });
 
-  app.post("/api/integrations/chatwoot/test", async (_req, res) => {
+  app.post("/api/integrations/chatwoot/test", requirePermission("manage:integrations"), async (req, res) => {
     try {
-      const result = await callN8N(`/webhook/tramia-cw-test`, {
+      const result = await callWebhook(getOrgId(req), "tramia-cw-test", {
         base: process.env.CHATWOOT_BASE,
         accountId: parseInt(process.env.CHATWOOT_ACCOUNT_ID!, 10),
         inboxIdentifier: process.env.CHATWOOT_INBOX_IDENTIFIER,
@@ -357,82 +1845,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       res.json(result); // { success, contactId, conversationId }
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Chatwoot test failed" });
+      sendError(res, e, "Chatwoot test failed");
     }
   });
 
-  app.post("/api/integrations/heyreach/test", async (_req, res) => {
+  app.post("/api/integrations/heyreach/test", requirePermission("manage:integrations"), async (req, res) => {
     try {
-      const result = await callN8N(`/webhook/tramia-hr-check`, {
+      const result = await callWebhook(getOrgId(req), "tramia-hr-check", {
         apiKey: process.env.HEYREACH_API_KEY
       });
       res.json(result);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "HeyReach test failed" });
+      sendError(res, e, "HeyReach test failed");
     }
   });
 
-  app.get("/api/integrations/n8n/status", async (_req, res) => {
+  app.get("/api/integrations/n8n/status", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-n8n-status`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-n8n-status", {});
       res.json(data);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch n8n status" });
+      sendError(res, e, "Failed to fetch n8n status");
     }
   });
 
+  // Latency, outcomes and circuit state of every n8n webhook since startup
+  app.get("/api/integrations/n8n/metrics", requirePermission("manage:integrations"), (req, res) => {
+    res.json(getN8NMetrics());
+  });
+
   // Settings routes
-  app.get("/api/settings/gating", async (_req, res) => {
+  app.get("/api/settings/gating", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-settings-gating-get`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-settings-gating-get", {});
       res.json(data); // { hrLeadsAiEnabled, externalLeadsAiEnabled, muteWindow }
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch gating" });
+      sendError(res, e, "Failed to fetch gating");
     }
   });
 
-  app.put("/api/settings/gating", async (req, res) => {
+  app.put("/api/settings/gating", requirePermission("manage:settings"), async (req, res) => {
+    const parsed = gatingSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
     try {
-      const data = await callN8N(`/webhook/tramia-settings-gating-set`, req.body);
+      const data = await callWebhook(getOrgId(req), "tramia-settings-gating-set", parsed.data);
       res.json(data); // { ok:true }
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to save gating" });
+      sendError(res, e, "Failed to save gating");
     }
   });
 
-  app.get("/api/settings/followups", async (_req, res) => {
+  app.get("/api/settings/followups", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-settings-followups-get`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-settings-followups-get", {});
       res.json(data);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch followup settings" });
+      sendError(res, e, "Failed to fetch followup settings");
     }
   });
 
-  app.put("/api/settings/followups", async (req, res) => {
+  app.put("/api/settings/followups", requirePermission("manage:settings"), async (req, res) => {
+    const parsed = followupSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
     try {
-      const data = await callN8N(`/webhook/tramia-settings-followups-set`, req.body);
+      const orgId = getOrgId(req);
+      const data = await callWebhook(orgId, "tramia-settings-followups-set", parsed.data);
+      cacheBusinessHours(orgId, parsed.data);
       res.json(data); // { ok:true }
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to save followup settings" });
+      sendError(res, e, "Failed to save followup settings");
     }
   });
 
   // Webhooks and audit routes
   app.get("/api/webhooks/logs", async (req, res) => {
+    const parsed = webhookLogsQuerySchema.safeParse({
+      source: req.query.source || undefined,
+      limit: req.query.limit || undefined,
+    });
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
     try {
-      const { source, limit = 50 } = req.query;
-      const data = await callN8N(`/webhook/tramia-webhook-logs?source=${source || ""}&limit=${limit}`, undefined, { method: "GET" });
+      const data = await callWebhook(getOrgId(req), "tramia-webhook-logs", parsed.data);
       res.json(data);
     } catch (e: any) {
-      res.status(500).json({ message: e.message || "Failed to fetch webhook logs" });
+      sendError(res, e, "Failed to fetch webhook logs");
     }
   });
 
-  app.get("/api/audit", async (_req, res) => {
+  // Served from audit_logs, where the BFF's recordAudit and n8n both write
+  app.get("/api/audit", async (req, res) => {
     try {
-      const data = await callN8N(`/webhook/tramia-audit-logs`, undefined, { method: "GET" });
-      res.json(data);
+      res.json(await listAuditLogs(getOrgId(req)));
     } catch (e: any) {
       res.status(500).json({ message: e.message || "Failed to fetch audit logs" });
     }
@@ -443,7 +1952,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // WebSocket server for real-time updates
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
 
-  wss.on('connection', (ws: WebSocket) => {
+  // Sockets need a signed-in session and only get their org's updates
+  wss.on('connection', async (ws: WebSocket, req) => {
+    const session = await authenticateSocket(req);
+    if (!session?.org) {
+      ws.close(1008, 'Unauthorized');
+      return;
+    }
+    // The client may have gone while we checked the session; its close event
+    // has fired already, so nothing registered now would ever be cleaned up
+    if (ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    addLiveSocket(session.org, ws);
     console.log('Client connected to WebSocket');
 
     // Send periodic updates
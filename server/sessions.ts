@@ -0,0 +1,134 @@
+import type { Request } from "express";
+import { createHash, randomBytes } from "crypto";
+import { pool } from "./db";
+
+// Refresh tokens live 30 days and rotate on every use
+export const REFRESH_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// A just-rotated token stays accepted briefly so parallel tabs refreshing
+// at the same time are not mistaken for token theft
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export interface AuthSession {
+  id: string;
+  user_id: string;
+  org_id: string | null;
+}
+
+function hashSecret(secret: string) {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function newSecret() {
+  return randomBytes(32).toString("base64url");
+}
+
+// Refresh tokens are "<session id>.<secret>"; only the secret's hash is stored
+export async function createSession(userId: string, orgId: string | null, req: Request) {
+  const secret = newSecret();
+  const { rows } = await pool.query(
+    `INSERT INTO public.auth_sessions(user_id, org_id, refresh_token_hash, user_agent, ip, expires_at)
+     VALUES ($1, $2, $3, $4, $5, NOW() + $6 * interval '1 millisecond')
+     RETURNING id, user_id, org_id`,
+    [userId, orgId, hashSecret(secret), req.get('user-agent') || null, req.ip || null, REFRESH_TTL_MS]
+  );
+  const session: AuthSession = { ...rows[0], user_id: String(rows[0].user_id) };
+  return { session, refreshToken: `${session.id}.${secret}` };
+}
+
+// Validates and rotates a refresh token. Presenting a stale token outside the
+// grace window revokes the whole session.
+export async function rotateSession(refreshToken: string, req: Request) {
+  const [sessionId, secret] = refreshToken.split(".");
+  if (!sessionId || !secret) return null;
+  const presented = hashSecret(secret);
+  const next = newSecret();
+
+  // Rotate only if the presented token is still current, in one statement, so
+  // two requests with the same token can't both rotate
+  const rotated = await pool.query(
+    `UPDATE public.auth_sessions
+     SET previous_token_hash = refresh_token_hash, refresh_token_hash = $3, rotated_at = NOW(),
+         last_used_at = NOW(), ip = $4, user_agent = $5
+     WHERE id::text = $1 AND refresh_token_hash = $2 AND revoked_at IS NULL AND expires_at > NOW()
+     RETURNING id, user_id, org_id`,
+    [sessionId, presented, hashSecret(next), req.ip || null, req.get('user-agent') || null]
+  );
+  const [current] = rotated.rows;
+  if (current) {
+    const session: AuthSession = { id: current.id, user_id: String(current.user_id), org_id: current.org_id };
+    return { session, refreshToken: `${current.id}.${next}` };
+  }
+
+  const { rows } = await pool.query(
+    `SELECT id, user_id, org_id, previous_token_hash, rotated_at
+     FROM public.auth_sessions
+     WHERE id::text = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+    [sessionId]
+  );
+  const row = rows[0];
+  if (!row) return null;
+
+  if (presented === row.previous_token_hash && Date.now() - new Date(row.rotated_at).getTime() < ROTATION_GRACE_MS) {
+    // Another request already rotated; the browser holds the new cookie
+    const session: AuthSession = { id: row.id, user_id: String(row.user_id), org_id: row.org_id };
+    return { session, refreshToken: null };
+  }
+
+  await revokeSession(row.id);
+  return null;
+}
+
+export async function isSessionActive(sessionId: string) {
+  const { rows } = await pool.query(
+    `SELECT 1 FROM public.auth_sessions
+     WHERE id::text = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+    [sessionId]
+  );
+  return rows.length > 0;
+}
+
+export async function setSessionOrg(sessionId: string, orgId: string) {
+  await pool.query(`UPDATE public.auth_sessions SET org_id = $2 WHERE id::text = $1`, [sessionId, orgId]);
+}
+
+export async function revokeSession(sessionId: string, userId?: string) {
+  const { rowCount } = await pool.query(
+    `UPDATE public.auth_sessions SET revoked_at = NOW()
+     WHERE id::text = $1 AND revoked_at IS NULL AND ($2::bigint IS NULL OR user_id = $2)`,
+    [sessionId, userId ?? null]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+// Logout: revokes the session the refresh token belongs to, if it still matches
+export async function revokeByRefreshToken(refreshToken: string) {
+  const [sessionId, secret] = refreshToken.split(".");
+  if (!sessionId || !secret) return false;
+  const presented = hashSecret(secret);
+  const { rowCount } = await pool.query(
+    `UPDATE public.auth_sessions SET revoked_at = NOW()
+     WHERE id::text = $1 AND revoked_at IS NULL
+       AND (refresh_token_hash = $2 OR previous_token_hash = $2)`,
+    [sessionId, presented]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+export async function revokeAllSessions(userId: string) {
+  const { rowCount } = await pool.query(
+    `UPDATE public.auth_sessions SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL`,
+    [userId]
+  );
+  return rowCount ?? 0;
+}
+
+export async function listSessions(userId: string) {
+  const { rows } = await pool.query(
+    `SELECT id, user_agent, ip, created_at, last_used_at, expires_at
+     FROM public.auth_sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY COALESCE(last_used_at, created_at) DESC`,
+    [userId]
+  );
+  return rows;
+}
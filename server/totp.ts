@@ -0,0 +1,168 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { pool } from "./db";
+
+// RFC 6238 parameters every authenticator app supports
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept one step of clock drift either way
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = "Tramia";
+
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buf: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (let i = 0; i < buf.length; i++) {
+    value = (value << 8) | buf[i];
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    out += BASE32[(value << (5 - bits)) & 31];
+  }
+  return out;
+}
+
+function base32Decode(input: string) {
+  const clean = input.replace(/=+$/, "").replace(/\s+/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32.indexOf(char);
+    if (index === -1) throw new Error("invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function codeAt(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+function safeEqual(a: string, b: string) {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+// Time step the code belongs to, or null. Steps at or before lastStep are
+// rejected so an observed code cannot be replayed.
+function matchStep(secret: string, code: string, lastStep: number | null) {
+  const now = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    if (lastStep != null && step <= lastStep) continue;
+    if (safeEqual(codeAt(secret, step), code)) return step;
+  }
+  return null;
+}
+
+function hashRecoveryCode(code: string) {
+  return createHash("sha256").update(code.replace(/-/g, "").toLowerCase()).digest("hex");
+}
+
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+// Stores a fresh pending secret; it only takes effect once confirmEnrollment
+// sees a valid code from it.
+export async function beginEnrollment(userId: string, email: string) {
+  const secret = base32Encode(randomBytes(20));
+  await pool.query(
+    `UPDATE public.admin_users SET totp_secret = $2 WHERE id = $1 AND totp_enabled_at IS NULL`,
+    [userId, secret]
+  );
+  const label = encodeURIComponent(`${ISSUER}:${email}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${ISSUER}&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  return { secret, otpauthUrl };
+}
+
+// Turns 2FA on and returns the plaintext recovery codes (shown once), or null
+// when the code does not match the pending secret.
+export async function confirmEnrollment(userId: string, code: string) {
+  const { rows } = await pool.query(
+    `SELECT totp_secret FROM public.admin_users WHERE id = $1 AND totp_enabled_at IS NULL`,
+    [userId]
+  );
+  const secret = rows[0]?.totp_secret;
+  const step = secret ? matchStep(secret, code.trim(), null) : null;
+  if (step == null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await pool.query(
+    `UPDATE public.admin_users
+     SET totp_enabled_at = NOW(), totp_last_step = $2, totp_recovery_codes = $3
+     WHERE id = $1`,
+    [userId, step, recoveryCodes.map(hashRecoveryCode)]
+  );
+  return recoveryCodes;
+}
+
+// Second login step: accepts a current TOTP code or consumes a recovery code
+export async function verifySecondFactor(userId: string, code: string) {
+  const { rows } = await pool.query(
+    `SELECT totp_secret, totp_last_step, totp_recovery_codes
+     FROM public.admin_users WHERE id = $1 AND totp_enabled_at IS NOT NULL`,
+    [userId]
+  );
+  const row = rows[0];
+  if (!row) return false;
+  const input = code.trim();
+
+  if (/^\d{6}$/.test(input)) {
+    const lastStep = row.totp_last_step == null ? null : Number(row.totp_last_step);
+    const step = matchStep(row.totp_secret, input, lastStep);
+    if (step == null) return false;
+    // Conditional update so two concurrent requests cannot both use the code
+    const { rowCount } = await pool.query(
+      `UPDATE public.admin_users SET totp_last_step = $2
+       WHERE id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)`,
+      [userId, step]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  const { rowCount } = await pool.query(
+    `UPDATE public.admin_users SET totp_recovery_codes = array_remove(totp_recovery_codes, $2)
+     WHERE id = $1 AND $2 = ANY(totp_recovery_codes)`,
+    [userId, hashRecoveryCode(input)]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+export async function disableTwoFactor(userId: string) {
+  await pool.query(
+    `UPDATE public.admin_users
+     SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL, totp_recovery_codes = NULL
+     WHERE id = $1`,
+    [userId]
+  );
+}
+
+// Whether password logins into orgId must pass a second factor
+export async function orgRequiresTwoFactor(orgId: string | null | undefined) {
+  if (!orgId) return false;
+  const { rows } = await pool.query(
+    `SELECT require_two_factor FROM public.organizations WHERE id = $1`,
+    [orgId]
+  );
+  return rows[0]?.require_two_factor === true;
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { evalAssertionSchema, MAX_ASSERTION_PATTERN_LENGTH } from "./contracts";
+
+function matches(value: string) {
+  return evalAssertionSchema.safeParse({ path: "reply", op: "matches", value });
+}
+
+describe("evalAssertionSchema matches patterns", () => {
+  it("accepts ordinary patterns", () => {
+    for (const pattern of ["^hola", "\\d{2}:\\d{2}", "(lunes|martes)", "(\\d+)?"]) {
+      expect(matches(pattern).success).toBe(true);
+    }
+  });
+
+  it("refuses invalid and overlong patterns", () => {
+    expect(matches("(unclosed").success).toBe(false);
+    expect(matches("a".repeat(MAX_ASSERTION_PATTERN_LENGTH + 1)).success).toBe(false);
+  });
+
+  it("refuses groups that repeat a repetition", () => {
+    for (const pattern of ["(a+)+$", "(a*)*", "(\\w+\\s?)*x", "(a{1,3})+"]) {
+      expect(matches(pattern).success).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,540 @@
+import { z } from "zod";
+import { agentTypeEnum, knowledgeStatusEnum, sourceTypeEnum } from "./schema";
+import { snippetNamePattern } from "./promptTemplate";
+
+// Request and response shapes of every tramia-* n8n webhook. The BFF checks
+// n8n's answers against these, and the client types come from the same place.
+
+// n8n workflows are not consistent about numeric vs string ids
+const id = z.union([z.string(), z.number()]).transform(String);
+
+const noParams = z.object({});
+
+const okResponse = z.object({ ok: z.boolean() }).passthrough();
+
+// Reports
+export const funnelStageSchema = z.object({
+  name: z.string(),
+  count: z.number(),
+  rate: z.number(),
+  trend: z.number().optional(),
+}).passthrough();
+
+export const agentPerformanceSchema = z.object({
+  agentType: z.string(),
+  messages: z.number(),
+  completionRate: z.number(),
+  avgTokens: z.number(),
+  avgLatency: z.number(),
+  successRate: z.number(),
+  cost: z.number(),
+}).passthrough();
+
+export const agentsReportSchema = z.object({
+  byAgent: z.array(agentPerformanceSchema),
+}).passthrough();
+
+export const funnelReportSchema = z.object({
+  stages: z.array(funnelStageSchema),
+}).passthrough();
+
+export const costsReportSchema = z.object({
+  totalTokens: z.number().optional(),
+  estimatedCost: z.number().optional(),
+  byAgent: z.record(z.number()),
+}).passthrough();
+
+export const opsReportSchema = z.object({
+  webhookErrors: z.number(),
+  avgLatency: z.number(),
+  rateLimits: z.number(),
+  uptime: z.number(),
+}).passthrough();
+
+// Conversations
+export const conversationActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("toggle_ai"), enabled: z.boolean() }),
+  z.object({ type: z.literal("force_agent"), agentType: z.string().min(1) }),
+]);
+
+export const conversationDetailSchema = z.object({
+  id,
+  timeline: z.array(z.object({}).passthrough()),
+}).passthrough();
+
+// Jobs (served by the BFF straight from linkedin_jobs_incubadora)
+export const jobSortFields = ["created_at", "updated_at"] as const;
+
+// Lists come as arrays in JSON bodies and comma-separated in the query
+// string: ?status=failed,cancelled
+const list = z
+  .union([z.array(z.string()), z.string()])
+  .optional()
+  .transform((value) => (typeof value === "string" ? value.split(",") : value ?? []).map((item) => item.trim()).filter(Boolean));
+
+// Which jobs a listing or a bulk action covers
+export const jobFilterSchema = z.object({
+  status: list,
+  agent_type: list,
+  finish_status: list,
+  // created_at range, inclusive
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  retry_count_min: z.coerce.number().int().min(0).optional(),
+  retry_count_max: z.coerce.number().int().min(0).optional(),
+  // Words matched as prefixes against the lead's name and user id
+  q: z.string().trim().max(200).optional(),
+});
+
+export const jobsQuerySchema = jobFilterSchema.extend({
+  sort: z.enum(jobSortFields).default("created_at"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// row_version is the one the client last saw; a job changed since then
+// (by n8n or another operator) is refused with 409
+const jobActionSchema = z.object({
+  row_version: z.string(),
+});
+
+export const retryJobSchema = jobActionSchema;
+export const cancelJobSchema = jobActionSchema;
+
+export const reassignJobSchema = jobActionSchema.extend({
+  agent_type: z.enum(agentTypeEnum.enumValues),
+});
+
+// Retry, cancel or reassign every job the filter matches that the action
+// applies to. dry_run only counts them; expected_count is the count the
+// operator confirmed, and more matching jobs than that refuses the run.
+export const bulkJobActionSchema = z.object({
+  action: z.enum(["retry", "cancel", "reassign"]),
+  filter: jobFilterSchema,
+  agent_type: z.enum(agentTypeEnum.enumValues).optional(),
+  dry_run: z.boolean().default(false),
+  expected_count: z.number().int().min(0).optional(),
+}).refine((input) => input.action !== "reassign" || input.agent_type, {
+  path: ["agent_type"],
+  message: "Pick the agent to reassign the jobs to",
+});
+
+// Agents
+// Which models are accepted depends on the org (see organizations.allowedModels),
+// so that check happens in server/agents.ts
+export const agentParamsSchema = z.object({
+  model: z.string().trim().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).max(8192).optional(),
+  // Tokens the agent may spend per calendar month, tests included; unset means no cap
+  monthlyTokenBudget: z.number().int().min(1000).optional(),
+  mcpEnabled: z.boolean().optional(),
+}).passthrough();
+
+// What n8n needs to run a model call with the saved params
+export const modelParamsSchema = agentParamsSchema.pick({ model: true, temperature: true, maxTokens: true });
+
+// Served by the BFF from agent_configs, not by n8n
+export const agentSchema = z.object({
+  agentType: z.string(),
+  system: z.string(),
+  outputSchema: z.record(z.unknown()).nullable(),
+  paramsJson: agentParamsSchema.nullable(),
+  version: z.string(),
+}).passthrough();
+
+export const updateAgentSchema = z.object({
+  system: z.string().min(1, "System prompt is required"),
+  outputSchema: z.record(z.unknown()).nullable(),
+  paramsJson: agentParamsSchema,
+  // Shown in the version history
+  changelog: z.string().trim().max(500).optional(),
+});
+
+// Publishing workflow: comments on a version and the admin's review decision
+export const versionCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment is required").max(2000),
+});
+
+export const approveVersionSchema = z.object({
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const rejectVersionSchema = z.object({
+  comment: z.string().trim().min(1, "Say why the change is rejected").max(2000),
+});
+
+// A/B experiments between saved versions (served by the BFF)
+export const experimentVariantSchema = z.object({
+  key: z.string().trim().regex(/^[A-Za-z0-9_-]{1,20}$/, "Variant keys use letters, digits, - and _"),
+  version: z.string().min(1),
+  weight: z.number().int().min(1).max(99),
+});
+
+export const createExperimentSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  variants: z.array(experimentVariantSchema).min(2, "An experiment needs at least two variants").max(4),
+}).superRefine(({ variants }, ctx) => {
+  if (variants.reduce((sum, variant) => sum + variant.weight, 0) !== 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variants"], message: "Variant weights must add up to 100" });
+  }
+  if (new Set(variants.map((variant) => variant.key)).size !== variants.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variants"], message: "Variant keys must be unique" });
+  }
+});
+
+// Prompt templates: the per-lead variables a caller fills in (the org's
+// timezone and business hours come from its settings) and shared snippets
+export const leadVariablesSchema = z.object({
+  lead_name: z.string().trim().max(200).optional(),
+  campaign: z.string().trim().max(200).optional(),
+});
+
+export const promptSnippetSchema = z.object({
+  name: z.string().trim().regex(snippetNamePattern, "Snippet names use lowercase letters, digits, - and _ (up to 50)"),
+  description: z.string().trim().max(200).optional(),
+  body: z.string().min(1, "Snippet text is required").max(20_000),
+});
+
+export const updatePromptSnippetSchema = promptSnippetSchema.omit({ name: true });
+
+export const previewPromptSchema = z.object({
+  system: z.string().min(1, "System prompt is required"),
+  variables: leadVariablesSchema.default({}),
+});
+
+// n8n asks which config to run for a conversation; with the lead's variables
+// the returned system prompt comes fully rendered
+export const resolveAgentConfigSchema = z.object({
+  conversationId: z.union([z.string().min(1), z.number()]).transform(String),
+  variables: leadVariablesSchema.optional(),
+});
+
+// n8n reports what each production run spent, against the monthly budget
+export const reportAgentUsageSchema = z.object({
+  tokens: z.number().int().positive(),
+  estimatedCost: z.number().nonnegative().optional(),
+});
+
+export const testAgentSchema = z.object({
+  input: z.string().trim().min(1, "Test input is required"),
+});
+
+// Agent playground (served by the BFF): the operator plays the lead and each
+// message goes to the agent of the conversation's current stage. A stage
+// hands off to the next one once its output says is_task_complete.
+export const conversationPipeline = ["qualifier", "objections", "closer", "scheduler"] as const;
+
+// One message of a real or simulated conversation, as sent to n8n for context
+export const conversationMessageSchema = z.object({
+  role: z.enum(["lead", "agent"]),
+  // Which agent wrote an agent message; unset for replies by a human
+  agentType: z.enum(agentTypeEnum.enumValues).optional(),
+  content: z.string().max(8000),
+});
+
+export const playgroundTurnSchema = z.object({
+  stage: z.enum(conversationPipeline),
+  // Earlier messages, oldest first
+  history: z.array(conversationMessageSchema).max(100),
+  message: z.string().trim().min(1, "Message is required").max(4000),
+});
+
+// Offline evals (served by the BFF). An assertion checks one field of the
+// agent's JSON output, addressed by a dotted path such as "lead.is_qualified".
+
+// "matches" patterns run on the BFF against model output, so they are kept
+// short and may not repeat a group that repeats already, e.g. (a+)+, the
+// usual cause of catastrophic backtracking
+export const MAX_ASSERTION_PATTERN_LENGTH = 200;
+const nestedQuantifierPattern = /\([^()]*[*+}][^()]*\)[*+{]/;
+
+export function assertionPatternError(pattern: string): string | null {
+  if (pattern.length > MAX_ASSERTION_PATTERN_LENGTH) {
+    return `Regular expression is longer than ${MAX_ASSERTION_PATTERN_LENGTH} characters`;
+  }
+  if (nestedQuantifierPattern.test(pattern)) {
+    return "Regular expression repeats a group that already repeats";
+  }
+  try {
+    new RegExp(pattern);
+  } catch {
+    return "Invalid regular expression";
+  }
+  return null;
+}
+
+export const evalAssertionSchema = z.object({
+  path: z.string().trim().min(1, "Assertion path is required"),
+  op: z.enum(["equals", "not_equals", "contains", "matches", "exists"]),
+  value: z.unknown().optional(),
+}).superRefine((assertion, ctx) => {
+  if (assertion.op !== "exists" && assertion.value === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `"${assertion.op}" needs a value` });
+  }
+  const patternError = assertion.op === "matches" ? assertionPatternError(String(assertion.value)) : null;
+  if (patternError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: patternError });
+  }
+});
+
+export const testCaseSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  input: z.string().trim().min(1, "Input transcript is required").max(20_000),
+  assertions: z.array(evalAssertionSchema).min(1, "Add at least one assertion").max(50),
+});
+
+export const runEvalSchema = z.object({
+  version: z.string().min(1, "Pick a version to evaluate"),
+});
+
+// Re-runs a past job's conversation against one saved version
+export const replayJobSchema = z.object({
+  jobId: z.string().trim().min(1, "Pick a job to replay"),
+  version: z.string().min(1, "Pick a version to replay against"),
+});
+
+export const agentTestResultSchema = z.object({
+  success: z.boolean(),
+  output: z.unknown(),
+  tokensUsed: z.number(),
+  estimatedCost: z.number(),
+  latency: z.number().optional(),
+  error: z.string().optional(),
+}).passthrough();
+
+// Knowledge
+export const knowledgeItemSchema = z.object({
+  id,
+  title: z.string(),
+  sourceType: z.enum(sourceTypeEnum.enumValues),
+  url: z.string().nullish(),
+  status: z.enum(knowledgeStatusEnum.enumValues),
+  tags: z.array(z.string()).nullish().transform((tags) => tags ?? []),
+  bytes: z.number().nullish(),
+  lang: z.string().nullish(),
+  createdAt: z.string(),
+}).passthrough();
+
+export const createKnowledgeSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  sourceType: z.enum(sourceTypeEnum.enumValues),
+  url: z.string().url().optional(),
+  content: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  lang: z.string().default("es"),
+});
+
+export const updateKnowledgeSchema = createKnowledgeSchema.omit({ sourceType: true }).partial();
+
+export const knowledgeSearchSchema = z.object({
+  query: z.string().trim().min(1, "Query is required"),
+  topK: z.number().int().min(1).max(50).default(5),
+});
+
+export const knowledgeSearchResultSchema = z.object({
+  id,
+  title: z.string(),
+  content: z.string(),
+  score: z.number(),
+  source: z.string(),
+  metadata: z.record(z.unknown()).optional(),
+}).passthrough();
+
+// Integrations
+const integrationCheck = z.object({
+  connected: z.boolean(),
+  lastCheck: z.string().nullish(),
+  error: z.string().optional(),
+}).passthrough();
+
+export const n8nWorkflowSchema = z.object({
+  id,
+  name: z.string(),
+  status: z.enum(["active", "inactive"]),
+  lastRun: z.string().nullish(),
+}).passthrough();
+
+export const integrationStatusSchema = z.object({
+  chatwoot: integrationCheck,
+  heyreach: integrationCheck,
+  n8n: integrationCheck,
+  mcp: z.object({ enabled: z.boolean(), endpoint: z.string().optional(), error: z.string().optional() }).passthrough().optional(),
+}).passthrough();
+
+export const n8nStatusSchema = z.object({
+  connected: z.boolean().optional(),
+  workflows: z.array(n8nWorkflowSchema),
+}).passthrough();
+
+export const chatwootTestResultSchema = z.object({
+  success: z.boolean(),
+  contactId: id.optional(),
+  conversationId: id.optional(),
+}).passthrough();
+
+export const heyReachTestResultSchema = z.object({
+  success: z.boolean(),
+  account: z.string().optional(),
+}).passthrough();
+
+// Settings
+export const gatingSettingsSchema = z.object({
+  hrLeadsAiEnabled: z.boolean(),
+  externalLeadsAiEnabled: z.boolean(),
+  // Minutes a manual toggle overrides the default
+  muteWindow: z.number().int().min(0),
+});
+
+export const followupSettingsSchema = z.object({
+  enabled: z.boolean(),
+  maxFollowups: z.number().int().min(0).max(10),
+  // Hours after the last message at which each follow-up goes out
+  intervals: z.array(z.number().positive()),
+  workingHours: z.object({
+    start: z.number().int().min(0).max(23),
+    end: z.number().int().min(1).max(24),
+  }),
+});
+
+// Webhook and audit logs
+export const webhookLogsQuerySchema = z.object({
+  source: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export const webhookLogEntrySchema = z.object({
+  id,
+  source: z.string(),
+  eventId: z.string().nullish(),
+  status: z.enum(["success", "error", "pending"]),
+  payloadJson: z.unknown(),
+  error: z.string().nullish(),
+  createdAt: z.string(),
+}).passthrough();
+
+export const auditLogEntrySchema = z.object({
+  id,
+  actorUserId: z.string().nullish(),
+  actorName: z.string().nullish(),
+  action: z.string(),
+  target: z.string(),
+  beforeJson: z.unknown(),
+  afterJson: z.unknown(),
+  createdAt: z.string(),
+}).passthrough();
+
+interface N8NContract {
+  method: "GET" | "POST";
+  // GET webhooks take it as query params, the rest as the JSON body; the
+  // org is added on top by the BFF
+  request: z.ZodTypeAny;
+  response: z.ZodTypeAny;
+}
+
+export const n8nContracts = {
+  "tramia-reports-agents": { method: "GET", request: noParams, response: agentsReportSchema },
+  "tramia-reports-funnel": { method: "GET", request: noParams, response: funnelReportSchema },
+  "tramia-reports-costs": { method: "GET", request: noParams, response: costsReportSchema },
+  "tramia-reports-ops": { method: "GET", request: noParams, response: opsReportSchema },
+  "tramia-conversations-get": { method: "GET", request: z.object({ id: z.string() }), response: conversationDetailSchema },
+  "tramia-conv-action": {
+    method: "POST",
+    request: z.intersection(z.object({ id: z.string() }), conversationActionSchema),
+    response: okResponse,
+  },
+  "tramia-agents-test": {
+    method: "POST",
+    request: testAgentSchema.extend({
+      agentType: z.string(),
+      params: modelParamsSchema,
+      // Eval runs test a saved version other than the live config
+      system: z.string().optional(),
+      outputSchema: z.record(z.unknown()).nullable().optional(),
+      // Earlier messages of the conversation (playground and replays)
+      history: z.array(conversationMessageSchema).optional(),
+    }),
+    response: agentTestResultSchema,
+  },
+  "tramia-knowledge-list": { method: "GET", request: noParams, response: z.array(knowledgeItemSchema) },
+  "tramia-knowledge-create": {
+    method: "POST",
+    request: createKnowledgeSchema,
+    response: z.object({ id, status: z.enum(knowledgeStatusEnum.enumValues) }).passthrough(),
+  },
+  "tramia-knowledge-update": { method: "POST", request: updateKnowledgeSchema.extend({ id: z.string() }), response: okResponse },
+  "tramia-knowledge-delete": { method: "POST", request: z.object({ id: z.string() }), response: okResponse },
+  "tramia-knowledge-reindex": {
+    method: "POST",
+    request: z.object({ id: z.string() }),
+    response: z.object({ success: z.boolean(), message: z.string().optional() }).passthrough(),
+  },
+  "tramia-knowledge-search": { method: "POST", request: knowledgeSearchSchema, response: z.array(knowledgeSearchResultSchema) },
+  "tramia-integrations-status": { method: "GET", request: noParams, response: integrationStatusSchema },
+  "tramia-cw-test": {
+    method: "POST",
+    request: z.object({
+      base: z.string().optional(),
+      accountId: z.number(),
+      inboxIdentifier: z.string().optional(),
+      token: z.string().optional(),
+    }),
+    response: chatwootTestResultSchema,
+  },
+  "tramia-hr-check": { method: "POST", request: z.object({ apiKey: z.string().optional() }), response: heyReachTestResultSchema },
+  "tramia-n8n-status": { method: "GET", request: noParams, response: n8nStatusSchema },
+  "tramia-settings-gating-get": { method: "GET", request: noParams, response: gatingSettingsSchema },
+  "tramia-settings-gating-set": { method: "POST", request: gatingSettingsSchema, response: okResponse },
+  "tramia-settings-followups-get": { method: "GET", request: noParams, response: followupSettingsSchema },
+  "tramia-settings-followups-set": { method: "POST", request: followupSettingsSchema, response: okResponse },
+  "tramia-webhook-logs": { method: "GET", request: webhookLogsQuerySchema, response: z.array(webhookLogEntrySchema) },
+  "tramia-audit-logs": { method: "GET", request: noParams, response: z.array(auditLogEntrySchema) },
+} satisfies Record<string, N8NContract>;
+
+export type N8NWebhook = keyof typeof n8nContracts;
+export type N8NRequest<W extends N8NWebhook> = z.input<(typeof n8nContracts)[W]["request"]>;
+export type N8NResponse<W extends N8NWebhook> = z.output<(typeof n8nContracts)[W]["response"]>;
+
+// Types
+export type FunnelStage = z.infer<typeof funnelStageSchema>;
+export type AgentPerformance = z.infer<typeof agentPerformanceSchema>;
+export type AgentsReport = z.infer<typeof agentsReportSchema>;
+export type FunnelReport = z.infer<typeof funnelReportSchema>;
+export type CostsReport = z.infer<typeof costsReportSchema>;
+export type OpsReport = z.infer<typeof opsReportSchema>;
+export type ConversationAction = z.infer<typeof conversationActionSchema>;
+export type ConversationDetail = z.infer<typeof conversationDetailSchema>;
+export type AgentParams = z.infer<typeof agentParamsSchema>;
+export type ModelParams = z.infer<typeof modelParamsSchema>;
+export type AgentConfigResponse = z.infer<typeof agentSchema>;
+export type UpdateAgent = z.infer<typeof updateAgentSchema>;
+export type ExperimentVariant = z.infer<typeof experimentVariantSchema>;
+export type CreateExperiment = z.infer<typeof createExperimentSchema>;
+export type AgentTestResult = z.infer<typeof agentTestResultSchema>;
+export type EvalAssertion = z.infer<typeof evalAssertionSchema>;
+export type TestCaseInput = z.infer<typeof testCaseSchema>;
+export type JobFilter = z.infer<typeof jobFilterSchema>;
+export type JobFilterInput = z.input<typeof jobFilterSchema>;
+export type JobsQuery = z.infer<typeof jobsQuerySchema>;
+export type JobsQueryInput = z.input<typeof jobsQuerySchema>;
+export type BulkJobAction = z.infer<typeof bulkJobActionSchema>;
+export type BulkJobActionInput = z.input<typeof bulkJobActionSchema>;
+export type LeadVariables = z.infer<typeof leadVariablesSchema>;
+export type PromptSnippetInput = z.infer<typeof promptSnippetSchema>;
+export type UpdatePromptSnippet = z.infer<typeof updatePromptSnippetSchema>;
+export type ConversationStage = (typeof conversationPipeline)[number];
+export type ConversationMessage = z.infer<typeof conversationMessageSchema>;
+export type PlaygroundTurnInput = z.infer<typeof playgroundTurnSchema>;
+export type KnowledgeItemResponse = z.infer<typeof knowledgeItemSchema>;
+export type CreateKnowledge = z.input<typeof createKnowledgeSchema>;
+export type UpdateKnowledge = z.input<typeof updateKnowledgeSchema>;
+export type KnowledgeSearchResult = z.infer<typeof knowledgeSearchResultSchema>;
+export type IntegrationStatus = z.infer<typeof integrationStatusSchema>;
+export type N8NStatus = z.infer<typeof n8nStatusSchema>;
+export type ChatwootTestResult = z.infer<typeof chatwootTestResultSchema>;
+export type HeyReachTestResult = z.infer<typeof heyReachTestResultSchema>;
+export type GatingSettings = z.infer<typeof gatingSettingsSchema>;
+export type FollowupSettings = z.infer<typeof followupSettingsSchema>;
+export type WebhookLogEntry = z.infer<typeof webhookLogEntrySchema>;
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
@@ -0,0 +1,79 @@
+import Ajv, { type ErrorObject } from "ajv";
+
+// JSON Schema checks for agent output schemas, shared so the Schema tab shows
+// the same errors the BFF enforces on save
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+export interface SchemaIssue {
+  // JSON pointer into the schema (when checking a schema) or the output
+  path: string;
+  message: string;
+}
+
+// One issue per path: a bad "type" otherwise also reports every anyOf branch
+function toIssues(errors: ErrorObject[] | null | undefined): SchemaIssue[] {
+  const issues = new Map<string, SchemaIssue>();
+  for (const error of errors ?? []) {
+    const key = error.params && "missingProperty" in error.params ? `/${error.params.missingProperty}` : "";
+    const path = `${error.instancePath}${key}` || "/";
+    if (!issues.has(path)) {
+      issues.set(path, { path, message: error.message ?? "is invalid" });
+    }
+  }
+  return Array.from(issues.values());
+}
+
+// Compiles without keeping the schema in ajv's cache, which is keyed by object
+function compile(schema: Record<string, unknown>) {
+  try {
+    return ajv.compile(schema);
+  } finally {
+    ajv.removeSchema(schema);
+  }
+}
+
+// Problems that keep `schema` from being used as an agent's output schema:
+// it must be valid JSON Schema and describe a JSON object
+export function checkOutputSchema(schema: unknown): SchemaIssue[] {
+  if (schema === null || typeof schema !== "object" || Array.isArray(schema)) {
+    return [{ path: "/", message: "must be a JSON object" }];
+  }
+  if (!ajv.validateSchema(schema)) {
+    return toIssues(ajv.errors);
+  }
+  const { type, properties } = schema as Record<string, unknown>;
+  if (type !== "object") {
+    return [{ path: "/type", message: 'must be "object"; agents answer with a JSON object' }];
+  }
+  if (properties && typeof properties === "object" && "" in properties) {
+    return [{ path: "/properties/", message: "property names must not be empty" }];
+  }
+  try {
+    compile(schema as Record<string, unknown>);
+  } catch (e: any) {
+    return [{ path: "/", message: e.message }];
+  }
+  return [];
+}
+
+// Agents usually answer with JSON, sometimes serialized as a string
+export function parseAgentOutput(output: unknown) {
+  if (typeof output !== "string") return output;
+  try {
+    return JSON.parse(output);
+  } catch {
+    return output;
+  }
+}
+
+// Where `output` breaks `schema`; empty when it conforms
+export function checkOutput(schema: Record<string, unknown>, output: unknown): SchemaIssue[] {
+  let validate;
+  try {
+    validate = compile(schema);
+  } catch (e: any) {
+    return [{ path: "/", message: `output schema is invalid: ${e.message}` }];
+  }
+  return validate(parseAgentOutput(output)) ? [] : toIssues(validate.errors);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { apiKeyScopes, can, permissions, roles, type Permission } from "./permissions";
+
+// What each role may do; everything not listed is refused
+const allowed: Record<(typeof roles)[number], Permission[]> = {
+  viewer: ["view:conversations", "view:jobs", "view:agents", "view:knowledge", "view:reports"],
+  operator: [
+    "view:conversations",
+    "manage:conversations",
+    "view:jobs",
+    "manage:jobs",
+    "view:agents",
+    "edit:agents",
+    "view:knowledge",
+    "manage:knowledge",
+    "view:reports",
+  ],
+  admin: (Object.keys(permissions) as Permission[]).filter((permission) => permission !== "report:usage"),
+};
+
+describe("can", () => {
+  for (const role of roles) {
+    it(`grants ${role} exactly its permissions`, () => {
+      const granted = (Object.keys(permissions) as Permission[]).filter((permission) => can(role, permission));
+      expect(granted.sort()).toEqual([...allowed[role]].sort());
+    });
+  }
+
+  it("refuses missing and unknown roles", () => {
+    expect(can(null, "view:jobs")).toBe(false);
+    expect(can(undefined, "view:jobs")).toBe(false);
+    expect(can("api", "view:jobs")).toBe(false);
+  });
+});
+
+describe("apiKeyScopes", () => {
+  it("leaves workspace administration to users", () => {
+    for (const permission of ["publish:agents", "manage:users", "manage:api-keys", "manage:settings", "manage:organization", "manage:integrations"]) {
+      expect(apiKeyScopes).not.toContain(permission);
+    }
+  });
+});
@@ -0,0 +1,48 @@
+// Role-based permissions shared by the BFF (requirePermission) and the client (useCanPerform)
+
+export const roles = ["admin", "operator", "viewer"] as const;
+export type Role = (typeof roles)[number];
+
+export const permissions = {
+  "view:conversations": ["viewer", "operator", "admin"],
+  "manage:conversations": ["operator", "admin"],
+  "view:jobs": ["viewer", "operator", "admin"],
+  "manage:jobs": ["operator", "admin"],
+  "view:agents": ["viewer", "operator", "admin"],
+  "edit:agents": ["operator", "admin"],
+  // Approving a review request or rolling back is what puts a prompt in front of leads
+  "publish:agents": ["admin"],
+  "view:knowledge": ["viewer", "operator", "admin"],
+  "manage:knowledge": ["operator", "admin"],
+  "manage:integrations": ["admin"],
+  "view:reports": ["viewer", "operator", "admin"],
+  "manage:settings": ["admin"],
+  "manage:organization": ["admin"],
+  "manage:users": ["admin"],
+  "manage:api-keys": ["admin"],
+  // n8n reporting production token spend; API keys only, no role has it
+  "report:usage": [],
+} satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof permissions;
+
+// Permissions an API key may be granted; workspace administration stays user-only
+export const apiKeyScopes = [
+  "view:conversations",
+  "manage:conversations",
+  "view:jobs",
+  "manage:jobs",
+  "view:agents",
+  "edit:agents",
+  "view:knowledge",
+  "manage:knowledge",
+  "view:reports",
+  "report:usage",
+] as const satisfies readonly Permission[];
+
+export type ApiKeyScope = (typeof apiKeyScopes)[number];
+
+export function can(role: string | null | undefined, action: Permission): boolean {
+  if (!role) return false;
+  return (permissions[action] as readonly string[]).includes(role);
+}
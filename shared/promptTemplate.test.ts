@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { renderTemplate } from "./promptTemplate";
+
+describe("renderTemplate", () => {
+  it("expands snippets, then variables", () => {
+    const { text, missing } = renderTemplate("{{> intro}} Bye.", { intro: "Hi {{lead_name}}." }, { lead_name: "Ana" });
+    expect(text).toBe("Hi Ana. Bye.");
+    expect(missing).toEqual([]);
+  });
+
+  it("only reads the org's own snippets", () => {
+    const { text, missing } = renderTemplate("{{> constructor}}{{> __proto__}}{{> toString}}", {}, {});
+    expect(text).toBe("{{> constructor}}{{> __proto__}}{{> toString}}");
+    expect(missing).toEqual(["> constructor", "> __proto__", "> toString"]);
+  });
+});
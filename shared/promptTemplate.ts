@@ -0,0 +1,77 @@
+// Agent system prompts are templates: {{lead_name}} inserts a variable and
+// {{> company_pitch}} inserts the org's snippet of that name. Shared so the
+// System tab flags the same problems the BFF rejects on save.
+
+export const promptVariables = {
+  lead_name: "Lead's name",
+  campaign: "Campaign the lead came from",
+  org_timezone: "Organization timezone",
+  business_hours: "Working hours from the follow-up settings",
+} as const;
+
+export type PromptVariable = keyof typeof promptVariables;
+export type PromptVariables = Partial<Record<PromptVariable, string>>;
+
+export const snippetNamePattern = /^[a-z0-9_-]{1,50}$/;
+
+export interface TemplateIssue {
+  // The tag as written, e.g. "{{> pitch}}"
+  tag: string;
+  message: string;
+}
+
+const tagPattern = /\{\{\s*(>\s*)?([^{}\s]*)\s*\}\}/g;
+
+function isPromptVariable(name: string): name is PromptVariable {
+  return Object.prototype.hasOwnProperty.call(promptVariables, name);
+}
+
+// Unknown variables and snippets, malformed tags, and snippets that include
+// other snippets (snippets only expand one level)
+export function checkTemplate(template: string, snippetNames: string[], { inSnippet = false } = {}): TemplateIssue[] {
+  const issues = new Map<string, TemplateIssue>();
+  for (const [tag, partial, name] of Array.from(template.matchAll(tagPattern))) {
+    if (issues.has(tag)) continue;
+    if (!name) {
+      issues.set(tag, { tag, message: "empty tag" });
+    } else if (partial && inSnippet) {
+      issues.set(tag, { tag, message: "snippets can't include other snippets" });
+    } else if (partial && !snippetNames.includes(name)) {
+      issues.set(tag, { tag, message: `no snippet named "${name}"` });
+    } else if (!partial && !isPromptVariable(name)) {
+      issues.set(tag, { tag, message: `unknown variable (use ${Object.keys(promptVariables).join(", ")})` });
+    }
+  }
+  return Array.from(issues.values());
+}
+
+// Snippet names a template includes
+export function templateSnippets(template: string) {
+  return Array.from(template.matchAll(tagPattern))
+    .filter(([, partial, name]) => partial && name)
+    .map(([, , name]) => name);
+}
+
+// Expands snippets, then variables. Tags without a value are left in place
+// and listed in `missing`.
+export function renderTemplate(template: string, snippets: Record<string, string>, variables: PromptVariables) {
+  const missing = new Set<string>();
+  const expanded = template.replace(tagPattern, (tag, partial, name) => {
+    if (!partial) return tag;
+    // Own keys only, so {{> constructor}} doesn't reach Object.prototype
+    if (!Object.prototype.hasOwnProperty.call(snippets, name)) {
+      missing.add(`> ${name}`);
+      return tag;
+    }
+    return snippets[name];
+  });
+  const text = expanded.replace(tagPattern, (tag, partial, name) => {
+    const value = !partial && isPromptVariable(name) ? variables[name] : undefined;
+    if (value === undefined || value === "") {
+      if (!partial && name) missing.add(name);
+      return tag;
+    }
+    return value;
+  });
+  return { text, missing: Array.from(missing) };
+}
@@ -1,7 +1,8 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, json, integer, boolean, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, integer, boolean, doublePrecision, pgEnum, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { apiKeyScopes } from "./permissions";
 
 // Enums
 export const userRoleEnum = pgEnum("user_role", ["admin", "operator", "viewer"]);
@@ -9,6 +10,12 @@ export const jobStatusEnum = pgEnum("job_status", ["pending", "processing", "com
 export const agentTypeEnum = pgEnum("agent_type", ["qualifier", "closer", "scheduler", "objections", "pooling", "followups"]);
 export const knowledgeStatusEnum = pgEnum("knowledge_status", ["queued", "embedding", "ready", "failed"]);
 export const sourceTypeEnum = pgEnum("source_type", ["pdf", "csv", "md", "url", "text"]);
+export const experimentStatusEnum = pgEnum("experiment_status", ["running", "stopped"]);
+export const evalRunStatusEnum = pgEnum("eval_run_status", ["running", "completed", "failed"]);
+export const agentVersionStatusEnum = pgEnum("agent_version_status", ["draft", "in_review", "published", "rejected"]);
+
+// LLM models an org may pick for its agents unless it sets its own list
+export const defaultAgentModels = ["gpt-4", "gpt-4-turbo", "gpt-3.5-turbo"];
 
 // Organizations
 export const organizations = pgTable("organizations", {
@@ -16,6 +23,10 @@ export const organizations = pgTable("organizations", {
   name: text("name").notNull(),
   slug: text("slug").notNull().unique(),
   timezone: text("timezone").notNull().default("America/Argentina/Buenos_Aires"),
+  // Password logins must pass TOTP; SSO logins rely on the IdP's own MFA
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
+  // Models agents may be configured with; null means defaultAgentModels
+  allowedModels: text("allowed_models").array(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -43,7 +54,7 @@ export const integrations = pgTable("integrations", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-// Agent Configurations
+// Agent Configurations: one row per org and agent type, read by n8n as well
 export const agentConfigs = pgTable("agent_configs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orgId: varchar("org_id").notNull().references(() => organizations.id),
@@ -52,11 +63,145 @@ export const agentConfigs = pgTable("agent_configs", {
   outputSchema: json("output_schema"),
   paramsJson: json("params_json"),
   version: text("version").notNull().default("1.0.0"),
-  createdBy: varchar("created_by").notNull().references(() => users.id),
+  // admin_users.id (or apikey:<id>) of whoever saved this version
+  createdBy: varchar("created_by"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("agent_configs_org_agent_type_idx").on(table.orgId, table.agentType),
+]);
+
+// Immutable snapshot written on every save of an agent config. Saves start
+// as drafts; only an admin's approval of a review request copies a version
+// into agent_configs, which is what n8n runs.
+export const agentConfigVersions = pgTable("agent_config_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").notNull().references(() => organizations.id),
+  agentType: agentTypeEnum("agent_type").notNull(),
+  version: text("version").notNull(),
+  system: text("system").notNull(),
+  outputSchema: json("output_schema"),
+  paramsJson: json("params_json"),
+  changelog: text("changelog"),
+  status: agentVersionStatusEnum("status").notNull().default("draft"),
+  createdBy: varchar("created_by"),
+  createdByName: text("created_by_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  reviewRequestedAt: timestamp("review_requested_at"),
+  // Admin who approved or rejected the review request
+  reviewedBy: varchar("reviewed_by"),
+  reviewedByName: text("reviewed_by_name"),
+  reviewedAt: timestamp("reviewed_at"),
+}, (table) => [
+  uniqueIndex("agent_config_versions_org_agent_version_idx").on(table.orgId, table.agentType, table.version),
+]);
+
+// Review discussion on one version of an agent config
+export const agentVersionComments = pgTable("agent_version_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").notNull().references(() => organizations.id),
+  versionId: varchar("version_id").notNull().references(() => agentConfigVersions.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  createdBy: varchar("created_by"),
+  createdByName: text("created_by_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("agent_version_comments_version_idx").on(table.versionId, table.createdAt),
+]);
+
+// Tokens spent per agent run: n8n records production runs, the BFF records
+// test runs. Checked against paramsJson.monthlyTokenBudget.
+export const agentUsage = pgTable("agent_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").notNull().references(() => organizations.id),
+  agentType: agentTypeEnum("agent_type").notNull(),
+  source: text("source").notNull(), // "production" | "test"
+  tokens: integer("tokens").notNull(),
+  estimatedCost: doublePrecision("estimated_cost"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("agent_usage_org_agent_created_idx").on(table.orgId, table.agentType, table.createdAt),
+]);
+
+// A/B test between saved versions of one agent's config. variants holds
+// [{ key, version, weight }] with weights summing to 100; at most one
+// experiment per org and agent type runs at a time.
+export const agentExperiments = pgTable("agent_experiments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").notNull().references(() => organizations.id),
+  agentType: agentTypeEnum("agent_type").notNull(),
+  name: text("name").notNull(),
+  status: experimentStatusEnum("status").notNull().default("running"),
+  variants: json("variants").notNull(),
+  createdBy: varchar("created_by"),
+  createdByName: text("created_by_name"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  endedAt: timestamp("ended_at"),
+}, (table) => [
+  uniqueIndex("agent_experiments_running_idx").on(table.orgId, table.agentType).where(sql`status = 'running'`),
+]);
+
+// Sticky variant per conversation: the first assignment wins for the whole
+// experiment. conversationId is the Chatwoot conversation id.
+export const agentExperimentAssignments = pgTable("agent_experiment_assignments", {
+  experimentId: varchar("experiment_id").notNull().references(() => agentExperiments.id, { onDelete: "cascade" }),
+  conversationId: text("conversation_id").notNull(),
+  variant: text("variant").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("agent_experiment_assignments_conversation_idx").on(table.experimentId, table.conversationId),
+]);
+
+// Saved eval cases: an input transcript plus assertions on the agent's
+// JSON output (see evalAssertionSchema in shared/contracts.ts)
+export const agentTestCases = pgTable("agent_test_cases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").notNull().references(() => organizations.id),
+  agentType: agentTypeEnum("agent_type").notNull(),
+  name: text("name").notNull(),
+  input: text("input").notNull(),
+  assertions: json("assertions").notNull(),
+  createdBy: varchar("created_by"),
+  createdByName: text("created_by_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One batch run of every test case against one saved version; results holds
+// a per-case outcome and is filled in as the run progresses
+export const agentEvalRuns = pgTable("agent_eval_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").notNull().references(() => organizations.id),
+  agentType: agentTypeEnum("agent_type").notNull(),
+  version: text("version").notNull(),
+  status: evalRunStatusEnum("status").notNull().default("running"),
+  total: integer("total").notNull(),
+  passed: integer("passed").notNull().default(0),
+  failed: integer("failed").notNull().default(0),
+  results: json("results").notNull().default([]),
+  error: text("error"),
+  createdBy: varchar("created_by"),
+  createdByName: text("created_by_name"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
 });
 
+// Named text blocks agent prompts include with {{> name}} (see
+// shared/promptTemplate.ts); the name is fixed once created
+export const promptSnippets = pgTable("prompt_snippets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orgId: varchar("org_id").notNull().references(() => organizations.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  body: text("body").notNull(),
+  createdBy: varchar("created_by"),
+  createdByName: text("created_by_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("prompt_snippets_org_name_idx").on(table.orgId, table.name),
+]);
+
 // Knowledge Items
 export const knowledgeItems = pgTable("knowledge_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -96,7 +241,9 @@ export const webhookLogs = pgTable("webhook_logs", {
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   orgId: varchar("org_id").notNull().references(() => organizations.id),
-  actorUserId: varchar("actor_user_id").references(() => users.id),
+  // admin_users.id of the dashboard account that acted (null for system)
+  actorUserId: varchar("actor_user_id"),
+  actorName: text("actor_name"),
   action: text("action").notNull(),
   target: text("target").notNull(),
   beforeJson: json("before_json"),
@@ -146,6 +293,11 @@ export const organizationsRelations = relations(organizations, ({ many }) => ({
   users: many(users),
   integrations: many(integrations),
   agentConfigs: many(agentConfigs),
+  agentUsage: many(agentUsage),
+  agentExperiments: many(agentExperiments),
+  agentTestCases: many(agentTestCases),
+  agentEvalRuns: many(agentEvalRuns),
+  promptSnippets: many(promptSnippets),
   knowledgeItems: many(knowledgeItems),
   webhookLogs: many(webhookLogs),
   auditLogs: many(auditLogs),
@@ -153,13 +305,11 @@ export const organizationsRelations = relations(organizations, ({ many }) => ({
   conversations: many(conversations),
 }));
 
-export const usersRelations = relations(users, ({ one, many }) => ({
+export const usersRelations = relations(users, ({ one }) => ({
   organization: one(organizations, {
     fields: [users.orgId],
     references: [organizations.id],
   }),
-  agentConfigs: many(agentConfigs),
-  auditLogs: many(auditLogs),
 }));
 
 export const agentConfigsRelations = relations(agentConfigs, ({ one }) => ({
@@ -167,9 +317,63 @@ export const agentConfigsRelations = relations(agentConfigs, ({ one }) => ({
     fields: [agentConfigs.orgId],
     references: [organizations.id],
   }),
-  createdBy: one(users, {
-    fields: [agentConfigs.createdBy],
-    references: [users.id],
+}));
+
+export const agentConfigVersionsRelations = relations(agentConfigVersions, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [agentConfigVersions.orgId],
+    references: [organizations.id],
+  }),
+  comments: many(agentVersionComments),
+}));
+
+export const agentVersionCommentsRelations = relations(agentVersionComments, ({ one }) => ({
+  version: one(agentConfigVersions, {
+    fields: [agentVersionComments.versionId],
+    references: [agentConfigVersions.id],
+  }),
+}));
+
+export const agentUsageRelations = relations(agentUsage, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [agentUsage.orgId],
+    references: [organizations.id],
+  }),
+}));
+
+export const agentExperimentsRelations = relations(agentExperiments, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [agentExperiments.orgId],
+    references: [organizations.id],
+  }),
+  assignments: many(agentExperimentAssignments),
+}));
+
+export const agentExperimentAssignmentsRelations = relations(agentExperimentAssignments, ({ one }) => ({
+  experiment: one(agentExperiments, {
+    fields: [agentExperimentAssignments.experimentId],
+    references: [agentExperiments.id],
+  }),
+}));
+
+export const agentTestCasesRelations = relations(agentTestCases, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [agentTestCases.orgId],
+    references: [organizations.id],
+  }),
+}));
+
+export const agentEvalRunsRelations = relations(agentEvalRuns, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [agentEvalRuns.orgId],
+    references: [organizations.id],
+  }),
+}));
+
+export const promptSnippetsRelations = relations(promptSnippets, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [promptSnippets.orgId],
+    references: [organizations.id],
   }),
 }));
 
@@ -192,10 +396,6 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
     fields: [auditLogs.orgId],
     references: [organizations.id],
   }),
-  actor: one(users, {
-    fields: [auditLogs.actorUserId],
-    references: [users.id],
-  }),
 }));
 
 export const jobsRelations = relations(jobs, ({ one }) => ({
@@ -220,7 +420,21 @@ export const integrationsRelations = relations(integrations, ({ one }) => ({
 }));
 
 // Insert schemas
-export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  slug: (schema) => schema.regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug must use lowercase letters, digits and dashes"),
+  timezone: (schema) => schema.refine(isValidTimeZone, "Unknown IANA timezone"),
+  allowedModels: z.array(z.string().trim().min(1)).min(1, "Allow at least one model"),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -272,6 +486,23 @@ export const insertIntegrationSchema = createInsertSchema(integrations).omit({
   updatedAt: true,
 });
 
+// Request schemas
+export const inviteUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().min(1).optional(),
+  role: z.enum(userRoleEnum.enumValues).default("viewer"),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoleEnum.enumValues),
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiKeyScopes)).min(1, "Select at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
 // Types
 export type Organization = typeof organizations.$inferSelect;
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
@@ -279,6 +510,14 @@ export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type AgentConfig = typeof agentConfigs.$inferSelect;
 export type InsertAgentConfig = z.infer<typeof insertAgentConfigSchema>;
+export type AgentConfigVersion = typeof agentConfigVersions.$inferSelect;
+export type AgentVersionComment = typeof agentVersionComments.$inferSelect;
+export type AgentUsage = typeof agentUsage.$inferSelect;
+export type AgentExperiment = typeof agentExperiments.$inferSelect;
+export type AgentExperimentAssignment = typeof agentExperimentAssignments.$inferSelect;
+export type AgentTestCase = typeof agentTestCases.$inferSelect;
+export type AgentEvalRun = typeof agentEvalRuns.$inferSelect;
+export type PromptSnippet = typeof promptSnippets.$inferSelect;
 export type KnowledgeItem = typeof knowledgeItems.$inferSelect;
 export type InsertKnowledgeItem = z.infer<typeof insertKnowledgeItemSchema>;
 export type Job = typeof jobs.$inferSelect;